@@ -7,11 +7,18 @@ import { env } from './config/env';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import { apiLimiter } from './middleware/rateLimiter';
+import { authenticate } from './middleware/authenticate';
 
 // Import routes
 import { healthRoutes } from './routes/health.routes';
 import { workspaceRoutes } from './routes/workspace';
+import { authRoutes } from './routes/auth';
+import { shareRoutes } from './routes/share';
+import { trashRoutes } from './routes/trash';
+import { searchRoutes } from './routes/search';
+import { notificationRoutes } from './routes/notifications';
 import { idempotencyMiddleware } from './middleware/idempotency';
+import { requestId } from './middleware/requestId';
 
 export const createApp = (): Express => {
   const app = express();
@@ -20,7 +27,8 @@ export const createApp = (): Express => {
   app.use(helmet());
   app.use(
     cors({
-      origin: env.CORS_ORIGIN || '*',
+      // Credentialed requests need a concrete origin; never reflect arbitrary callers
+      origin: env.CORS_ORIGIN,
       credentials: true,
     })
   );
@@ -32,8 +40,8 @@ export const createApp = (): Express => {
   // Compression
   app.use(compression());
 
-  // Idempotency middleware
-  app.use(idempotencyMiddleware);
+  // Request IDs, for logs and the audit trail
+  app.use(requestId);
 
   // Logging
   if (env.NODE_ENV === 'development') {
@@ -50,9 +58,19 @@ export const createApp = (): Express => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
   });
 
-  // API routes
+  // Public API routes
   app.use('/api', healthRoutes);
+  app.use('/api/auth', authRoutes);
+  app.use('/api/share', shareRoutes);
+
+  // Everything below requires a signed-in user
+  app.use('/api', authenticate);
+  // Idempotency middleware, keyed by the signed-in user
+  app.use('/api', idempotencyMiddleware);
   app.use('/api/workspaces', workspaceRoutes);
+  app.use('/api/trash', trashRoutes);
+  app.use('/api/search', searchRoutes);
+  app.use('/api/notifications', notificationRoutes);
 
   // 404 handler
   app.use(notFound);
@@ -62,4 +80,3 @@ export const createApp = (): Express => {
 
   return app;
 };
-
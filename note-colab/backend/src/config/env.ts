@@ -7,7 +7,8 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).pipe(z.number().int().positive()).default('5000'),
   MONGODB_URI: z.string().url().min(1),
-  CORS_ORIGIN: z.string().url().optional(),
+  // The frontend allowed to make credentialed requests
+  CORS_ORIGIN: z.string().url().optional().default('http://localhost:3000'),
   RATE_LIMIT_WINDOW_MS: z
     .string()
     .transform(Number)
@@ -20,6 +21,33 @@ const envSchema = z.object({
     .pipe(z.number().int().positive())
     .optional()
     .default('100'),
+  JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
+  SESSION_TTL_SECONDS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .optional()
+    .default('604800'),
+  TRASH_RETENTION_DAYS: z
+    .string()
+    .transform(Number)
+    .pipe(z.number().int().positive())
+    .optional()
+    .default('30'),
+  // Where page attachments are kept; only the local disk for now
+  ATTACHMENT_STORAGE: z.enum(['local']).optional().default('local'),
+  ATTACHMENT_DIR: z.string().min(1).optional().default('uploads'),
+  // Comma-separated hosts webhooks may reach although they are internal, e.g. `localhost`
+  WEBHOOK_ALLOWED_HOSTS: z
+    .string()
+    .optional()
+    .default('')
+    .transform(hosts =>
+      hosts
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean)
+    ),
 });
 
 type Env = z.infer<typeof envSchema>;
@@ -31,7 +59,7 @@ try {
 } catch (error) {
   if (error instanceof z.ZodError) {
     console.error('❌ Invalid environment variables:');
-    error.errors.forEach((err) => {
+    error.errors.forEach(err => {
       console.error(`  ${err.path.join('.')}: ${err.message}`);
     });
     process.exit(1);
@@ -40,4 +68,3 @@ try {
 }
 
 export { env };
-
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { FilterQuery } from 'mongoose';
+import { asyncHandler } from '../utils/asyncHandler';
+import { AuditEvent, IAuditEvent } from '@/models/auditEvents';
+import { paginate } from '@/utils/pagination';
+import { GetActivityQuery } from '@/schemas/activity';
+
+/**
+ * The audit trail of the workspace and its pages, newest first, optionally
+ * narrowed to an action, a kind of target, one target, one actor or a time range
+ */
+export const getActivity = asyncHandler(async (req: Request, res: Response) => {
+  const { action, targetType, targetId, actor, from, to, ...pagination } =
+    req.query as unknown as GetActivityQuery;
+
+  const filter: FilterQuery<IAuditEvent> = {
+    workspaceId: req.params.id,
+    ...(action && { action }),
+    ...(targetType && { targetType }),
+    ...(targetId && { targetId }),
+    ...(actor && { actor }),
+    ...((from || to) && {
+      createdAt: { ...(from && { $gte: new Date(from) }), ...(to && { $lte: new Date(to) }) },
+    }),
+  };
+  const { items, nextCursor } = await paginate(AuditEvent, filter, {
+    ...pagination,
+    sort: '-createdAt',
+  });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    // Request IDs are only shown to whoever sent the request
+    data: items.map(event =>
+      String(event.actor) === req.user!.id ? event : { ...event.toObject(), requestId: null }
+    ),
+    pagination: { limit: pagination.limit, nextCursor },
+  });
+});
@@ -0,0 +1,180 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import { Attachment, IAttachment } from '@/models/attachments';
+import {
+  addAttachment,
+  attachmentFileName,
+  deleteAttachments,
+  detectAttachmentType,
+  openAttachment,
+} from '@/utils/attachments';
+import { DownloadAttachmentQuery } from '@/schemas/attachments';
+
+const ATTACHMENT_USER_FIELDS = 'name';
+
+const findLivePage = (workspaceId: string, pageId: string) =>
+  Page.findOne({ _id: pageId, workspaceId, status: { $ne: CommonStatus.DELETED } });
+
+const pageNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Page not found',
+  });
+
+const attachmentNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Attachment not found',
+  });
+
+const send = async (content: Readable, res: Response) => {
+  try {
+    await pipeline(content, res);
+  } catch (error) {
+    // The client went away, or the file could not be read halfway through
+    if (!res.writableEnded) {
+      res.destroy(error as Error);
+    }
+  }
+};
+
+export const getAttachments = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+
+  const attachments = await Attachment.find({ pageId })
+    .populate('uploadedBy', ATTACHMENT_USER_FIELDS)
+    .sort({ createdAt: 1 });
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: attachments,
+  });
+});
+
+/**
+ * Attaches the uploaded `files` to the page. Nothing is stored unless every file
+ * is of an allowed type. Files the page already has come back as they are.
+ */
+export const uploadAttachments = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+  if (uploads.length === 0) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'No files uploaded',
+    });
+  }
+
+  const files = uploads.map(upload => ({
+    name: attachmentFileName(upload.originalname),
+    data: upload.buffer,
+    mimeType: detectAttachmentType(upload.buffer, upload.originalname),
+  }));
+  const rejected = files.filter(file => !file.mimeType).map(file => file.name);
+  if (rejected.length > 0) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: `File type not allowed: ${rejected.join(', ')}. Attach images (PNG, JPEG, GIF, WebP), PDF, CSV or plain text files.`,
+    });
+  }
+
+  const attachments: IAttachment[] = [];
+  for (const file of files) {
+    attachments.push(
+      await addAttachment({
+        workspaceId,
+        pageId,
+        name: file.name,
+        mimeType: file.mimeType!,
+        data: file.data,
+        uploadedBy: req.user!.id,
+      })
+    );
+  }
+  await Attachment.populate(attachments, { path: 'uploadedBy', select: ATTACHMENT_USER_FIELDS });
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: attachments,
+  });
+});
+
+/**
+ * Streams the file with its detected type, so the browser never has to guess it.
+ * The content hash doubles as the ETag.
+ */
+export const downloadAttachment = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId, attachmentId } = req.params;
+  const { inline } = req.query as unknown as DownloadAttachmentQuery;
+
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+  const attachment = await Attachment.findOne({ _id: attachmentId, pageId });
+  if (!attachment) {
+    return attachmentNotFound(res);
+  }
+
+  const etag = `"${attachment.hash}"`;
+  // Access can be revoked, so caches have to ask again every time
+  res.setHeader('Cache-Control', 'private, no-cache');
+  res.setHeader('ETag', etag);
+  if (req.headers['if-none-match'] === etag) {
+    return res.status(StatusCodes.NOT_MODIFIED).end();
+  }
+
+  const content = await openAttachment(attachment);
+  if (!content) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'The attachment file is missing',
+    });
+  }
+
+  // Sets an ASCII fallback and the UTF-8 name (RFC 6266); the type is set after it
+  res.attachment(attachment.name);
+  if (inline) {
+    res.setHeader(
+      'Content-Disposition',
+      String(res.getHeader('Content-Disposition')).replace(/^attachment/, 'inline')
+    );
+  }
+  const textType = attachment.mimeType.startsWith('text/');
+  res.setHeader(
+    'Content-Type',
+    textType ? `${attachment.mimeType}; charset=utf-8` : attachment.mimeType
+  );
+  res.setHeader('Content-Length', attachment.size);
+
+  return send(content, res);
+});
+
+export const deleteAttachment = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId, attachmentId } = req.params;
+
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+  if (!(await Attachment.exists({ _id: attachmentId, pageId }))) {
+    return attachmentNotFound(res);
+  }
+
+  await deleteAttachments({ _id: attachmentId });
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Attachment deleted',
+  });
+});
@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import bcrypt from 'bcryptjs';
+import { asyncHandler } from '../utils/asyncHandler';
+import { env } from '@/config/env';
+import { IUser, User } from '@/models/users';
+import { AUTH_COOKIE, authCookieOptions, signAuthToken } from '@/utils/authToken';
+
+const PASSWORD_SALT_ROUNDS = 12;
+
+const startSession = (res: Response, user: IUser) => {
+  const token = signAuthToken({ id: String(user._id), name: user.name, email: user.email });
+  res.cookie(AUTH_COOKIE, token, {
+    ...authCookieOptions,
+    maxAge: env.SESSION_TTL_SECONDS * 1000,
+  });
+  return token;
+};
+
+export const register = asyncHandler(async (req: Request, res: Response) => {
+  const { name, email, password } = req.body;
+
+  const existing = await User.findOne({ email });
+  if (existing) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'An account with this email already exists',
+    });
+  }
+
+  const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+  const user = await User.create({ name, email, passwordHash });
+  const token = startSession(res, user);
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: { user, token },
+  });
+});
+
+export const login = asyncHandler(async (req: Request, res: Response) => {
+  const { email, password } = req.body;
+  const user = await User.findOne({ email }).select('+passwordHash');
+
+  // Same response for unknown emails and wrong passwords
+  if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+    return res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      message: 'Invalid email or password',
+    });
+  }
+
+  const token = startSession(res, user);
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: { user, token },
+  });
+});
+
+export const logout = asyncHandler(async (_req: Request, res: Response) => {
+  res.clearCookie(AUTH_COOKIE, authCookieOptions);
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Logged out successfully',
+  });
+});
+
+export const getCurrentUser = asyncHandler(async (req: Request, res: Response) => {
+  const user = await User.findById(req.user!.id);
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: user,
+  });
+});
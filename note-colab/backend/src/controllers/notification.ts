@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import { Notification } from '@/models/notifications';
+import { PageWatcher } from '@/models/pageWatchers';
+import { WorkspaceMember } from '@/models/workspaceMembers';
+import { paginate } from '@/utils/pagination';
+import { watchPage } from '@/utils/notifications';
+import { GetNotificationsQuery } from '@/schemas/notifications';
+
+/**
+ * The user's notifications from workspaces they still belong to: once they leave or
+ * are removed, its pages and their titles are no longer theirs to see
+ */
+const inboxFilter = async (userId: string) => ({
+  userId,
+  workspaceId: { $in: await WorkspaceMember.find({ userId }).distinct('workspaceId') },
+});
+
+const unreadCount = async (userId: string) =>
+  Notification.countDocuments({ ...(await inboxFilter(userId)), readAt: null });
+
+/**
+ * The caller's notifications, latest activity first
+ */
+export const getNotifications = asyncHandler(async (req: Request, res: Response) => {
+  const { unread, ...pagination } = req.query as unknown as GetNotificationsQuery;
+  const { items, nextCursor } = await paginate(
+    Notification,
+    { ...(await inboxFilter(req.user!.id)), ...(unread && { readAt: null }) },
+    { ...pagination, sort: '-updatedAt' }
+  );
+  await Notification.populate(items, [
+    { path: 'actor', select: 'name' },
+    { path: 'workspaceId', select: 'title' },
+    { path: 'pageId', select: 'title status' },
+  ]);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: items,
+    pagination: { limit: pagination.limit, nextCursor },
+  });
+});
+
+export const getUnreadCount = asyncHandler(async (req: Request, res: Response) => {
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { count: await unreadCount(req.user!.id) },
+  });
+});
+
+/**
+ * Marks the given notifications, or all of them, as read or unread
+ */
+export const markNotifications = asyncHandler(async (req: Request, res: Response) => {
+  const { ids, read } = req.body as { ids?: string[]; read: boolean };
+  const userId = req.user!.id;
+
+  // Reading is no activity: the inbox keeps its order
+  const { modifiedCount } = await Notification.updateMany(
+    { userId, ...(ids && { _id: { $in: ids } }), readAt: read ? null : { $ne: null } },
+    { $set: { readAt: read ? new Date() : null } },
+    { timestamps: false }
+  );
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { updated: modifiedCount, unread: await unreadCount(userId) },
+  });
+});
+
+const findLivePage = (workspaceId: string, pageId: string) =>
+  Page.exists({ _id: pageId, workspaceId, status: { $ne: CommonStatus.DELETED } });
+
+const pageNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Page not found',
+  });
+
+export const getPageWatch = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+
+  const watching = !!(await PageWatcher.exists({ pageId, userId: req.user!.id }));
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: { watching },
+  });
+});
+
+export const addPageWatch = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+
+  await watchPage(workspaceId, pageId, req.user!.id);
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: { watching: true },
+  });
+});
+
+export const removePageWatch = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+
+  await PageWatcher.deleteOne({ pageId, userId: req.user!.id });
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: { watching: false },
+  });
+});
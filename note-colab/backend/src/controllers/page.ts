@@ -1,23 +1,96 @@
 import { Request, Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
+import mongoose from 'mongoose';
 import { asyncHandler } from '../utils/asyncHandler';
 import { retryMongoOperation } from '../utils/retryMongoOperation';
-import { CommonStatus, Page } from '@/models/pages';
+import { CommonStatus, MAX_PAGE_CONTENT_LENGTH, Page, PageFormat } from '@/models/pages';
+import { PageRevision } from '@/models/pageRevisions';
+import { Tag } from '@/models/tags';
+import { recordPageRevision } from '@/utils/recordPageRevision';
+import { mergeField } from '@/utils/threeWayMerge';
+import { emitPageEvent } from '@/realtime/pageEvents';
+import { discardPageDocument, syncPageDocument } from '@/realtime/collabDocuments';
+import { trashFields } from '@/utils/trash';
+import { renderMarkdown, sanitizePageContent } from '@/utils/markdown';
+import { instantiateTemplate } from '@/utils/pageTemplate';
+import { paginate } from '@/utils/pagination';
+import { buildPageTree, getDescendantIds, isSelfOrAncestor } from '@/utils/pageTree';
+import {
+  placePage,
+  POSITION_SORT,
+  positionAtEnd,
+  positionAtStart,
+  positionsAfter,
+} from '@/utils/pageOrder';
+import { assignIds, copyPages, mapTagsByName } from '@/utils/pageCopy';
+import { toPageResponse } from '@/utils/pageResponse';
+import { relinkOwnContent, relinkRenamedPage, renameSource } from '@/utils/pageRename';
+import { hasRole } from '@/utils/workspaceAccess';
+import { notifyPageSaved } from '@/utils/notifications';
+import { indexPageLinks, wikiLinkResolver } from '@/utils/pageLinks';
+import { Workspace } from '@/models/wrokspace';
+import { AuditAction } from '@/models/auditEvents';
+import { pageAudit, recordAudit, requestActor } from '@/utils/audit';
+import { WorkspaceMember, WorkspaceRole } from '@/models/workspaceMembers';
+import {
+  DeletePageQuery,
+  DuplicatePageBody,
+  GetPagesQuery,
+  GetPageTreeQuery,
+} from '@/schemas/pages';
+
+const parentExists = (workspaceId: string, parentId: string) =>
+  Page.exists({ _id: parentId, workspaceId, status: { $ne: CommonStatus.DELETED } });
+
+const allTagsExist = async (workspaceId: string, tagIds: string[]) =>
+  (await Tag.countDocuments({ _id: { $in: tagIds }, workspaceId })) === tagIds.length;
 
 export const getPages = asyncHandler(async (req: Request, res: Response) => {
   const { id: workspaceId } = req.params;
-  const pages = await Page.find({ workspaceId, status: CommonStatus.ACTIVE })
-    .populate('workspaceId')
-    .sort({ createdAt: -1 });
+  const { status, tags, parentId, ...pagination } = req.query as unknown as GetPagesQuery;
+  // Lists carry no content; the editor loads a page on its own when it is opened
+  const { items, nextCursor } = await paginate(
+    Page,
+    {
+      workspaceId,
+      status,
+      ...(parentId && { parentId: parentId === 'root' ? null : parentId }),
+      ...(tags?.length && { tags: { $all: tags } }),
+    },
+    pagination,
+    '-content'
+  );
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: items,
+    pagination: { limit: pagination.limit, nextCursor },
+  });
+});
+
+/**
+ * All pages of a workspace nested under their parents, without content
+ */
+export const getPageTree = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { status } = req.query as unknown as GetPageTreeQuery;
+  const pages = await Page.find({ workspaceId, status })
+    .select('-content')
+    .sort(POSITION_SORT)
+    .lean();
+
   res.status(StatusCodes.OK).json({
     success: true,
-    data: pages,
+    data: buildPageTree(pages),
   });
 });
 
 export const getPageById = asyncHandler(async (req: Request, res: Response) => {
-  const { pageId } = req.params;
-  const page = await Page.findById(pageId).populate('workspaceId');
+  const { id: workspaceId, pageId } = req.params;
+  const page = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  }).populate('workspaceId');
 
   if (!page) {
     res.status(StatusCodes.NOT_FOUND).json({
@@ -29,24 +102,99 @@ export const getPageById = asyncHandler(async (req: Request, res: Response) => {
 
   res.status(StatusCodes.OK).json({
     success: true,
-    data: page,
+    data: await toPageResponse(page, workspaceId),
+  });
+});
+
+/**
+ * Renders markdown the same way a saved page is rendered: unsaved edits in the
+ * editor's preview, or live updates that arrive without their rendering
+ */
+export const previewMarkdown = asyncHandler(async (req: Request, res: Response) => {
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      html: renderMarkdown(
+        req.body.content,
+        await wikiLinkResolver(req.params.id, req.body.content)
+      ),
+    },
   });
 });
 
 export const createPage = asyncHandler(async (req: Request, res: Response) => {
+  if (req.body.parentId && !(await parentExists(req.params.id, req.body.parentId))) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Parent page not found',
+    });
+  }
+
+  if (req.body.tags?.length && !(await allTagsExist(req.params.id, req.body.tags))) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'Unknown tag for this workspace',
+    });
+  }
+
+  const { templateId, ...fields } = req.body;
+  if (templateId) {
+    const filled = await instantiateTemplate(req.params.id, templateId);
+    if (!filled) {
+      return res.status(StatusCodes.NOT_FOUND).json({
+        success: false,
+        message: 'Template not found',
+      });
+    }
+    fields.title ??= filled.title || 'Untitled';
+    fields.content ??= filled.content;
+    fields.format ??= filled.format;
+  }
+
+  // Sanitized for the format the page ends up with, which a template may have set
+  if (fields.content) {
+    fields.content = sanitizePageContent(fields.content, fields.format);
+  }
+  if (templateId && fields.content.length > MAX_PAGE_CONTENT_LENGTH) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: `Content cannot exceed ${MAX_PAGE_CONTENT_LENGTH} characters once the template is filled in`,
+    });
+  }
+
+  // New pages go on top of their siblings
+  const position = await positionAtStart(req.params.id, req.body.parentId);
+
   try {
     const page = await retryMongoOperation(
-      () => Page.create({ ...req.body, workspaceId: req.params.id }),
+      () =>
+        Page.create({
+          ...fields,
+          position,
+          workspaceId: req.params.id,
+          createdBy: req.user!.id,
+          updatedBy: req.user!.id,
+        }),
       {
         maxRetries: 3,
         initialDelay: 1000,
         maxDelay: 10000,
       }
     );
+    await recordPageRevision(page, { author: req.user!.name });
+    await indexPageLinks(page);
+    await recordAudit(requestActor(req), pageAudit(AuditAction.CREATED, { after: page }));
+    emitPageEvent(req, 'page.created', page);
+    await notifyPageSaved({
+      workspaceId: page.workspaceId,
+      pageId: page._id as string,
+      actorId: req.user!.id,
+      after: page.content ?? '',
+    });
 
     return res.status(StatusCodes.CREATED).json({
       success: true,
-      data: page,
+      data: await toPageResponse(page),
     });
   } catch (error: any) {
     // MongoDB connection errors after retries
@@ -76,8 +224,12 @@ export const createPage = asyncHandler(async (req: Request, res: Response) => {
 
 export const updatePage = asyncHandler(async (req: Request, res: Response) => {
   try{
-    const { pageId } = req.params;
-    const pageExist = await Page.findById(pageId);
+    const { id: workspaceId, pageId } = req.params;
+    const pageExist = await Page.findOne({
+      _id: pageId,
+      workspaceId,
+      status: { $ne: CommonStatus.DELETED },
+    });
     console.log("pageExist>>",pageExist, req.body);
     if (!pageExist) {
       res.status(StatusCodes.NOT_FOUND).json({
@@ -86,24 +238,120 @@ export const updatePage = asyncHandler(async (req: Request, res: Response) => {
       });
       return;
     }
+    // Content is sanitized for the format it is saved in, the current one unless changed
+    const format: PageFormat = req.body.format ?? pageExist.format;
+    if (req.body.content) {
+      req.body.content = sanitizePageContent(req.body.content, format);
+    }
+    let update = { title: req.body.title, content: req.body.content, format: req.body.format };
+    let merged = false;
+
     if (pageExist.__v !== req.body.__v) {
+      // The client edited an older version: try to merge its changes on top of the current one
+      const base =
+        req.body.__v !== undefined
+          ? await PageRevision.findOne({ pageId, version: req.body.__v })
+          : null;
+      if (!base) {
+        return res.status(StatusCodes.CONFLICT).json({
+          success: false,
+          message: 'Page version mismatch',
+          serverVersion: pageExist.__v,
+          clientVersion: req.body.__v,
+          serverTitle: pageExist.title,
+          serverContent: pageExist.content,
+          clientContent: req.body.content,
+        });
+      }
+
+      const titleMerge = mergeField(base.title, pageExist.title, req.body.title ?? base.title);
+      const contentMerge = mergeField(
+        base.content ?? '',
+        pageExist.content ?? '',
+        req.body.content ?? base.content ?? ''
+      );
+
+      if (titleMerge.conflict || contentMerge.conflict) {
+        return res.status(StatusCodes.CONFLICT).json({
+          success: false,
+          message: 'Page version mismatch',
+          serverVersion: pageExist.__v,
+          clientVersion: req.body.__v,
+          serverTitle: pageExist.title,
+          serverContent: pageExist.content,
+          clientContent: req.body.content,
+          conflicts: {
+            title: titleMerge,
+            content: contentMerge,
+          },
+        });
+      }
+
+      update = { title: titleMerge.merged, content: contentMerge.merged, format: req.body.format };
+      merged = true;
+    }
+
+    // What is saved must be sanitized for the final format, so a format change alone
+    // sanitizes the stored content again
+    if (update.content !== undefined || format !== pageExist.format) {
+      update.content = sanitizePageContent(update.content ?? pageExist.content ?? '', format);
+    }
+
+    // Links to the page follow a rename, its own included; case changes still match
+    const renamedFrom = await renameSource(pageExist, update.title);
+    if (renamedFrom) {
+      const content = update.content ?? pageExist.content ?? '';
+      const relinked = relinkOwnContent(content, renamedFrom, update.title);
+      if (relinked !== content) {
+        update.content = relinked;
+      }
+    }
+
+    // Make sure the version being replaced is kept (pages created before history existed)
+    await recordPageRevision(pageExist);
+
+    const page = await Page.findOneAndUpdate(
+      { _id: pageId, __v: pageExist.__v },
+      { $set: { ...update, updatedBy: req.user!.id }, $inc: { __v: 1 } },
+      { new: true, runValidators: true }
+    );
+
+    // Another write bumped the version between the check above and this update
+    if (!page) {
+      const latest = await Page.findById(pageId);
       return res.status(StatusCodes.CONFLICT).json({
         success: false,
         message: 'Page version mismatch',
-        serverVersion: pageExist.__v,
+        serverVersion: latest?.__v,
         clientVersion: req.body.__v,
-        serverContent: pageExist.content,
+        serverTitle: latest?.title,
+        serverContent: latest?.content,
         clientContent: req.body.content,
       });
     }
-    const page = await Page.findOneAndUpdate({ _id: pageId, __v: req.body.__v }, { $set: { title: req.body.title, content: req.body.content } , $inc: { __v: 1 } }, {
-      new: true,
-      runValidators: true,
+    await recordPageRevision(page, { author: req.user!.name });
+    await indexPageLinks(page);
+    await recordAudit(
+      requestActor(req),
+      pageAudit(AuditAction.UPDATED, { before: pageExist, after: page })
+    );
+    syncPageDocument(pageId, page.content || '');
+    emitPageEvent(req, 'page.updated', page);
+    if (renamedFrom) {
+      await relinkRenamedPage(req, page, renamedFrom);
+    }
+    await notifyPageSaved({
+      workspaceId,
+      pageId,
+      actorId: req.user!.id,
+      before: pageExist.content ?? '',
+      after: page.content ?? '',
     });
   
     return res.status(StatusCodes.OK).json({
       success: true,
-      data: page,
+      data: await toPageResponse(page),
+      merged,
     });
   
   }catch(error: any){
@@ -116,9 +364,264 @@ export const updatePage = asyncHandler(async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Replaces the tags of a page. Tags are labels, not content, so this neither
+ * bumps the version nor records a revision.
+ */
+export const setPageTags = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const { tags } = req.body as { tags: string[] };
+
+  if (!(await allTagsExist(workspaceId, tags))) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'Unknown tag for this workspace',
+    });
+  }
+
+  const previous = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  });
+  const page =
+    previous &&
+    (await Page.findOneAndUpdate(
+      { _id: pageId, workspaceId, status: { $ne: CommonStatus.DELETED } },
+      { $set: { tags, updatedBy: req.user!.id } },
+      { new: true }
+    ));
+
+  if (!page) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found',
+    });
+  }
+
+  await recordAudit(
+    requestActor(req),
+    pageAudit(AuditAction.UPDATED, { before: previous, after: page })
+  );
+  emitPageEvent(req, 'page.updated', page);
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: await toPageResponse(page),
+  });
+});
+
+/**
+ * Moves a page under `parentId` (undefined keeps its parent, null is the top level),
+ * directly after the sibling `afterId`, first when null or last when undefined
+ */
+const relocatePage = async (
+  req: Request,
+  res: Response,
+  parentId: string | null | undefined,
+  afterId: string | null | undefined
+) => {
+  const { id: workspaceId, pageId } = req.params;
+  const page = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  });
+
+  if (!page) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found',
+    });
+  }
+
+  const targetParentId = parentId === undefined ? (page.parentId?.toString() ?? null) : parentId;
+  if (targetParentId && targetParentId !== page.parentId?.toString()) {
+    if (!(await parentExists(workspaceId, targetParentId))) {
+      return res.status(StatusCodes.NOT_FOUND).json({
+        success: false,
+        message: 'Parent page not found',
+      });
+    }
+    if (await isSelfOrAncestor(pageId, targetParentId)) {
+      return res.status(StatusCodes.BAD_REQUEST).json({
+        success: false,
+        message: 'A page cannot be moved into itself or one of its subpages',
+      });
+    }
+  }
+
+  if (afterId) {
+    const sibling =
+      afterId !== pageId &&
+      (await Page.exists({
+        _id: afterId,
+        workspaceId,
+        parentId: targetParentId,
+        status: { $ne: CommonStatus.DELETED },
+      }));
+    if (!sibling) {
+      return res.status(StatusCodes.BAD_REQUEST).json({
+        success: false,
+        message: 'The page to place after must be another page under the same parent',
+      });
+    }
+  }
+
+  const previous = { parentId: page.parentId ?? null, position: page.position ?? null };
+  const moved = await placePage(page, targetParentId, afterId, req.user!.id);
+
+  if (!moved) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found',
+    });
+  }
+
+  // Two opposite moves can pass the check above at the same time; undo ours if a loop formed
+  if (targetParentId && (await isSelfOrAncestor(pageId, targetParentId))) {
+    await Page.updateOne({ _id: pageId }, { $set: previous });
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'The page tree changed while moving. Please try again.',
+    });
+  }
+
+  await recordAudit(
+    requestActor(req),
+    pageAudit(AuditAction.UPDATED, { before: page, after: moved })
+  );
+  emitPageEvent(req, 'page.updated', moved);
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: moved,
+  });
+};
+
+/**
+ * Nests a page under another page of the workspace, or at the top level, as its last child
+ */
+export const movePage = asyncHandler(async (req: Request, res: Response) => {
+  await relocatePage(req, res, req.body.parentId, undefined);
+});
+
+/**
+ * Places a page after a sibling, optionally under a new parent (drag and drop)
+ */
+export const setPagePosition = asyncHandler(async (req: Request, res: Response) => {
+  const { parentId, afterId } = req.body as { parentId?: string | null; afterId: string | null };
+  await relocatePage(req, res, parentId, afterId);
+});
+
+/**
+ * Copies a page, with its subpages unless told otherwise, into its own or
+ * another workspace. A copy in the same place is titled "(copy)" and sits right
+ * after the original; elsewhere it is appended to the chosen parent.
+ */
+export const duplicatePage = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const { includeSubpages, ...body } = req.body as DuplicatePageBody;
+  const targetId = body.workspaceId ?? workspaceId;
+  const sameWorkspace = targetId === workspaceId;
+
+  const page = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  }).lean();
+  if (!page) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found',
+    });
+  }
+
+  // The route only requires reading the source; writing needs an editor of the target
+  const targetMembership = sameWorkspace
+    ? req.membership
+    : await WorkspaceMember.findOne({ workspaceId: targetId, userId: req.user!.id });
+  const targetLive =
+    sameWorkspace ||
+    (await Workspace.exists({ _id: targetId, status: { $ne: CommonStatus.DELETED } }));
+  if (!targetMembership || !targetLive) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Target workspace not found',
+    });
+  }
+  if (!hasRole(targetMembership.role, WorkspaceRole.EDITOR)) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: `This action requires the ${WorkspaceRole.EDITOR} role`,
+    });
+  }
+
+  const parentId =
+    body.parentId !== undefined ? body.parentId : sameWorkspace ? page.parentId : null;
+  if (parentId && !(await parentExists(targetId, String(parentId)))) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Parent page not found',
+    });
+  }
+
+  const descendantIds = includeSubpages ? await getDescendantIds(pageId) : [];
+  const descendants = await Page.find({ _id: { $in: descendantIds } }).lean();
+  const ids = assignIds([page, ...descendants]);
+
+  const besideOriginal = sameWorkspace && String(parentId ?? '') === String(page.parentId ?? '');
+  const [position] = besideOriginal
+    ? await positionsAfter(workspaceId, page.parentId, page.position, 1)
+    : [await positionAtEnd(targetId, parentId)];
+
+  const copies = await copyPages([page, ...descendants], {
+    workspaceId: targetId,
+    ids,
+    // Tags are per workspace; in another one the copy gets the tags of the same name
+    tags: sameWorkspace
+      ? undefined
+      : await mapTagsByName(
+          [...new Set([page, ...descendants].flatMap(source => source.tags.map(String)))],
+          targetId,
+          req.user!.id
+        ),
+    userId: req.user!.id,
+    author: req.user!.name,
+    overrides: new Map([
+      [
+        pageId,
+        {
+          title: sameWorkspace ? `${page.title} (copy)`.slice(0, 100) : page.title,
+          parentId: parentId ? new mongoose.Types.ObjectId(parentId) : null,
+          position,
+        },
+      ],
+    ]),
+  });
+  await recordAudit(
+    requestActor(req),
+    copies.map(copy => pageAudit(AuditAction.CREATED, { after: copy }))
+  );
+  copies.forEach(copy => emitPageEvent(req, 'page.created', copy));
+
+  // The copied page first, then its subpages
+  const root = copies.find(copy => String(copy._id) === String(ids.get(pageId)))!;
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: [await toPageResponse(root), ...copies.filter(copy => copy !== root)],
+  });
+});
+
 export const deletePage = asyncHandler(async (req: Request, res: Response) => {
-  const { pageId } = req.params;
-  const page = await Page.findByIdAndDelete(pageId);
+  const { id: workspaceId, pageId } = req.params;
+  const { descendants } = req.query as unknown as DeletePageQuery;
+  // Moves the page to the trash; it is purged for good later
+  const page = await Page.findOneAndUpdate(
+    { _id: pageId, workspaceId, status: { $ne: CommonStatus.DELETED } },
+    { $set: trashFields(req.user!.id) },
+    { new: true }
+  );
 
   if (!page) {
     res.status(StatusCodes.NOT_FOUND).json({
@@ -127,9 +630,67 @@ export const deletePage = asyncHandler(async (req: Request, res: Response) => {
     });
     return;
   }
+  await discardPageDocument(pageId);
+  await recordAudit(requestActor(req), pageAudit(AuditAction.DELETED, { after: page }));
+  emitPageEvent(req, 'page.deleted', page);
+
+  if (descendants === 'reparent') {
+    // The children take the deleted page's place among its siblings, in their own order
+    const children = await Page.find({
+      parentId: pageId,
+      status: { $ne: CommonStatus.DELETED },
+    }).sort(POSITION_SORT);
+    const positions = await positionsAfter(
+      workspaceId,
+      page.parentId,
+      page.position,
+      children.length
+    );
+    await Page.bulkWrite(
+      children.map((child, index) => ({
+        updateOne: {
+          filter: { _id: child._id },
+          update: {
+            $set: {
+              parentId: page.parentId ?? null,
+              position: positions[index],
+              updatedBy: req.user!.id,
+            },
+          },
+        },
+      }))
+    );
+    const moved = await Page.find({ _id: { $in: children.map(child => child._id) } });
+    await recordAudit(
+      requestActor(req),
+      moved.map(child =>
+        pageAudit(AuditAction.UPDATED, {
+          before: children.find(previous => String(previous._id) === String(child._id)),
+          after: child,
+        })
+      )
+    );
+    moved.forEach(child => emitPageEvent(req, 'page.updated', child));
+  } else {
+    // Subpages share the page's deletedAt, so restoring the page brings them back with it
+    const subpageIds = await getDescendantIds(pageId);
+    await Page.updateMany(
+      { _id: { $in: subpageIds } },
+      { $set: { ...trashFields(req.user!.id), deletedAt: page.deletedAt } }
+    );
+    const subpages = await Page.find({ _id: { $in: subpageIds } });
+    await recordAudit(
+      requestActor(req),
+      subpages.map(subpage => pageAudit(AuditAction.DELETED, { after: subpage }))
+    );
+    for (const subpageId of subpageIds) {
+      await discardPageDocument(String(subpageId));
+      emitPageEvent(req, 'page.deleted', { _id: subpageId, workspaceId: page.workspaceId });
+    }
+  }
 
   res.status(StatusCodes.OK).json({
     success: true,
-    message: 'Page deleted successfully',
+    message: 'Page moved to trash',
   });
 });
@@ -0,0 +1,229 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { AnyBulkWriteOperation } from 'mongoose';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import { IPageComment, PageComment } from '@/models/pageComments';
+import { WorkspaceRole } from '@/models/workspaceMembers';
+import { createAnchor, locateAnchor } from '@/utils/commentAnchor';
+import { hasRole } from '@/utils/workspaceAccess';
+import { notifyCommentSaved } from '@/utils/notifications';
+import { CreatePageCommentBody, GetPageCommentsQuery } from '@/schemas/pageComments';
+
+const COMMENT_USER_FIELDS = 'name';
+
+const findLivePage = (workspaceId: string, pageId: string) =>
+  Page.findOne({ _id: pageId, workspaceId, status: { $ne: CommonStatus.DELETED } });
+
+const populateUsers = (comment: IPageComment) =>
+  comment.populate([
+    { path: 'author', select: COMMENT_USER_FIELDS },
+    { path: 'resolvedBy', select: COMMENT_USER_FIELDS },
+  ]);
+
+/**
+ * Authors manage their own comments; editors may also clean up anyone's
+ */
+const canModerate = (req: Request, comment: IPageComment) =>
+  String(comment.author) === req.user!.id || hasRole(req.membership!.role, WorkspaceRole.EDITOR);
+
+const pageNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Page not found',
+  });
+
+const commentNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Comment not found',
+  });
+
+/**
+ * A page's threads in the order they were started, each with its replies.
+ * Anchors are matched against the current content; the ones that moved are saved
+ * at their new place, the ones whose text is gone come back as `detached`.
+ */
+export const getPageComments = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const { status } = req.query as unknown as GetPageCommentsQuery;
+
+  const page = await findLivePage(workspaceId, pageId);
+  if (!page) {
+    return pageNotFound(res);
+  }
+
+  const comments = await PageComment.find({ pageId })
+    .populate('author', COMMENT_USER_FIELDS)
+    .populate('resolvedBy', COMMENT_USER_FIELDS)
+    .sort({ createdAt: 1 });
+
+  const content = page.content ?? '';
+  const moved: AnyBulkWriteOperation<IPageComment>[] = [];
+  const threads = comments
+    .filter(comment => !comment.threadId)
+    .filter(thread => !status || (status === 'resolved') === !!thread.resolvedAt)
+    .map(thread => {
+      const { anchor, ...fields } = thread.toObject();
+      const range = anchor && locateAnchor(content, anchor);
+      if (anchor && range && range.start !== anchor.start) {
+        const relocated = createAnchor(content, { ...range, quote: anchor.quote });
+        moved.push({ updateOne: { filter: { _id: thread._id }, update: { anchor: relocated } } });
+      }
+      return {
+        ...fields,
+        anchor: anchor && { ...anchor, ...range, detached: !range },
+        replies: comments.filter(reply => String(reply.threadId) === String(thread._id)),
+      };
+    });
+
+  if (moved.length > 0) {
+    await PageComment.bulkWrite(moved, { timestamps: false });
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: threads,
+  });
+});
+
+export const createPageComment = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const { body, parentId, anchor: selection } = req.body as CreatePageCommentBody;
+
+  const page = await findLivePage(workspaceId, pageId);
+  if (!page) {
+    return pageNotFound(res);
+  }
+
+  let threadId = null;
+  if (parentId) {
+    const parent = await PageComment.findOne({ _id: parentId, pageId });
+    if (!parent) {
+      return commentNotFound(res);
+    }
+    // Threads are one level deep: a reply to a reply joins the same thread
+    threadId = parent.threadId ?? parent._id;
+  }
+
+  const anchor = selection && createAnchor(page.content ?? '', selection);
+  if (selection && !anchor) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'The selected text is not part of the saved page',
+    });
+  }
+
+  const comment = await PageComment.create({
+    workspaceId,
+    pageId,
+    threadId,
+    body,
+    anchor: anchor ?? null,
+    author: req.user!.id,
+  });
+  await notifyCommentSaved(comment, req.user!.id);
+  await populateUsers(comment);
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: comment,
+  });
+});
+
+export const updatePageComment = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId, commentId } = req.params;
+
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+  const comment = await PageComment.findOne({ _id: commentId, pageId });
+  if (!comment) {
+    return commentNotFound(res);
+  }
+  if (String(comment.author) !== req.user!.id) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: 'Only the author can edit a comment',
+    });
+  }
+
+  const previousBody = comment.body;
+  comment.body = req.body.body;
+  comment.editedAt = new Date();
+  await comment.save();
+  await notifyCommentSaved(comment, req.user!.id, previousBody);
+  await populateUsers(comment);
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: comment,
+  });
+});
+
+/**
+ * Deleting the first comment of a thread deletes the whole thread
+ */
+export const deletePageComment = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId, commentId } = req.params;
+
+  if (!(await findLivePage(workspaceId, pageId))) {
+    return pageNotFound(res);
+  }
+  const comment = await PageComment.findOne({ _id: commentId, pageId });
+  if (!comment) {
+    return commentNotFound(res);
+  }
+  if (!canModerate(req, comment)) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: 'Only the author or an editor can delete a comment',
+    });
+  }
+
+  await PageComment.deleteMany({ $or: [{ _id: comment._id }, { threadId: comment._id }] });
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    message: comment.threadId ? 'Comment deleted' : 'Thread deleted',
+  });
+});
+
+const setResolved = (resolved: boolean) =>
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id: workspaceId, pageId, commentId } = req.params;
+
+    if (!(await findLivePage(workspaceId, pageId))) {
+      return pageNotFound(res);
+    }
+    const thread = await PageComment.findOne({ _id: commentId, pageId });
+    if (!thread) {
+      return commentNotFound(res);
+    }
+    if (thread.threadId) {
+      return res.status(StatusCodes.BAD_REQUEST).json({
+        success: false,
+        message: 'Only threads can be resolved, not replies',
+      });
+    }
+    if (!canModerate(req, thread)) {
+      return res.status(StatusCodes.FORBIDDEN).json({
+        success: false,
+        message: 'Only the author or an editor can resolve a thread',
+      });
+    }
+
+    thread.resolvedAt = resolved ? new Date() : null;
+    thread.resolvedBy = resolved ? req.membership!.userId : null;
+    await thread.save();
+    await populateUsers(thread);
+
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      data: thread,
+    });
+  });
+
+export const resolvePageComment = setResolved(true);
+
+export const reopenPageComment = setResolved(false);
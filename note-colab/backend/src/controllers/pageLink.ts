@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import {
+  findBacklinks,
+  findBrokenLinks,
+  linkKey,
+  parseWikiLinks,
+  resolveLinkTitles,
+} from '@/utils/pageLinks';
+
+const findLivePage = (workspaceId: string, pageId: string) =>
+  Page.findOne({ _id: pageId, workspaceId, status: { $ne: CommonStatus.DELETED } });
+
+const pageNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Page not found',
+  });
+
+/**
+ * The live pages whose content links to this page, by title
+ */
+export const getPageBacklinks = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+
+  const page = await findLivePage(workspaceId, pageId);
+  if (!page) {
+    return pageNotFound(res);
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: await findBacklinks(page),
+  });
+});
+
+/**
+ * The links in the page's content, in order of appearance, each with the page it
+ * leads to; `page` is null for a broken link
+ */
+export const getPageLinks = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+
+  const page = await findLivePage(workspaceId, pageId);
+  if (!page) {
+    return pageNotFound(res);
+  }
+
+  const links = parseWikiLinks(page.content ?? '').filter(
+    (link, index, all) =>
+      all.findIndex(other => linkKey(other.title) === linkKey(link.title)) === index
+  );
+  const targets = await resolveLinkTitles(
+    workspaceId,
+    links.map(link => link.title)
+  );
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: links.map(link => ({
+      title: link.title,
+      page: targets.get(linkKey(link.title)) ?? null,
+    })),
+  });
+});
+
+/**
+ * Every live page of the workspace with links that lead nowhere, and those links' titles
+ */
+export const getBrokenLinks = asyncHandler(async (req: Request, res: Response) => {
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: await findBrokenLinks(req.params.id),
+  });
+});
@@ -0,0 +1,161 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import { PageRevision } from '@/models/pageRevisions';
+import { recordPageRevision } from '@/utils/recordPageRevision';
+import { emitPageEvent } from '@/realtime/pageEvents';
+import { syncPageDocument } from '@/realtime/collabDocuments';
+import { notifyPageSaved } from '@/utils/notifications';
+import { indexPageLinks } from '@/utils/pageLinks';
+import { toPageResponse } from '@/utils/pageResponse';
+import { relinkOwnContent, relinkRenamedPage, renameSource } from '@/utils/pageRename';
+import { AuditAction } from '@/models/auditEvents';
+import { pageAudit, recordAudit, requestActor } from '@/utils/audit';
+
+export const getPageRevisions = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const page = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  });
+
+  if (!page) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found',
+    });
+    return;
+  }
+
+  const revisions = await PageRevision.find({ pageId })
+    .select('version title format author restoredFrom createdAt')
+    .sort({ version: -1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: revisions,
+  });
+});
+
+export const getPageRevision = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId, version } = req.params;
+  const revision = await PageRevision.findOne({ pageId, workspaceId, version: Number(version) });
+
+  if (!revision) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Revision not found',
+    });
+    return;
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: revision,
+  });
+});
+
+export const restorePageRevision = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId, version } = req.params;
+  const page = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  });
+
+  if (!page) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found',
+    });
+    return;
+  }
+
+  const revision = await PageRevision.findOne({ pageId, version: Number(version) });
+  if (!revision) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Revision not found',
+    });
+    return;
+  }
+
+  // Restoring is an edit like any other, so it honours the optimistic lock when a version is sent
+  const expectedVersion = req.body.__v ?? page.__v;
+  if (page.__v !== expectedVersion) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'Page version mismatch',
+      serverVersion: page.__v,
+      clientVersion: expectedVersion,
+      serverTitle: page.title,
+      serverContent: page.content,
+      clientContent: revision.content,
+    });
+  }
+
+  // Restoring an older title is a rename: links to the current one follow it
+  const renamedFrom = await renameSource(page, revision.title);
+  const content = renamedFrom
+    ? relinkOwnContent(revision.content ?? '', renamedFrom, revision.title)
+    : revision.content;
+
+  await recordPageRevision(page);
+
+  const restored = await Page.findOneAndUpdate(
+    { _id: pageId, __v: expectedVersion },
+    {
+      $set: {
+        title: revision.title,
+        content,
+        // Older revisions did not keep the format; the page keeps its current one then
+        format: revision.format ?? page.format,
+        updatedBy: req.user!.id,
+      },
+      $inc: { __v: 1 },
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!restored) {
+    const latest = await Page.findById(pageId);
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'Page version mismatch',
+      serverVersion: latest?.__v,
+      clientVersion: expectedVersion,
+      serverTitle: latest?.title,
+      serverContent: latest?.content,
+      clientContent: revision.content,
+    });
+  }
+
+  await recordPageRevision(restored, {
+    author: req.user!.name,
+    restoredFrom: revision.version,
+  });
+  await indexPageLinks(restored);
+  await recordAudit(
+    requestActor(req),
+    pageAudit(AuditAction.UPDATED, { before: page, after: restored })
+  );
+  syncPageDocument(pageId, restored.content || '');
+  emitPageEvent(req, 'page.updated', restored);
+  if (renamedFrom) {
+    await relinkRenamedPage(req, restored, renamedFrom);
+  }
+  await notifyPageSaved({
+    workspaceId,
+    pageId,
+    actorId: req.user!.id,
+    before: page.content ?? '',
+    after: restored.content ?? '',
+  });
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: await toPageResponse(restored),
+  });
+});
@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { PageTemplate, TEMPLATE_NAME_COLLATION } from '@/models/pageTemplates';
+import { sanitizePageContent } from '@/utils/markdown';
+
+const nameTaken = (workspaceId: string, name: string, excludeId?: string) =>
+  PageTemplate.exists({
+    workspaceId,
+    name,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).collation(TEMPLATE_NAME_COLLATION);
+
+export const getPageTemplates = asyncHandler(async (req: Request, res: Response) => {
+  const templates = await PageTemplate.find({ workspaceId: req.params.id })
+    .collation(TEMPLATE_NAME_COLLATION)
+    .sort({ name: 1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: templates,
+  });
+});
+
+export const createPageTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { name, title, content, format } = req.body;
+
+  if (await nameTaken(workspaceId, name)) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'A template with this name already exists',
+    });
+  }
+
+  const template = await PageTemplate.create({
+    workspaceId,
+    name,
+    title,
+    content,
+    format,
+    createdBy: req.user!.id,
+  });
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: template,
+  });
+});
+
+export const updatePageTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, templateId } = req.params;
+  const { name, title, content, format } = req.body;
+
+  const template = await PageTemplate.findOne({ _id: templateId, workspaceId });
+  if (!template) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Template not found',
+    });
+  }
+
+  if (name !== undefined && (await nameTaken(workspaceId, name, templateId))) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'A template with this name already exists',
+    });
+  }
+
+  if (name !== undefined) template.name = name;
+  if (title !== undefined) template.title = title;
+  if (format !== undefined) template.format = format;
+  // Content is kept sanitized for the format it ends up with
+  if (content !== undefined || format !== undefined) {
+    template.content = sanitizePageContent(content ?? template.content, template.format);
+  }
+  await template.save();
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: template,
+  });
+});
+
+export const deletePageTemplate = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, templateId } = req.params;
+  const template = await PageTemplate.findOneAndDelete({ _id: templateId, workspaceId });
+
+  if (!template) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Template not found',
+    });
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Template deleted',
+  });
+});
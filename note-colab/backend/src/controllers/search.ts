@@ -0,0 +1,109 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import { Workspace } from '@/models/wrokspace';
+import { WorkspaceMember } from '@/models/workspaceMembers';
+import { MAX_SEARCH_OFFSET, SearchQuery } from '@/schemas/search';
+import { buildSnippet, getSearchTerms, highlight, HighlightedText } from '@/utils/highlight';
+import { decodeOffsetCursor, encodeOffsetCursor } from '@/utils/pagination';
+
+interface SearchResult {
+  type: 'page' | 'workspace';
+  score: number;
+  workspace: { _id: string; title: string };
+  page?: { _id: string; title: string };
+  title: HighlightedText;
+  snippet: HighlightedText;
+}
+
+const byTextScore = { score: { $meta: 'textScore' } } as const;
+
+/**
+ * Ranked full-text search over the pages and workspaces the caller can read.
+ * Both collections are queried with their text index and merged by score;
+ * `workspaceId` narrows the search to the pages of one workspace.
+ */
+export const search = asyncHandler(async (req: Request, res: Response) => {
+  const { q, workspaceId, limit, cursor } = req.query as unknown as SearchQuery;
+  const offset = cursor ? decodeOffsetCursor(cursor)! : 0;
+
+  const memberships = await WorkspaceMember.find({
+    userId: req.user!.id,
+    ...(workspaceId && { workspaceId }),
+  });
+  const workspaces = await Workspace.find({
+    _id: { $in: memberships.map(member => member.workspaceId) },
+    status: { $ne: CommonStatus.DELETED },
+  }).select('title');
+
+  if (workspaceId && workspaces.length === 0) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Workspace not found',
+    });
+    return;
+  }
+
+  const workspaceIds = workspaces.map(workspace => workspace._id);
+  const workspaceTitles = new Map(
+    workspaces.map(workspace => [String(workspace._id), workspace.title])
+  );
+  const terms = getSearchTerms(q);
+  // Every result up to the end of the requested page, plus one to know if there is more
+  const window = offset + limit + 1;
+
+  const [pages, matchingWorkspaces] = await Promise.all([
+    Page.find(
+      { $text: { $search: q }, workspaceId: { $in: workspaceIds }, status: CommonStatus.ACTIVE },
+      { ...byTextScore, title: 1, content: 1, workspaceId: 1 }
+    )
+      .sort(byTextScore)
+      .limit(window)
+      .lean<
+        { _id: unknown; title: string; content?: string; workspaceId: unknown; score: number }[]
+      >(),
+    workspaceId
+      ? []
+      : Workspace.find(
+          { $text: { $search: q }, _id: { $in: workspaceIds } },
+          { ...byTextScore, title: 1, description: 1 }
+        )
+          .sort(byTextScore)
+          .limit(window)
+          .lean<{ _id: unknown; title: string; description?: string; score: number }[]>(),
+  ]);
+
+  const results: SearchResult[] = [
+    ...pages.map(page => ({
+      type: 'page' as const,
+      score: page.score,
+      workspace: {
+        _id: String(page.workspaceId),
+        title: workspaceTitles.get(String(page.workspaceId)) ?? '',
+      },
+      page: { _id: String(page._id), title: page.title },
+      title: highlight(page.title, terms),
+      snippet: buildSnippet(page.content, terms),
+    })),
+    ...matchingWorkspaces.map(workspace => ({
+      type: 'workspace' as const,
+      score: workspace.score,
+      workspace: { _id: String(workspace._id), title: workspace.title },
+      title: highlight(workspace.title, terms),
+      snippet: buildSnippet(workspace.description, terms),
+    })),
+  ].sort((a, b) => b.score - a.score);
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: results.slice(offset, offset + limit),
+    pagination: {
+      limit,
+      nextCursor:
+        results.length > offset + limit && offset + limit <= MAX_SEARCH_OFFSET
+          ? encodeOffsetCursor(offset + limit)
+          : null,
+    },
+  });
+});
@@ -0,0 +1,231 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, IPage, Page, PageFormat } from '@/models/pages';
+import { ShareLink } from '@/models/shareLinks';
+import { Workspace } from '@/models/wrokspace';
+import { sanitizeString } from '@/utils/sanitize';
+import { renderMarkdown, sanitizePageContent } from '@/utils/markdown';
+import { paginate } from '@/utils/pagination';
+import { GetSharedPagesQuery } from '@/schemas/shareLinks';
+
+const toSharedPage = (page: IPage) => ({
+  _id: page._id,
+  title: sanitizeString(page.title),
+  content: sanitizePageContent(page.content ?? '', page.format),
+  format: page.format,
+  ...(page.format === PageFormat.MARKDOWN && { html: renderMarkdown(page.content) }),
+  updatedAt: page.updatedAt,
+});
+
+export const getShareLinks = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { pageId } = req.query;
+
+  const filter: Record<string, unknown> = {
+    workspaceId,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+  };
+  // A page's dialog also lists the workspace-wide links that expose it
+  if (pageId) {
+    filter.pageId = { $in: [pageId, null] };
+  }
+  const links = await ShareLink.find(filter).sort({ createdAt: -1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: links,
+  });
+});
+
+export const createShareLink = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { pageId, expiresAt } = req.body;
+
+  if (pageId) {
+    const page = await Page.exists({
+      _id: pageId,
+      workspaceId,
+      status: { $ne: CommonStatus.DELETED },
+    });
+    if (!page) {
+      return res.status(StatusCodes.NOT_FOUND).json({
+        success: false,
+        message: 'Page not found',
+      });
+    }
+  }
+
+  const link = await ShareLink.create({
+    workspaceId,
+    pageId: pageId ?? null,
+    expiresAt: expiresAt ? new Date(expiresAt) : null,
+    createdBy: req.user!.id,
+  });
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: link,
+  });
+});
+
+export const revokeShareLink = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, shareId } = req.params;
+  const link = await ShareLink.findOneAndDelete({ _id: shareId, workspaceId });
+
+  if (!link) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Share link not found',
+    });
+    return;
+  }
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Share link revoked successfully',
+  });
+});
+
+const linkNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'This link is invalid, expired or has been revoked',
+  });
+
+/**
+ * The link behind a share token and its workspace, or null when the link is gone,
+ * expired or its workspace is in the trash
+ */
+const findShared = async (token: string) => {
+  const link = await ShareLink.findOne({ token });
+
+  // The TTL monitor only runs once a minute, so check the expiry here as well
+  const expired = link?.expiresAt && link.expiresAt.getTime() <= Date.now();
+  const workspace =
+    link && !expired
+      ? await Workspace.findOne({
+          _id: link.workspaceId,
+          status: { $ne: CommonStatus.DELETED },
+        })
+      : null;
+  return link && workspace ? { link, workspace } : null;
+};
+
+/**
+ * Public, read-only view of whatever a share token points at. Only titles and
+ * sanitized content leave the server; authors and other metadata stay private.
+ * A shared workspace comes without its pages, which are listed and read through
+ * `getSharedPages` and `getSharedPage`.
+ */
+export const getSharedContent = asyncHandler(async (req: Request, res: Response) => {
+  const shared = await findShared(req.params.token);
+  if (!shared) {
+    return linkNotFound(res);
+  }
+  const { link, workspace } = shared;
+
+  const sharedWorkspace = {
+    title: sanitizeString(workspace.title),
+    description: sanitizeString(workspace.description),
+  };
+
+  if (link.pageId) {
+    const page = await Page.findOne({
+      _id: link.pageId,
+      workspaceId: link.workspaceId,
+      status: CommonStatus.ACTIVE,
+    });
+    if (!page) {
+      return linkNotFound(res);
+    }
+
+    return res.status(StatusCodes.OK).json({
+      success: true,
+      data: {
+        type: 'page',
+        workspace: sharedWorkspace,
+        page: toSharedPage(page),
+        expiresAt: link.expiresAt,
+      },
+    });
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      type: 'workspace',
+      workspace: sharedWorkspace,
+      expiresAt: link.expiresAt,
+    },
+  });
+});
+
+/**
+ * One level of a shared workspace's pages in their manual order, without content.
+ * `hasChildren` tells which pages have a level of their own to list.
+ */
+export const getSharedPages = asyncHandler(async (req: Request, res: Response) => {
+  const shared = await findShared(req.params.token);
+  // A page link shares that page only
+  if (!shared || shared.link.pageId) {
+    return linkNotFound(res);
+  }
+
+  const { parentId, ...pagination } = req.query as unknown as GetSharedPagesQuery;
+  const { workspaceId } = shared.link;
+  const { items, nextCursor } = await paginate(
+    Page,
+    {
+      workspaceId,
+      status: CommonStatus.ACTIVE,
+      parentId: parentId === 'root' ? null : parentId,
+    },
+    { ...pagination, sort: 'position' },
+    'title format parentId position updatedAt'
+  );
+  const parents = new Set(
+    (
+      await Page.distinct('parentId', {
+        workspaceId,
+        status: CommonStatus.ACTIVE,
+        parentId: { $in: items.map(page => page._id) },
+      })
+    ).map(String)
+  );
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: items.map(page => ({
+      _id: page._id,
+      title: sanitizeString(page.title),
+      format: page.format,
+      hasChildren: parents.has(String(page._id)),
+      updatedAt: page.updatedAt,
+    })),
+    pagination: { limit: pagination.limit, nextCursor },
+  });
+});
+
+/**
+ * A single page of a shared workspace, with its content
+ */
+export const getSharedPage = asyncHandler(async (req: Request, res: Response) => {
+  const shared = await findShared(req.params.token);
+  const page =
+    shared && !shared.link.pageId
+      ? await Page.findOne({
+          _id: req.params.pageId,
+          workspaceId: shared.link.workspaceId,
+          status: CommonStatus.ACTIVE,
+        })
+      : null;
+  if (!page) {
+    return linkNotFound(res);
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: toSharedPage(page),
+  });
+});
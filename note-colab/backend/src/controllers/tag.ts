@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { Page } from '@/models/pages';
+import { Tag, TAG_NAME_COLLATION } from '@/models/tags';
+
+const nameTaken = (workspaceId: string, name: string, excludeId?: string) =>
+  Tag.exists({ workspaceId, name, ...(excludeId && { _id: { $ne: excludeId } }) }).collation(
+    TAG_NAME_COLLATION
+  );
+
+export const getTags = asyncHandler(async (req: Request, res: Response) => {
+  const tags = await Tag.find({ workspaceId: req.params.id })
+    .collation(TAG_NAME_COLLATION)
+    .sort({ name: 1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: tags,
+  });
+});
+
+export const createTag = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { name, color } = req.body;
+
+  if (await nameTaken(workspaceId, name)) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'A tag with this name already exists',
+    });
+  }
+
+  const tag = await Tag.create({ workspaceId, name, color, createdBy: req.user!.id });
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: tag,
+  });
+});
+
+export const updateTag = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, tagId } = req.params;
+  const { name, color } = req.body;
+
+  if (name !== undefined && (await nameTaken(workspaceId, name, tagId))) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'A tag with this name already exists',
+    });
+  }
+
+  const tag = await Tag.findOneAndUpdate(
+    { _id: tagId, workspaceId },
+    { $set: { ...(name !== undefined && { name }), ...(color !== undefined && { color }) } },
+    { new: true, runValidators: true }
+  );
+
+  if (!tag) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Tag not found',
+    });
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: tag,
+  });
+});
+
+export const deleteTag = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, tagId } = req.params;
+  const tag = await Tag.findOneAndDelete({ _id: tagId, workspaceId });
+
+  if (!tag) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Tag not found',
+    });
+  }
+
+  // Pages in the trash lose the tag as well, so a restore never brings back a dangling ID
+  await Page.updateMany({ workspaceId, tags: tag._id }, { $pull: { tags: tag._id } });
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Tag deleted',
+  });
+});
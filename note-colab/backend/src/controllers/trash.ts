@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { env } from '@/config/env';
+import { CommonStatus, Page } from '@/models/pages';
+import { Workspace } from '@/models/wrokspace';
+import { WorkspaceMember, WorkspaceRole } from '@/models/workspaceMembers';
+import { emitPageEvent } from '@/realtime/pageEvents';
+import { positionAtEnd } from '@/utils/pageOrder';
+import { getDescendantIds } from '@/utils/pageTree';
+import { purgePage, purgeWorkspace, restoreFields } from '@/utils/trash';
+import { AuditAction } from '@/models/auditEvents';
+import { pageAudit, recordAudit, requestActor, workspaceAudit } from '@/utils/audit';
+
+/**
+ * Everything the caller may restore: trashed workspaces they own, and trashed
+ * pages of live workspaces they can edit
+ */
+export const getTrash = asyncHandler(async (req: Request, res: Response) => {
+  const memberships = await WorkspaceMember.find({
+    userId: req.user!.id,
+    role: { $in: [WorkspaceRole.OWNER, WorkspaceRole.EDITOR] },
+  });
+  const ownedIds = memberships
+    .filter(member => member.role === WorkspaceRole.OWNER)
+    .map(member => member.workspaceId);
+
+  const workspaces = await Workspace.find({
+    _id: { $in: ownedIds },
+    status: CommonStatus.DELETED,
+  }).sort({ deletedAt: -1 });
+
+  const liveWorkspaceIds = await Workspace.find({
+    _id: { $in: memberships.map(member => member.workspaceId) },
+    status: { $ne: CommonStatus.DELETED },
+  }).distinct('_id');
+  const pages = await Page.find({
+    workspaceId: { $in: liveWorkspaceIds },
+    status: CommonStatus.DELETED,
+  })
+    .populate('workspaceId', 'title')
+    .sort({ deletedAt: -1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      workspaces: workspaces.map(workspace => ({
+        ...workspace.toObject(),
+        role: WorkspaceRole.OWNER,
+      })),
+      pages,
+      retentionDays: env.TRASH_RETENTION_DAYS,
+    },
+  });
+});
+
+export const restoreWorkspace = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const workspace = await Workspace.findOneAndUpdate(
+    { _id: id, status: CommonStatus.DELETED },
+    { $set: restoreFields(req.user!.id) },
+    { new: true }
+  );
+
+  if (!workspace) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Workspace not found in trash',
+    });
+    return;
+  }
+  await recordAudit(requestActor(req), workspaceAudit(AuditAction.RESTORED, { after: workspace }));
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: { ...workspace.toObject(), role: req.membership!.role },
+  });
+});
+
+export const deleteWorkspacePermanently = asyncHandler(async (req: Request, res: Response) => {
+  await purgeWorkspace(req.params.id, requestActor(req));
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Workspace permanently deleted',
+  });
+});
+
+export const restorePage = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const trashed = await Page.findOne({ _id: pageId, workspaceId, status: CommonStatus.DELETED });
+
+  if (!trashed) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found in trash',
+    });
+    return;
+  }
+
+  // A parent that is still in the trash cannot hold the page, so it returns at the top level
+  const parentIsLive =
+    !!trashed.parentId &&
+    !!(await Page.exists({ _id: trashed.parentId, status: { $ne: CommonStatus.DELETED } }));
+  const parentId = parentIsLive ? trashed.parentId : null;
+  // Its old place may have been taken meanwhile
+  const positionTaken = await Page.exists({
+    workspaceId,
+    parentId,
+    position: trashed.position,
+    status: { $ne: CommonStatus.DELETED },
+  });
+  const page = await Page.findOneAndUpdate(
+    { _id: pageId, status: CommonStatus.DELETED },
+    {
+      $set: {
+        ...restoreFields(req.user!.id),
+        parentId,
+        ...((!parentIsLive || positionTaken || !trashed.position) && {
+          position: await positionAtEnd(workspaceId, parentId),
+        }),
+      },
+    },
+    { new: true }
+  );
+
+  if (!page) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found in trash',
+    });
+    return;
+  }
+
+  // Subpages trashed together with the page (same deletedAt) come back with it
+  const subpageIds = await getDescendantIds(pageId, {
+    status: CommonStatus.DELETED,
+    deletedAt: trashed.deletedAt,
+  });
+  await Page.updateMany({ _id: { $in: subpageIds } }, { $set: restoreFields(req.user!.id) });
+  const subpages = await Page.find({ _id: { $in: subpageIds } });
+  await recordAudit(
+    requestActor(req),
+    [page, ...subpages].map(restored => pageAudit(AuditAction.RESTORED, { after: restored }))
+  );
+
+  // To everyone else in the room the pages simply reappear
+  [page, ...subpages].forEach(restored => emitPageEvent(req, 'page.created', restored));
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: page,
+  });
+});
+
+export const deletePagePermanently = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, pageId } = req.params;
+  const page = await Page.exists({ _id: pageId, workspaceId, status: CommonStatus.DELETED });
+
+  if (!page) {
+    res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Page not found in trash',
+    });
+    return;
+  }
+
+  await purgePage(pageId, requestActor(req));
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Page permanently deleted',
+  });
+});
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { IWebhook, Webhook } from '@/models/webhooks';
+import { WebhookDelivery } from '@/models/webhookDeliveries';
+import { paginate } from '@/utils/pagination';
+import { redeliver } from '@/utils/webhooks';
+import { GetDeliveriesQuery } from '@/schemas/webhooks';
+
+const webhookNotFound = (res: Response) =>
+  res.status(StatusCodes.NOT_FOUND).json({
+    success: false,
+    message: 'Webhook not found',
+  });
+
+// The secret is only shown when it was just set
+const withSecret = (webhook: IWebhook, secret: string) => ({ ...webhook.toObject(), secret });
+
+export const getWebhooks = asyncHandler(async (req: Request, res: Response) => {
+  const webhooks = await Webhook.find({ workspaceId: req.params.id }).sort({ createdAt: 1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: webhooks,
+  });
+});
+
+/**
+ * Subscribes `url` to the workspace's events. The answer carries the secret
+ * that signs the deliveries; it is not shown again.
+ */
+export const createWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const { url, events, secret } = req.body as { url: string; events: string[]; secret?: string };
+  const webhook = await Webhook.create({
+    workspaceId: req.params.id,
+    url,
+    events,
+    secret,
+    createdBy: req.user!.id,
+  });
+
+  res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: withSecret(webhook, webhook.secret),
+  });
+});
+
+/**
+ * Changes the URL, the events or the secret, or pauses (`active: false`) and
+ * resumes the webhook. Retries of earlier deliveries use the new settings.
+ */
+export const updateWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, webhookId } = req.params;
+  const webhook = await Webhook.findOneAndUpdate(
+    { _id: webhookId, workspaceId },
+    { $set: req.body },
+    { new: true, runValidators: true }
+  );
+
+  if (!webhook) {
+    return webhookNotFound(res);
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: req.body.secret ? withSecret(webhook, req.body.secret) : webhook,
+  });
+});
+
+export const deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, webhookId } = req.params;
+  const webhook = await Webhook.findOneAndDelete({ _id: webhookId, workspaceId });
+
+  if (!webhook) {
+    return webhookNotFound(res);
+  }
+  // Deliveries still being retried stop at their next attempt
+  await WebhookDelivery.deleteMany({ webhookId });
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Webhook deleted',
+  });
+});
+
+/**
+ * The webhook's delivery log, newest first, with every attempt of each delivery
+ */
+export const getDeliveries = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, webhookId } = req.params;
+  const { status, ...pagination } = req.query as unknown as GetDeliveriesQuery;
+
+  if (!(await Webhook.exists({ _id: webhookId, workspaceId }))) {
+    return webhookNotFound(res);
+  }
+
+  const { items, nextCursor } = await paginate(
+    WebhookDelivery,
+    { webhookId, ...(status && { status }) },
+    { ...pagination, sort: '-createdAt' }
+  );
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: items,
+    pagination: { limit: pagination.limit, nextCursor },
+  });
+});
+
+/**
+ * Sends a logged delivery again, as a new delivery with the same payload.
+ * Answers `202` with it; how it went shows in the log.
+ */
+export const redeliverDelivery = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, webhookId, deliveryId } = req.params;
+
+  if (!(await Webhook.exists({ _id: webhookId, workspaceId }))) {
+    return webhookNotFound(res);
+  }
+  const original = await WebhookDelivery.findOne({ _id: deliveryId, webhookId });
+  if (!original) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Delivery not found',
+    });
+  }
+
+  return res.status(StatusCodes.ACCEPTED).json({
+    success: true,
+    data: await redeliver(original),
+  });
+});
@@ -1,14 +1,35 @@
 import { Request, Response } from 'express';
 import { StatusCodes } from 'http-status-codes';
-import { Workspace } from '../models/wrokspace';
+import { CommonStatus, Workspace } from '../models/wrokspace';
+import { WorkspaceMember, WorkspaceRole } from '../models/workspaceMembers';
 import { asyncHandler } from '../utils/asyncHandler';
 import { retryMongoOperation } from '@/utils/retryMongoOperation';
+import { closeWorkspaceSessions, trashFields } from '@/utils/trash';
+import { paginate } from '@/utils/pagination';
+import { recordAudit, requestActor, workspaceAudit } from '@/utils/audit';
+import { AuditAction } from '@/models/auditEvents';
+import { GetWorkspacesQuery } from '@/schemas/workspace';
 
-export const getWorkspaces = asyncHandler(async (_req: Request, res: Response) => {
-  const workspaces = await Workspace.find().sort({ createdAt: -1 });
+export const getWorkspaces = asyncHandler(async (req: Request, res: Response) => {
+  // Only workspaces the caller is a member of, each with the caller's role
+  const { status, ...pagination } = req.query as unknown as GetWorkspacesQuery;
+  const memberships = await WorkspaceMember.find({ userId: req.user!.id });
+  const roles = new Map(memberships.map(member => [String(member.workspaceId), member.role]));
+  const { items, nextCursor } = await paginate(
+    Workspace,
+    {
+      _id: { $in: [...roles.keys()] },
+      status: status ?? { $ne: CommonStatus.DELETED },
+    },
+    pagination
+  );
   res.status(StatusCodes.OK).json({
     success: true,
-    data: workspaces,
+    data: items.map(workspace => ({
+      ...workspace.toObject(),
+      role: roles.get(String(workspace._id)),
+    })),
+    pagination: { limit: pagination.limit, nextCursor },
   });
 });
 
@@ -26,7 +47,7 @@ export const getWorkspaceById = asyncHandler(async (req: Request, res: Response)
 
   res.status(StatusCodes.OK).json({
     success: true,
-    data: workspace,
+    data: { ...workspace.toObject(), role: req.membership!.role },
   });
 });
 
@@ -41,17 +62,23 @@ export const createWorkspace2 = asyncHandler(async (req: Request, res: Response)
 export const createWorkspace = asyncHandler(async (req: Request, res: Response) => {
   try {
     const workspace = await retryMongoOperation(
-      () => Workspace.create(req.body),
+      () => Workspace.create({ ...req.body, createdBy: req.user!.id, updatedBy: req.user!.id }),
       {
         maxRetries: 3,
         initialDelay: 1000,
         maxDelay: 10000,
       }
     );
+    await WorkspaceMember.create({
+      workspaceId: workspace._id,
+      userId: req.user!.id,
+      role: WorkspaceRole.OWNER,
+    });
+    await recordAudit(requestActor(req), workspaceAudit(AuditAction.CREATED, { after: workspace }));
 
     return res.status(StatusCodes.CREATED).json({
       success: true,
-      data: workspace,
+      data: { ...workspace.toObject(), role: WorkspaceRole.OWNER },
     });
   } catch (error: any) {
     // MongoDB connection errors after retries
@@ -81,10 +108,17 @@ export const createWorkspace = asyncHandler(async (req: Request, res: Response)
 
 export const updateWorkspace = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const workspace = await Workspace.findByIdAndUpdate(id, req.body, {
-    new: true,
-    runValidators: true,
-  });
+  const previous = await Workspace.findById(id);
+  const workspace =
+    previous &&
+    (await Workspace.findByIdAndUpdate(
+      id,
+      { ...req.body, updatedBy: req.user!.id },
+      {
+        new: true,
+        runValidators: true,
+      }
+    ));
 
   if (!workspace) {
     res.status(StatusCodes.NOT_FOUND).json({
@@ -93,16 +127,25 @@ export const updateWorkspace = asyncHandler(async (req: Request, res: Response)
     });
     return;
   }
+  await recordAudit(
+    requestActor(req),
+    workspaceAudit(AuditAction.UPDATED, { before: previous, after: workspace })
+  );
 
   res.status(StatusCodes.OK).json({
     success: true,
-    data: workspace,
+    data: { ...workspace.toObject(), role: req.membership!.role },
   });
 });
 
 export const deleteWorkspace = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const workspace = await Workspace.findByIdAndDelete(id);
+  // Moves the workspace to the trash; its pages stay untouched until it is purged
+  const workspace = await Workspace.findByIdAndUpdate(
+    id,
+    { $set: trashFields(req.user!.id) },
+    { new: true }
+  );
 
   if (!workspace) {
     res.status(StatusCodes.NOT_FOUND).json({
@@ -111,10 +154,12 @@ export const deleteWorkspace = asyncHandler(async (req: Request, res: Response)
     });
     return;
   }
+  closeWorkspaceSessions(id);
+  await recordAudit(requestActor(req), workspaceAudit(AuditAction.DELETED, { after: workspace }));
 
   res.status(StatusCodes.OK).json({
     success: true,
-    message: 'Workspace deleted successfully',
+    message: 'Workspace moved to trash',
   });
 });
 
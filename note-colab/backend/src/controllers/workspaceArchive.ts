@@ -0,0 +1,209 @@
+import { once } from 'events';
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import mongoose from 'mongoose';
+import archiver from 'archiver';
+import { asyncHandler } from '../utils/asyncHandler';
+import { CommonStatus, Page } from '@/models/pages';
+import { Tag } from '@/models/tags';
+import { Workspace } from '@/models/wrokspace';
+import { buildPageTree } from '@/utils/pageTree';
+import { POSITION_SORT, positionAtEnd } from '@/utils/pageOrder';
+import { recordPageRevision } from '@/utils/recordPageRevision';
+import { sanitizePageContent } from '@/utils/markdown';
+import { sanitizeString } from '@/utils/sanitize';
+import { indexPageLinks } from '@/utils/pageLinks';
+import { AuditAction } from '@/models/auditEvents';
+import { AuditEntry, pageAudit, recordAudit, requestActor } from '@/utils/audit';
+import { emitPageEvent } from '@/realtime/pageEvents';
+import {
+  ARCHIVE_VERSION,
+  buildPagePaths,
+  FILE_EXTENSIONS,
+  MANIFEST_FILE,
+  serializePage,
+  toFileName,
+} from '@/utils/workspaceArchive';
+import {
+  ImportReportEntry,
+  parentOf,
+  planImport,
+  readUploadedFiles,
+} from '@/utils/workspaceImport';
+import { ExportWorkspaceQuery } from '@/schemas/workspaceArchive';
+
+/**
+ * Streams a ZIP of the workspace: a manifest and one file per live page.
+ * Only the outline (titles and parents) is held in memory; page contents are
+ * read from a cursor and each one is written before the next is fetched.
+ */
+export const exportWorkspace = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { format } = req.query as unknown as ExportWorkspaceQuery;
+  const filter = { workspaceId, status: { $ne: CommonStatus.DELETED } };
+
+  const [workspace, outline, tags] = await Promise.all([
+    Workspace.findById(workspaceId),
+    Page.find(filter).select('title parentId').sort(POSITION_SORT).lean(),
+    Tag.find({ workspaceId }).lean(),
+  ]);
+  const paths = buildPagePaths(buildPageTree(outline));
+  const tagNames = new Map(tags.map(tag => [String(tag._id), tag.name]));
+  const extension = FILE_EXTENSIONS[format];
+
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  const cursor = Page.find(filter).sort(POSITION_SORT).cursor();
+  // Stops reading pages when the client goes away mid-download
+  const download = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      download.abort();
+      archive.abort();
+    }
+  });
+  archive.on('error', error => res.destroy(error));
+
+  const append = async (data: string, name: string, date?: Date) => {
+    const written = once(archive, 'entry', { signal: download.signal });
+    archive.append(data, { name, date });
+    await written;
+  };
+
+  res.attachment(`${toFileName(workspace!.title)}.zip`);
+  archive.pipe(res);
+
+  try {
+    await append(
+      JSON.stringify(
+        {
+          archiveVersion: ARCHIVE_VERSION,
+          format,
+          exportedAt: new Date(),
+          workspace: {
+            id: workspaceId,
+            title: workspace!.title,
+            description: workspace!.description,
+            createdAt: workspace!.createdAt,
+            updatedAt: workspace!.updatedAt,
+          },
+          tags: tags.map(tag => ({ name: tag.name, color: tag.color })),
+          pages: outline.map(page => ({
+            id: String(page._id),
+            title: page.title,
+            parentId: page.parentId ? String(page.parentId) : null,
+            path: `${paths.get(String(page._id))}${extension}`,
+          })),
+        },
+        null,
+        2
+      ),
+      MANIFEST_FILE
+    );
+
+    for await (const page of cursor) {
+      const path = paths.get(String(page._id));
+      // Created after the outline was read; not part of this snapshot
+      if (!path) continue;
+      await append(serializePage(page, format, tagNames), `${path}${extension}`, page.updatedAt);
+    }
+
+    await archive.finalize();
+  } catch (error) {
+    // The response has started: all that is left is to cut the download short
+    if (!download.signal.aborted) {
+      console.log('Workspace export failed>>', error);
+      res.destroy(error as Error);
+    }
+  } finally {
+    await cursor.close();
+  }
+});
+
+const describeFailure = (error: unknown) => {
+  if (error instanceof mongoose.Error.ValidationError) {
+    return Object.values(error.errors)
+      .map(fieldError => fieldError.message)
+      .join(', ');
+  }
+  console.log('Import page failed>>', error);
+  return 'Page could not be created';
+};
+
+/**
+ * Creates a page for every `.md`/`.txt` file uploaded, directly or in ZIPs,
+ * and answers with a report per file. Pages are appended after the existing
+ * top-level pages. A retry with the same X-Request-ID gets the first report
+ * back instead of importing again (idempotency middleware).
+ */
+export const importWorkspace = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const uploads = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+  if (uploads.length === 0) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'No files uploaded',
+    });
+  }
+
+  let plan: ReturnType<typeof planImport>;
+  try {
+    plan = planImport(await readUploadedFiles(uploads));
+  } catch (error) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: (error as Error).message,
+    });
+  }
+
+  const pageIds = new Map<string, mongoose.Types.ObjectId>();
+  const results: ImportReportEntry[] = [];
+  const audit: AuditEntry[] = [];
+
+  for (const node of plan.nodes) {
+    // Below a folder whose page failed, pages go under the nearest ancestor that made it
+    let parentKey = node.parentKey;
+    while (parentKey && !pageIds.has(parentKey)) {
+      parentKey = parentOf(parentKey);
+    }
+    const parentId = parentKey ? pageIds.get(parentKey)! : null;
+    const title = sanitizeString(node.title).slice(0, 100) || 'Untitled';
+
+    try {
+      const page = await Page.create({
+        title,
+        content: sanitizePageContent(node.content, node.format),
+        format: node.format,
+        workspaceId,
+        parentId,
+        position: await positionAtEnd(workspaceId, parentId),
+        createdBy: req.user!.id,
+        updatedBy: req.user!.id,
+      });
+      pageIds.set(node.key, page._id as mongoose.Types.ObjectId);
+      await recordPageRevision(page, { author: req.user!.name });
+      await indexPageLinks(page);
+      audit.push(pageAudit(AuditAction.CREATED, { after: page }));
+      emitPageEvent(req, 'page.created', page);
+      results.push({ file: node.source, status: 'created', pageId: String(page._id), title });
+    } catch (error) {
+      results.push({ file: node.source, status: 'failed', title, message: describeFailure(error) });
+    }
+  }
+
+  await recordAudit(requestActor(req), audit);
+
+  const files = [...results, ...plan.report];
+  const count = (status: ImportReportEntry['status']) =>
+    files.filter(file => file.status === status).length;
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: {
+      created: count('created'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      files,
+    },
+  });
+});
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { Workspace } from '@/models/wrokspace';
+import { WorkspaceCloneJob } from '@/models/workspaceCloneJobs';
+import { startWorkspaceClone } from '@/utils/workspaceClone';
+import { requestActor } from '@/utils/audit';
+
+/**
+ * Starts cloning the workspace into a new one owned by the caller and answers
+ * `202` with the job; its progress is read from `getCloneJob`.
+ */
+export const cloneWorkspace = asyncHandler(async (req: Request, res: Response) => {
+  const source = await Workspace.findById(req.params.id);
+  if (!source) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Workspace not found',
+    });
+  }
+
+  const job = await startWorkspaceClone(source, {
+    title: req.body.title ?? `${source.title} (copy)`.slice(0, 100),
+    description: req.body.description ?? source.description,
+    userId: req.user!.id,
+    author: req.user!.name,
+    actor: requestActor(req),
+  });
+
+  return res.status(StatusCodes.ACCEPTED).json({
+    success: true,
+    data: job,
+  });
+});
+
+/**
+ * A clone job of this workspace started by the caller
+ */
+export const getCloneJob = asyncHandler(async (req: Request, res: Response) => {
+  const job = await WorkspaceCloneJob.findOne({
+    _id: req.params.jobId,
+    sourceWorkspaceId: req.params.id,
+    createdBy: req.user!.id,
+  });
+
+  if (!job) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Clone job not found',
+    });
+  }
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: job,
+  });
+});
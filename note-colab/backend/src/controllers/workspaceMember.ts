@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { asyncHandler } from '../utils/asyncHandler';
+import { User } from '@/models/users';
+import { WorkspaceMember, WorkspaceRole } from '@/models/workspaceMembers';
+import { reauthorizeWorkspaceSockets } from '@/realtime/socketServer';
+
+const MEMBER_USER_FIELDS = 'name email';
+
+/**
+ * A workspace must always keep at least one owner
+ */
+const isLastOwner = async (workspaceId: string, userId: string): Promise<boolean> => {
+  const owners = await WorkspaceMember.find({ workspaceId, role: WorkspaceRole.OWNER });
+  return owners.length === 1 && String(owners[0].userId) === userId;
+};
+
+/**
+ * Sockets opened under the old membership must not outlive it. The change is saved
+ * already, so a failure is only logged.
+ */
+const closeRevokedSockets = async (workspaceId: string, userId: string) => {
+  try {
+    await reauthorizeWorkspaceSockets(workspaceId, userId);
+  } catch (error) {
+    console.error('Closing revoked sockets failed:', error);
+  }
+};
+
+export const getMembers = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const members = await WorkspaceMember.find({ workspaceId })
+    .populate('userId', MEMBER_USER_FIELDS)
+    .sort({ createdAt: 1 });
+
+  res.status(StatusCodes.OK).json({
+    success: true,
+    data: members,
+  });
+});
+
+export const addMember = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId } = req.params;
+  const { email, role } = req.body;
+
+  const user = await User.findOne({ email });
+  if (!user) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'No account exists for this email',
+    });
+  }
+
+  const existing = await WorkspaceMember.findOne({ workspaceId, userId: user._id });
+  if (existing) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'User is already a member of this workspace',
+    });
+  }
+
+  const member = await WorkspaceMember.create({
+    workspaceId,
+    userId: user._id,
+    role,
+    invitedBy: req.user!.id,
+  });
+  await member.populate('userId', MEMBER_USER_FIELDS);
+
+  return res.status(StatusCodes.CREATED).json({
+    success: true,
+    data: member,
+  });
+});
+
+export const updateMemberRole = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, userId } = req.params;
+  const { role } = req.body;
+
+  const member = await WorkspaceMember.findOne({ workspaceId, userId });
+  if (!member) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Member not found',
+    });
+  }
+
+  if (role !== WorkspaceRole.OWNER && (await isLastOwner(workspaceId, userId))) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'A workspace needs at least one owner',
+    });
+  }
+
+  member.role = role;
+  await member.save();
+  await closeRevokedSockets(workspaceId, userId);
+  await member.populate('userId', MEMBER_USER_FIELDS);
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    data: member,
+  });
+});
+
+export const removeMember = asyncHandler(async (req: Request, res: Response) => {
+  const { id: workspaceId, userId } = req.params;
+
+  // Owners can remove anyone; everyone else can only leave
+  if (req.membership!.role !== WorkspaceRole.OWNER && userId !== req.user!.id) {
+    return res.status(StatusCodes.FORBIDDEN).json({
+      success: false,
+      message: 'This action requires the owner role',
+    });
+  }
+
+  const member = await WorkspaceMember.findOne({ workspaceId, userId });
+  if (!member) {
+    return res.status(StatusCodes.NOT_FOUND).json({
+      success: false,
+      message: 'Member not found',
+    });
+  }
+
+  if (await isLastOwner(workspaceId, userId)) {
+    return res.status(StatusCodes.BAD_REQUEST).json({
+      success: false,
+      message: 'A workspace needs at least one owner',
+    });
+  }
+
+  await member.deleteOne();
+  await closeRevokedSockets(workspaceId, userId);
+
+  return res.status(StatusCodes.OK).json({
+    success: true,
+    message: 'Member removed successfully',
+  });
+});
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { User } from '../models/users';
+import { getRequestToken, verifyAuthToken } from '../utils/authToken';
+
+/**
+ * Rejects requests without a valid session and exposes the caller as req.user
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+  const token = getRequestToken(req);
+  const session = token ? verifyAuthToken(token) : null;
+
+  if (!session) {
+    res.status(StatusCodes.UNAUTHORIZED).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  try {
+    // The account may have been removed since the token was issued
+    const user = await User.findById(session.id);
+    if (!user) {
+      res.status(StatusCodes.UNAUTHORIZED).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    req.user = { id: String(user._id), name: user.name, email: user.email };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
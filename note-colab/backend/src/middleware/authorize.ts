@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import { WorkspaceMember, WorkspaceRole } from '../models/workspaceMembers';
+import { CommonStatus, Workspace } from '../models/wrokspace';
+import { hasRole } from '../utils/workspaceAccess';
+
+interface AuthorizeOptions {
+  // Trash routes act on workspaces in the trash, every other route only on live ones
+  trashed?: boolean;
+}
+
+/**
+ * Requires the signed-in user to hold at least `minRole` in the workspace
+ * named by `:id`, and exposes the membership as req.membership.
+ * Non-members get a 404 so workspace IDs don't leak.
+ */
+export const authorize =
+  (minRole: WorkspaceRole, { trashed = false }: AuthorizeOptions = {}) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const membership = await WorkspaceMember.findOne({
+        workspaceId: req.params.id,
+        userId: req.user?.id,
+      });
+      const workspace =
+        membership &&
+        (await Workspace.exists({
+          _id: req.params.id,
+          status: trashed ? CommonStatus.DELETED : { $ne: CommonStatus.DELETED },
+        }));
+
+      if (!membership || !workspace) {
+        res.status(StatusCodes.NOT_FOUND).json({
+          success: false,
+          message: 'Workspace not found',
+        });
+        return;
+      }
+
+      if (!hasRole(membership.role, minRole)) {
+        res.status(StatusCodes.FORBIDDEN).json({
+          success: false,
+          message: `This action requires the ${minRole} role`,
+        });
+        return;
+      }
+
+      req.membership = membership;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -1,8 +1,19 @@
 import { NextFunction, Response, Request } from "express";
 import { StatusCodes } from "http-status-codes";
 
-const requestCache = new Map();
+interface CachedResponse {
+  status: number;
+  body: unknown;
+}
 
+const requestCache = new Map<string, CachedResponse>();
+// Keys whose first request hasn't answered yet, so a retry can't run it a second time
+const inFlight = new Set<string>();
+
+/**
+ * Answers a repeated request (same `X-Request-ID`, user, method and path) with
+ * the first one's response. Runs after `authenticate`.
+ */
 export const idempotencyMiddleware = (req: Request, res: Response, next: NextFunction) => {
   // Express normalizes headers to lowercase, but check both cases for safety
   const key = (req.headers['x-request-id'] || req.headers['X-Request-ID']) as string;
@@ -18,20 +29,33 @@ export const idempotencyMiddleware = (req: Request, res: Response, next: NextFun
     return next();
   }
   
-  if (requestCache.has(key)) {
-    return res.status(StatusCodes.OK).json({
-      success: true,
-      message: 'Request processed successfully',
-      data: requestCache.get(key),
+  // Scoped to the caller and the route, so a known ID never replays someone else's answer
+  const cacheKey = [req.user!.id, req.method, req.baseUrl + req.path, key].join(' ');
+  const cached = requestCache.get(cacheKey);
+  if (cached) {
+    return res.status(cached.status).json(cached.body);
+  }
+
+  if (inFlight.has(cacheKey)) {
+    return res.status(StatusCodes.CONFLICT).json({
+      success: false,
+      message: 'A request with this ID is still being processed',
+      retryAfter: 1,
     });
   }
-  
-  // Override res.json to cache response
+  // Released when the handler answers, even if the client has hung up by then
+  inFlight.add(cacheKey);
+  res.on('finish', () => inFlight.delete(cacheKey));
+
+  // Override res.json to cache successful responses; failed ones may be retried
   const originalJson = res.json.bind(res);
   res.json = (data) => {
-    requestCache.set(key, data);
+    if (res.statusCode < 300) {
+      requestCache.set(cacheKey, { status: res.statusCode, body: data });
+    }
+    inFlight.delete(cacheKey);
     return originalJson(data);
   };
-  
+
   next();
 };
\ No newline at end of file
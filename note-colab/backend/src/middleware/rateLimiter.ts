@@ -12,3 +12,15 @@ export const apiLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+// Stricter limit for login and registration to slow down password guessing
+export const authLimiter = rateLimit({
+  windowMs: Number(env.RATE_LIMIT_WINDOW_MS),
+  max: 10,
+  message: {
+    success: false,
+    message: 'Too many login attempts, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true,
+});
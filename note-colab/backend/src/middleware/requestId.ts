@@ -0,0 +1,17 @@
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+// Client IDs are kept when they look like an ID, so logs and audit events can be matched up
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request an ID: the client's `X-Request-ID` when it sent a usable
+ * one, a new UUID otherwise. It is echoed in the `X-Request-ID` response header.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const header = req.headers['x-request-id'];
+  req.requestId =
+    typeof header === 'string' && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  res.setHeader('X-Request-ID', req.requestId);
+  next();
+};
@@ -0,0 +1,45 @@
+import { NextFunction, Request, Response } from 'express';
+import { StatusCodes } from 'http-status-codes';
+import multer from 'multer';
+import { CustomError } from './errorHandler';
+
+/**
+ * Parses a multipart upload of the files in `field` into memory (req.files).
+ * Uploads over the limits are answered with 400 instead of a server error.
+ * With `maxRequestSize`, requests must declare their length and bodies larger
+ * than it are refused before anything is read.
+ */
+export const uploadFiles = (
+  field: string,
+  limits: multer.Options['limits'],
+  maxRequestSize?: number
+) => {
+  // Browsers send UTF-8 file names without declaring a charset
+  const upload = multer({ storage: multer.memoryStorage(), limits, defParamCharset: 'utf8' }).array(
+    field
+  );
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (maxRequestSize !== undefined) {
+      const length = Number(req.headers['content-length']);
+      if (!req.headers['content-length'] || !Number.isFinite(length)) {
+        return next(new CustomError('Content-Length is required', StatusCodes.LENGTH_REQUIRED));
+      }
+      if (length > maxRequestSize) {
+        return next(
+          new CustomError(
+            `Uploads cannot exceed ${Math.floor(maxRequestSize / 1024 / 1024)} MB`,
+            StatusCodes.REQUEST_TOO_LONG
+          )
+        );
+      }
+    }
+
+    upload(req, res, error => {
+      if (error instanceof multer.MulterError) {
+        return next(new CustomError(error.message, StatusCodes.BAD_REQUEST));
+      }
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * Stored content shared by every attachment with the same hash. `refs` counts
+ * those attachments; the blob and its file go away when it drops to zero.
+ */
+export interface IAttachmentBlob extends Document {
+  hash: string;
+  size: number;
+  refs: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AttachmentBlobSchema = new Schema<IAttachmentBlob>(
+  {
+    hash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    refs: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const AttachmentBlob: Model<IAttachmentBlob> =
+  mongoose.models.AttachmentBlob ||
+  mongoose.model<IAttachmentBlob>('AttachmentBlob', AttachmentBlobSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * A file uploaded to a page. The bytes are kept once per distinct content, in the
+ * AttachmentBlob with the same hash.
+ */
+export interface IAttachment extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  pageId: mongoose.Types.ObjectId;
+  name: string;
+  // Detected from the content, not taken from the upload
+  mimeType: string;
+  size: number;
+  // SHA-256 of the content, hex encoded
+  hash: string;
+  uploadedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AttachmentSchema = new Schema<IAttachment>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [255, 'Name cannot exceed 255 characters'],
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AttachmentSchema.index({ pageId: 1, createdAt: 1 });
+AttachmentSchema.index({ pageId: 1, hash: 1 });
+
+export const Attachment: Model<IAttachment> =
+  mongoose.models.Attachment || mongoose.model<IAttachment>('Attachment', AttachmentSchema);
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export enum AuditAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  // Moved to the trash
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+  // Removed for good
+  PURGED = 'purged',
+}
+
+export enum AuditTargetType {
+  WORKSPACE = 'workspace',
+  PAGE = 'page',
+}
+
+/**
+ * One change to a workspace or page, as it happened. Events are only ever
+ * inserted: the model refuses updates and deletes, and purging a workspace
+ * leaves its events in place.
+ */
+export interface IAuditEvent extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  // Null for changes the server makes on its own, e.g. the trash sweep
+  actor: mongoose.Types.ObjectId | null;
+  // The actor's name at the time, kept after the account is gone
+  actorName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: mongoose.Types.ObjectId;
+  // The target's title at the time
+  targetTitle: string;
+  // Summaries of the target: `after` once created, trashed or restored, `before` once
+  // purged, and both for updates, reduced to the fields that changed
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  // The request that made the change, see the requestId middleware
+  requestId: string | null;
+  createdAt: Date;
+}
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    actorName: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: [true, 'Action is required'],
+    },
+    targetType: {
+      type: String,
+      enum: Object.values(AuditTargetType),
+      required: [true, 'Target type is required'],
+    },
+    targetId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Target ID is required'],
+    },
+    targetTitle: {
+      type: String,
+      default: '',
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    requestId: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// The activity feed, newest first, and the history of a single target
+AuditEventSchema.index({ workspaceId: 1, createdAt: -1, _id: -1 });
+AuditEventSchema.index({ targetId: 1, createdAt: -1 });
+
+const refuse = () => {
+  throw new Error('Audit events cannot be changed or deleted');
+};
+
+AuditEventSchema.pre('save', function () {
+  if (!this.isNew) {
+    refuse();
+  }
+});
+AuditEventSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  refuse
+);
+
+export const AuditEvent: Model<IAuditEvent> =
+  mongoose.models.AuditEvent || mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
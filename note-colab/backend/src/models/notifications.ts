@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export enum NotificationType {
+  MENTION = 'mention',
+  REPLY = 'reply',
+  PAGE_EDIT = 'page_edit',
+}
+
+// Old notifications are dropped, read or not
+export const NOTIFICATION_TTL_DAYS = 90;
+
+export interface INotification extends Document {
+  // The recipient
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  pageId: mongoose.Types.ObjectId;
+  // The comment that mentions or replies; null for page content
+  commentId?: mongoose.Types.ObjectId | null;
+  type: NotificationType;
+  // Who did it; for edits, the latest editor
+  actor: mongoose.Types.ObjectId;
+  // Unread edits of a page are folded into one notification that counts them
+  count: number;
+  readAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Recipient is required'],
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+      index: true,
+    },
+    commentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PageComment',
+      default: null,
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: [true, 'Type is required'],
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor is required'],
+    },
+    count: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The inbox, latest activity first, and its unread count
+NotificationSchema.index({ userId: 1, updatedAt: -1 });
+NotificationSchema.index({ userId: 1, readAt: 1 });
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_TTL_DAYS * 86400 });
+
+export const Notification: Model<INotification> =
+  mongoose.models.Notification || mongoose.model<INotification>('Notification', NotificationSchema);
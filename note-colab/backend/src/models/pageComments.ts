@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * The text range of `content` a thread is about. `quote` and the few characters
+ * around it let the range be found again after the content changes.
+ */
+export interface ICommentAnchor {
+  start: number;
+  end: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface IPageComment extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  pageId: mongoose.Types.ObjectId;
+  // The first comment of the thread for replies; null for the thread itself
+  threadId: mongoose.Types.ObjectId | null;
+  body: string;
+  // Threads only, and only when they are about part of the content
+  anchor?: ICommentAnchor | null;
+  resolvedAt?: Date | null;
+  resolvedBy?: mongoose.Types.ObjectId | null;
+  editedAt?: Date | null;
+  author: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentAnchorSchema = new Schema<ICommentAnchor>(
+  {
+    start: { type: Number, required: true, min: 0 },
+    end: { type: Number, required: true, min: 0 },
+    quote: { type: String, required: true },
+    prefix: { type: String, default: '' },
+    suffix: { type: String, default: '' },
+  },
+  { _id: false }
+);
+
+const PageCommentSchema = new Schema<IPageComment>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+    },
+    threadId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PageComment',
+      default: null,
+    },
+    body: {
+      type: String,
+      required: [true, 'Comment is required'],
+      trim: true,
+      maxlength: [MAX_COMMENT_LENGTH, `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`],
+    },
+    anchor: {
+      type: CommentAnchorSchema,
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A page's comments in the order they were written
+PageCommentSchema.index({ pageId: 1, createdAt: 1 });
+PageCommentSchema.index({ workspaceId: 1 });
+
+export const PageComment: Model<IPageComment> =
+  mongoose.models.PageComment || mongoose.model<IPageComment>('PageComment', PageCommentSchema);
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * CRDT (Yjs) state of a page's content, kept alongside the page.
+ * `snapshot` is the plain text last written back to Page.content, used to
+ * detect REST edits made while no collaborative session was open.
+ */
+export interface IPageDocument extends Document {
+  pageId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  state: Buffer;
+  snapshot: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PageDocumentSchema = new Schema<IPageDocument>(
+  {
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+      unique: true,
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    state: {
+      type: Buffer,
+      required: [true, 'Document state is required'],
+    },
+    snapshot: {
+      type: String,
+      default: '',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const PageDocument: Model<IPageDocument> =
+  mongoose.models.PageDocument || mongoose.model<IPageDocument>('PageDocument', PageDocumentSchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * A `[[Title]]` link in a page's content, indexed so backlinks and broken links
+ * can be found without reading every page. Kept up to date on every save.
+ */
+export interface IPageLink extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  // The page whose content holds the link
+  sourceId: mongoose.Types.ObjectId;
+  // The linked title, trimmed and lowercased; titles are matched without case
+  key: string;
+  // The title as written
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PageLinkSchema = new Schema<IPageLink>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    sourceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PageLinkSchema.index({ sourceId: 1, key: 1 }, { unique: true });
+PageLinkSchema.index({ workspaceId: 1, key: 1 });
+
+export const PageLink: Model<IPageLink> =
+  mongoose.models.PageLink || mongoose.model<IPageLink>('PageLink', PageLinkSchema);
@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { PageFormat } from './pages';
+
+export interface IPageRevision extends Document {
+  pageId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  version: number;
+  title: string;
+  content?: string;
+  // Missing on revisions recorded before formats were kept
+  format?: PageFormat;
+  author: string;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+const PageRevisionSchema = new Schema<IPageRevision>(
+  {
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: 0,
+    },
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+    },
+    content: {
+      type: String,
+    },
+    format: {
+      type: String,
+      enum: PageFormat,
+    },
+    author: {
+      type: String,
+      default: 'anonymous',
+    },
+    restoredFrom: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// One snapshot per page version; also serves the "latest first" history listing
+PageRevisionSchema.index({ pageId: 1, version: -1 }, { unique: true });
+
+/**
+ * Revisions are append-only: once a version is written it must never change
+ */
+const rejectMutation = () => {
+  throw new Error('Page revisions are immutable');
+};
+
+PageRevisionSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'],
+  rejectMutation
+);
+
+export const PageRevision: Model<IPageRevision> =
+  mongoose.models.PageRevision || mongoose.model<IPageRevision>('PageRevision', PageRevisionSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { PageFormat } from './pages';
+
+export interface IPageTemplate extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  name: string;
+  // Title and content of new pages; may contain placeholders such as {{date}}
+  title: string;
+  content: string;
+  format: PageFormat;
+  // Pages made from this template so far, the value of {{counter}} for the last one
+  counter: number;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Template names are unique per workspace regardless of case
+export const TEMPLATE_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+const PageTemplateSchema = new Schema<IPageTemplate>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [50, 'Name cannot exceed 50 characters'],
+    },
+    title: {
+      type: String,
+      required: [true, 'Title is required'],
+      trim: true,
+      maxlength: [100, 'Title cannot exceed 100 characters'],
+    },
+    content: {
+      type: String,
+      default: '',
+      maxlength: [500, 'Content cannot exceed 500 characters'],
+    },
+    format: {
+      type: String,
+      enum: Object.values(PageFormat),
+      default: PageFormat.PLAIN,
+    },
+    counter: {
+      type: Number,
+      default: 0,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PageTemplateSchema.index(
+  { workspaceId: 1, name: 1 },
+  { unique: true, collation: TEMPLATE_NAME_COLLATION }
+);
+
+export const PageTemplate: Model<IPageTemplate> =
+  mongoose.models.PageTemplate || mongoose.model<IPageTemplate>('PageTemplate', PageTemplateSchema);
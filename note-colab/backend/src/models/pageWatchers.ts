@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+/**
+ * A member who is notified when someone else edits the page
+ */
+export interface IPageWatcher extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  pageId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PageWatcherSchema = new Schema<IPageWatcher>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      required: [true, 'Page ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PageWatcherSchema.index({ pageId: 1, userId: 1 }, { unique: true });
+
+export const PageWatcher: Model<IPageWatcher> =
+  mongoose.models.PageWatcher || mongoose.model<IPageWatcher>('PageWatcher', PageWatcherSchema);
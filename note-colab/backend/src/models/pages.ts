@@ -6,11 +6,30 @@ export enum CommonStatus {
   DELETED = 'deleted',
 }
 
+export enum PageFormat {
+  PLAIN = 'plain',
+  MARKDOWN = 'markdown',
+}
+
+export const MAX_PAGE_CONTENT_LENGTH = 500;
+
 export interface IPage extends Document {
   title: string;
   content?: string;
+  // How `content` is written; markdown is rendered to HTML on read
+  format: PageFormat;
   workspaceId: mongoose.Types.ObjectId;
+  // Page this one is nested under (same workspace); null for top-level pages
+  parentId?: mongoose.Types.ObjectId | null;
+  // Fractional order key among its siblings (utils/fractionalIndex.ts)
+  position?: string | null;
+  // Tags of the page's workspace
+  tags: mongoose.Types.ObjectId[];
   status: CommonStatus;
+  // Set while the document sits in the trash (status DELETED)
+  deletedAt?: Date | null;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,23 +45,62 @@ const PageSchema = new Schema<IPage>(
     content: {
       type: String,
       trim: true,
-      maxlength: [500, 'Content cannot exceed 500 characters'],
+      maxlength: [MAX_PAGE_CONTENT_LENGTH, 'Content cannot exceed 500 characters'],
+    },
+    format: {
+      type: String,
+      enum: PageFormat,
+      default: PageFormat.PLAIN,
     },
     workspaceId: {
       type: Schema.Types.ObjectId,
       ref: 'Workspaces',
       required: [true, 'Workspace ID is required'],
     },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      default: null,
+    },
+    position: {
+      type: String,
+      default: null,
+    },
+    tags: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Tag' }],
+      default: [],
+    },
     status: {
       type: String,
       enum: CommonStatus,
       default: CommonStatus.ACTIVE,
     },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
   }
 );
 
+PageSchema.index({ status: 1, deletedAt: 1 });
+PageSchema.index({ workspaceId: 1, parentId: 1, position: 1 });
+PageSchema.index({ workspaceId: 1, tags: 1 });
+// Full-text search; a title match counts for more than one in the body
+PageSchema.index(
+  { title: 'text', content: 'text' },
+  { name: 'page_text', weights: { title: 5, content: 1 } }
+);
+
 export const Page: Model<IPage> =
   mongoose.models.Page || mongoose.model<IPage>('Page', PageSchema);
@@ -0,0 +1,53 @@
+import { randomBytes } from 'crypto';
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IShareLink extends Document {
+  token: string;
+  workspaceId: mongoose.Types.ObjectId;
+  // Shares a single page when set, otherwise the whole workspace
+  pageId?: mongoose.Types.ObjectId | null;
+  expiresAt?: Date | null;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShareLinkSchema = new Schema<IShareLink>(
+  {
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+      default: () => randomBytes(24).toString('base64url'),
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    pageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Page',
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// MongoDB drops expired links on its own; links without an expiry are kept until revoked
+ShareLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const ShareLink: Model<IShareLink> =
+  mongoose.models.ShareLink || mongoose.model<IShareLink>('ShareLink', ShareLinkSchema);
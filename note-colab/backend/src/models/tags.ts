@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface ITag extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  name: string;
+  // Hex color, e.g. #3b82f6
+  color: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_TAG_COLOR = '#64748b';
+
+// Tag names are unique per workspace regardless of case
+export const TAG_NAME_COLLATION = { locale: 'en', strength: 2 };
+
+const TagSchema = new Schema<ITag>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [30, 'Name cannot exceed 30 characters'],
+    },
+    color: {
+      type: String,
+      default: DEFAULT_TAG_COLOR,
+      match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color'],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TagSchema.index({ workspaceId: 1, name: 1 }, { unique: true, collation: TAG_NAME_COLLATION });
+
+export const Tag: Model<ITag> = mongoose.models.Tag || mongoose.model<ITag>('Tag', TagSchema);
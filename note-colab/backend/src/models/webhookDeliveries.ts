@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export enum DeliveryStatus {
+  // Being sent, or waiting for its next attempt
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+// The delivery log covers the last month
+export const DELIVERY_TTL_DAYS = 30;
+
+export interface IDeliveryAttempt {
+  at: Date;
+  // Null when no response came back
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * One event sent to one webhook, with every attempt made to send it
+ */
+export interface IWebhookDelivery extends Document {
+  webhookId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId;
+  event: string;
+  // The JSON body, the same on every attempt and redelivery
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: IDeliveryAttempt[];
+  // Set on deliveries made by hand, pointing at the one sent again
+  redeliveryOf: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeliveryAttemptSchema = new Schema<IDeliveryAttempt>(
+  {
+    at: { type: Date, required: true },
+    statusCode: { type: Number, default: null },
+    error: { type: String, default: null },
+    durationMs: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: [true, 'Webhook ID is required'],
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    event: {
+      type: String,
+      required: [true, 'Event is required'],
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(DeliveryStatus),
+      default: DeliveryStatus.PENDING,
+    },
+    attempts: {
+      type: [DeliveryAttemptSchema],
+      default: [],
+    },
+    redeliveryOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookDelivery',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// The log of a webhook, newest first, and the deliveries left unfinished by a restart
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1, _id: -1 });
+WebhookDeliverySchema.index({ status: 1 });
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_TTL_DAYS * 86400 });
+
+export const WebhookDelivery: Model<IWebhookDelivery> =
+  mongoose.models.WebhookDelivery ||
+  mongoose.model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
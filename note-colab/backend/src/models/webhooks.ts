@@ -0,0 +1,69 @@
+import { randomBytes } from 'crypto';
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AuditAction, AuditTargetType } from './auditEvents';
+
+// One event type per audited change, e.g. `page.updated` or `workspace.deleted`
+export const WEBHOOK_EVENTS = Object.values(AuditTargetType).flatMap(type =>
+  Object.values(AuditAction).map(action => `${type}.${action}`)
+);
+
+export const webhookEvent = (targetType: AuditTargetType, action: AuditAction) =>
+  `${targetType}.${action}`;
+
+/**
+ * A workspace's subscription: the events it wants, posted as signed JSON to `url`
+ */
+export interface IWebhook extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  url: string;
+  events: string[];
+  // Signs the deliveries; only sent back when the webhook is created or the secret changed
+  secret: string;
+  // Paused webhooks get no deliveries
+  active: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookSchema = new Schema<IWebhook>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+      index: true,
+    },
+    url: {
+      type: String,
+      required: [true, 'URL is required'],
+      maxlength: [2048, 'URL cannot exceed 2048 characters'],
+    },
+    events: {
+      type: [String],
+      enum: WEBHOOK_EVENTS,
+      required: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+      default: () => randomBytes(24).toString('base64url'),
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Webhook: Model<IWebhook> =
+  mongoose.models.Webhook || mongoose.model<IWebhook>('Webhook', WebhookSchema);
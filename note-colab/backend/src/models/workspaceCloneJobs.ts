@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export enum CloneJobStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+export interface IWorkspaceCloneJob extends Document {
+  sourceWorkspaceId: mongoose.Types.ObjectId;
+  // The clone, created when the job starts and filled while it runs
+  workspaceId: mongoose.Types.ObjectId;
+  status: CloneJobStatus;
+  // Pages to copy and copied so far
+  total: number;
+  copied: number;
+  error?: string | null;
+  createdBy: mongoose.Types.ObjectId;
+  finishedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Finished jobs are kept for a day so clients can still read how they ended
+const FINISHED_JOB_TTL_SECONDS = 24 * 60 * 60;
+
+const WorkspaceCloneJobSchema = new Schema<IWorkspaceCloneJob>(
+  {
+    sourceWorkspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Source workspace ID is required'],
+    },
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    status: {
+      type: String,
+      enum: CloneJobStatus,
+      default: CloneJobStatus.RUNNING,
+    },
+    total: {
+      type: Number,
+      default: 0,
+    },
+    copied: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required'],
+    },
+    finishedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+WorkspaceCloneJobSchema.index({ status: 1 });
+WorkspaceCloneJobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: FINISHED_JOB_TTL_SECONDS });
+
+export const WorkspaceCloneJob: Model<IWorkspaceCloneJob> =
+  mongoose.models.WorkspaceCloneJob ||
+  mongoose.model<IWorkspaceCloneJob>('WorkspaceCloneJob', WorkspaceCloneJobSchema);
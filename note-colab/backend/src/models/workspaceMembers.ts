@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export enum WorkspaceRole {
+  OWNER = 'owner',
+  EDITOR = 'editor',
+  VIEWER = 'viewer',
+}
+
+// Higher ranks include every permission of the lower ones
+export const ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.VIEWER]: 0,
+  [WorkspaceRole.EDITOR]: 1,
+  [WorkspaceRole.OWNER]: 2,
+};
+
+export interface IWorkspaceMember extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  role: WorkspaceRole;
+  invitedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceMemberSchema = new Schema<IWorkspaceMember>(
+  {
+    workspaceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspaces',
+      required: [true, 'Workspace ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      index: true,
+    },
+    role: {
+      type: String,
+      enum: WorkspaceRole,
+      required: [true, 'Role is required'],
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+WorkspaceMemberSchema.index({ workspaceId: 1, userId: 1 }, { unique: true });
+
+export const WorkspaceMember: Model<IWorkspaceMember> =
+  mongoose.models.WorkspaceMember ||
+  mongoose.model<IWorkspaceMember>('WorkspaceMember', WorkspaceMemberSchema);
@@ -1,5 +1,18 @@
 import mongoose, { Schema, Document, Model, Query } from 'mongoose';
 import { Page } from './pages';
+import { PageRevision } from './pageRevisions';
+import { PageDocument } from './pageDocuments';
+import { WorkspaceMember } from './workspaceMembers';
+import { ShareLink } from './shareLinks';
+import { Tag } from './tags';
+import { PageTemplate } from './pageTemplates';
+import { PageComment } from './pageComments';
+import { Notification } from './notifications';
+import { PageWatcher } from './pageWatchers';
+import { PageLink } from './pageLinks';
+import { Webhook } from './webhooks';
+import { WebhookDelivery } from './webhookDeliveries';
+import { deleteAttachments } from '../utils/attachments';
 import { NextFunction } from 'express';
 
 export enum CommonStatus {
@@ -12,6 +25,10 @@ export interface IWorkspace extends Document {
   title: string;
   description?: string;
   status: CommonStatus;
+  // Set while the document sits in the trash (status DELETED)
+  deletedAt?: Date | null;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -34,12 +51,31 @@ const WorkspaceSchema = new Schema<IWorkspace>(
       enum: CommonStatus,
       default: CommonStatus.ACTIVE,
     },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: true,
   }
 );
 
+WorkspaceSchema.index({ status: 1, deletedAt: 1 });
+WorkspaceSchema.index(
+  { title: 'text', description: 'text' },
+  { name: 'workspace_text', weights: { title: 5, description: 1 } }
+);
+
+// Deleting only moves a workspace to the trash; this cascade runs when it is purged for good
 WorkspaceSchema.pre(
   'findOneAndDelete' as any,
   async function (this: Query<IWorkspace | null, IWorkspace>, next: NextFunction) {
@@ -49,6 +85,19 @@ WorkspaceSchema.pre(
         throw new Error('Workspace ID is required');
       }
       await Page.deleteMany({ workspaceId });
+      await PageRevision.deleteMany({ workspaceId });
+      await PageDocument.deleteMany({ workspaceId });
+      await WorkspaceMember.deleteMany({ workspaceId });
+      await ShareLink.deleteMany({ workspaceId });
+      await Tag.deleteMany({ workspaceId });
+      await PageTemplate.deleteMany({ workspaceId });
+      await PageComment.deleteMany({ workspaceId });
+      await Notification.deleteMany({ workspaceId });
+      await PageWatcher.deleteMany({ workspaceId });
+      await PageLink.deleteMany({ workspaceId });
+      await Webhook.deleteMany({ workspaceId });
+      await WebhookDelivery.deleteMany({ workspaceId });
+      await deleteAttachments({ workspaceId });
       next();
     } catch (error) {
       next(error);
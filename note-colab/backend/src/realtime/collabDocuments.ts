@@ -0,0 +1,359 @@
+import * as Y from 'yjs';
+import { WebSocket } from 'ws';
+import { CommonStatus, MAX_PAGE_CONTENT_LENGTH, Page } from '@/models/pages';
+import { PageDocument } from '@/models/pageDocuments';
+import { Workspace } from '@/models/wrokspace';
+import { recordPageRevision } from '@/utils/recordPageRevision';
+import { sanitizePageContent } from '@/utils/markdown';
+import { indexPageLinks } from '@/utils/pageLinks';
+import { notifyPageSaved } from '@/utils/notifications';
+import { pageAudit, recordAudit, SYSTEM_ACTOR } from '@/utils/audit';
+import { AuditAction } from '@/models/auditEvents';
+import { AuthUser } from '@/utils/authToken';
+import { canAccessWorkspace } from '@/utils/workspaceAccess';
+import { WorkspaceRole } from '@/models/workspaceMembers';
+import {
+  broadcastToWorkspace,
+  getSocketUser,
+  SocketRouteAuthorizer,
+  SocketRouteHandler,
+} from './socketServer';
+
+/**
+ * Character-level collaborative editing of Page.content.
+ *
+ * Each open page gets an in-memory Yjs document shared by every socket on
+ * /ws/workspaces/:id/pages/:pageId/doc. Updates are relayed to the other
+ * sockets as they arrive; the CRDT state and a sanitized plain-text snapshot
+ * of it are written back to MongoDB shortly after edits stop, so REST reads
+ * of the page keep working.
+ */
+
+export const PAGE_DOCUMENT_PATH =
+  /^\/ws\/workspaces\/([0-9a-fA-F]{24})\/pages\/([0-9a-fA-F]{24})\/doc\/?$/;
+
+const TEXT_FIELD = 'content';
+const PERSIST_DELAY = 2000;
+const REST_ORIGIN = 'rest';
+const SESSION_AUTHOR = 'live session';
+
+type CollabMessage =
+  | { type: 'sync'; update: string }
+  | { type: 'update'; update: string }
+  // The document could not be saved as it is; editors have to fix it
+  | { type: 'rejected'; message: string };
+
+interface LiveDocument {
+  pageId: string;
+  workspaceId: string;
+  doc: Y.Doc;
+  sockets: Set<WebSocket>;
+  snapshot: string;
+  persistTimer: NodeJS.Timeout | null;
+  // Most recent editor, credited with the next persisted version
+  lastEditor?: AuthUser;
+}
+
+const liveDocuments = new Map<string, LiveDocument>();
+const loadingDocuments = new Map<string, Promise<LiveDocument | null>>();
+
+const encode = (update: Uint8Array): string => Buffer.from(update).toString('base64');
+const decode = (update: string): Uint8Array => new Uint8Array(Buffer.from(update, 'base64'));
+
+const send = (ws: WebSocket, message: CollabMessage) => {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * Turns `text` into `next` with a single delete + insert around the changed middle
+ */
+const replaceText = (text: Y.Text, next: string) => {
+  const current = text.toString();
+  if (current === next) {
+    return;
+  }
+
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) {
+    start++;
+  }
+  let currentEnd = current.length;
+  let nextEnd = next.length;
+  while (currentEnd > start && nextEnd > start && current[currentEnd - 1] === next[nextEnd - 1]) {
+    currentEnd--;
+    nextEnd--;
+  }
+
+  if (currentEnd > start) {
+    text.delete(start, currentEnd - start);
+  }
+  if (nextEnd > start) {
+    text.insert(start, next.slice(start, nextEnd));
+  }
+};
+
+const persistDocument = async (entry: LiveDocument): Promise<void> => {
+  if (entry.persistTimer) {
+    clearTimeout(entry.persistTimer);
+    entry.persistTimer = null;
+  }
+
+  try {
+    const current = await Page.findById(entry.pageId);
+    if (!current || current.status === CommonStatus.DELETED) {
+      // Page was deleted while the session was open
+      return;
+    }
+    if (
+      !(await Workspace.exists({ _id: entry.workspaceId, status: { $ne: CommonStatus.DELETED } }))
+    ) {
+      // So was its workspace
+      return;
+    }
+
+    const text = sanitizePageContent(entry.doc.getText(TEXT_FIELD).toString(), current.format);
+    if (text.length > MAX_PAGE_CONTENT_LENGTH) {
+      // Nothing is cut off behind the editors' backs: the page keeps its last saved
+      // content until they shorten the document
+      const message = `Content cannot exceed ${MAX_PAGE_CONTENT_LENGTH} characters; shorten it to save`;
+      entry.sockets.forEach(ws => send(ws, { type: 'rejected', message }));
+      return;
+    }
+    await PageDocument.findOneAndUpdate(
+      { pageId: entry.pageId },
+      {
+        $set: {
+          workspaceId: entry.workspaceId,
+          state: Buffer.from(Y.encodeStateAsUpdate(entry.doc)),
+          snapshot: text,
+        },
+      },
+      { upsert: true }
+    );
+
+    if (text === entry.snapshot) {
+      return;
+    }
+    entry.snapshot = text;
+
+    await recordPageRevision(current);
+    const page = await Page.findOneAndUpdate(
+      { _id: entry.pageId, __v: current.__v },
+      { $set: { content: text, updatedBy: entry.lastEditor?.id }, $inc: { __v: 1 } },
+      { new: true, runValidators: true }
+    );
+    // A REST save won the race; it is folded into the document by syncPageDocument
+    if (!page) {
+      return;
+    }
+
+    await recordPageRevision(page, { author: entry.lastEditor?.name ?? SESSION_AUTHOR });
+    await indexPageLinks(page);
+    await recordAudit(
+      entry.lastEditor
+        ? { id: entry.lastEditor.id, name: entry.lastEditor.name, requestId: null }
+        : { ...SYSTEM_ACTOR, name: SESSION_AUTHOR },
+      pageAudit(AuditAction.UPDATED, { before: current, after: page })
+    );
+    broadcastToWorkspace(entry.workspaceId, { type: 'page.updated', data: page });
+    // Edits that only reconcile a REST save have no editor to notify about
+    if (entry.lastEditor) {
+      await notifyPageSaved({
+        workspaceId: entry.workspaceId,
+        pageId: entry.pageId,
+        actorId: entry.lastEditor.id,
+        before: current.content ?? '',
+        after: text,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to persist page document:', error);
+  }
+};
+
+const schedulePersist = (entry: LiveDocument) => {
+  if (entry.persistTimer) {
+    clearTimeout(entry.persistTimer);
+  }
+  entry.persistTimer = setTimeout(() => persistDocument(entry), PERSIST_DELAY);
+};
+
+const loadDocument = async (workspaceId: string, pageId: string): Promise<LiveDocument | null> => {
+  const page = await Page.findOne({
+    _id: pageId,
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+  });
+  if (!page) {
+    return null;
+  }
+
+  const content = page.content || '';
+  const doc = new Y.Doc();
+  const stored = await PageDocument.findOne({ pageId });
+  let reconciled = false;
+
+  if (stored) {
+    Y.applyUpdate(doc, new Uint8Array(stored.state));
+    // Content was saved through REST since the last collaborative session
+    if (stored.snapshot !== content) {
+      replaceText(doc.getText(TEXT_FIELD), content);
+      reconciled = true;
+    }
+  } else {
+    doc.getText(TEXT_FIELD).insert(0, content);
+    reconciled = true;
+  }
+
+  const entry: LiveDocument = {
+    pageId,
+    workspaceId,
+    doc,
+    sockets: new Set(),
+    snapshot: content,
+    persistTimer: null,
+  };
+
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    const message: CollabMessage = { type: 'update', update: encode(update) };
+    entry.sockets.forEach(ws => {
+      if (ws !== origin) {
+        send(ws, message);
+      }
+    });
+    schedulePersist(entry);
+  });
+
+  if (reconciled) {
+    schedulePersist(entry);
+  }
+  return entry;
+};
+
+const getLiveDocument = async (
+  workspaceId: string,
+  pageId: string
+): Promise<LiveDocument | null> => {
+  const live = liveDocuments.get(pageId);
+  if (live) {
+    return live.workspaceId === workspaceId ? live : null;
+  }
+
+  // Several sockets may open the same page at once; load it only once
+  let loading = loadingDocuments.get(pageId);
+  if (!loading) {
+    loading = loadDocument(workspaceId, pageId).finally(() => loadingDocuments.delete(pageId));
+    loadingDocuments.set(pageId, loading);
+  }
+  const entry = await loading;
+  if (entry && !liveDocuments.has(pageId)) {
+    liveDocuments.set(pageId, entry);
+  }
+  return entry ? liveDocuments.get(pageId)! : null;
+};
+
+const releaseDocument = async (entry: LiveDocument) => {
+  await persistDocument(entry);
+  // Someone may have reopened the page while we were saving
+  if (entry.sockets.size === 0 && liveDocuments.get(entry.pageId) === entry) {
+    entry.doc.destroy();
+    liveDocuments.delete(entry.pageId);
+  }
+};
+
+export const joinPageDocument: SocketRouteHandler = (ws, [workspaceId, pageId]) => {
+  getLiveDocument(workspaceId, pageId)
+    .then(entry => {
+      if (!entry) {
+        ws.close(4404, 'Page not found');
+        return;
+      }
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      entry.sockets.add(ws);
+      send(ws, { type: 'sync', update: encode(Y.encodeStateAsUpdate(entry.doc)) });
+
+      ws.on('message', raw => {
+        try {
+          const message = JSON.parse(raw.toString()) as CollabMessage;
+          if (message.type === 'update' && typeof message.update === 'string') {
+            entry.lastEditor = getSocketUser(ws) ?? entry.lastEditor;
+            Y.applyUpdate(entry.doc, decode(message.update), ws);
+          }
+        } catch (error) {
+          console.error('Invalid collaborative update:', error);
+        }
+      });
+
+      ws.on('close', () => {
+        entry.sockets.delete(ws);
+        if (entry.sockets.size === 0) {
+          releaseDocument(entry);
+        }
+      });
+    })
+    .catch(error => {
+      console.error('Failed to open page document:', error);
+      ws.close(1011, 'Failed to open page document');
+    });
+};
+
+// Live sessions write to the page, so they are limited to editors
+export const authorizePageDocument: SocketRouteAuthorizer = ([workspaceId], user) =>
+  canAccessWorkspace(workspaceId, user.id, WorkspaceRole.EDITOR);
+
+/**
+ * Folds a REST save of the page content into its live document, if one is open
+ */
+export const syncPageDocument = (pageId: string, content: string): void => {
+  const entry = liveDocuments.get(pageId);
+  if (!entry) {
+    return;
+  }
+  entry.snapshot = content;
+  entry.doc.transact(() => replaceText(entry.doc.getText(TEXT_FIELD), content), REST_ORIGIN);
+};
+
+/**
+ * Ends a live session without saving what is left of it
+ */
+const dropDocument = (entry: LiveDocument, reason: string) => {
+  if (entry.persistTimer) {
+    clearTimeout(entry.persistTimer);
+  }
+  liveDocuments.delete(entry.pageId);
+  entry.sockets.forEach(ws => ws.close(4410, reason));
+  entry.doc.destroy();
+};
+
+/**
+ * Closes the live session of a deleted page and drops its stored document
+ */
+export const discardPageDocument = async (pageId: string): Promise<void> => {
+  const entry = liveDocuments.get(pageId);
+  if (entry) {
+    dropDocument(entry, 'Page deleted');
+  }
+  await PageDocument.deleteMany({ pageId });
+};
+
+/**
+ * Closes the live sessions on the pages of a trashed or purged workspace. Their stored
+ * documents stay for a restore; purging the workspace deletes them.
+ */
+export const discardWorkspaceDocuments = (workspaceId: string): void => {
+  [...liveDocuments.values()]
+    .filter(entry => entry.workspaceId === workspaceId)
+    .forEach(entry => dropDocument(entry, 'Workspace deleted'));
+};
+
+/**
+ * Writes every open document to the database (used on shutdown)
+ */
+export const flushPageDocuments = async (): Promise<void> => {
+  await Promise.all([...liveDocuments.values()].map(entry => persistDocument(entry)));
+};
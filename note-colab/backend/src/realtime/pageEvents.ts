@@ -0,0 +1,21 @@
+import { Request } from 'express';
+import { broadcastToWorkspace } from './socketServer';
+
+export type PageEventType = 'page.created' | 'page.updated' | 'page.deleted';
+
+interface BroadcastablePage {
+  _id: unknown;
+  workspaceId: unknown;
+}
+
+/**
+ * Pushes a page change to everyone in the page's workspace room.
+ * The X-Client-ID header lets the tab that made the change ignore its own echo.
+ */
+export const emitPageEvent = (req: Request, type: PageEventType, page: BroadcastablePage) => {
+  broadcastToWorkspace(String(page.workspaceId), {
+    type,
+    data: type === 'page.deleted' ? { _id: String(page._id) } : page,
+    originClientId: req.header('x-client-id'),
+  });
+};
@@ -0,0 +1,111 @@
+import { WebSocket } from 'ws';
+import { presenceMessageSchema } from '@/schemas/presence';
+import { broadcastToWorkspace, getSocketUser, WorkspaceMessageHandler } from './socketServer';
+
+/**
+ * Who has which page of a workspace open.
+ *
+ * Clients send a `presence` heartbeat on their workspace socket when they
+ * open a page, start or stop editing, and every few seconds in between.
+ * Entries are dropped when the socket closes or when heartbeats stop for
+ * PRESENCE_TTL; every change is pushed to the room as `presence.updated`
+ * with the full list of members.
+ */
+
+export const PRESENCE_TTL = 45000;
+const SWEEP_INTERVAL = 15000;
+
+export interface PresenceEntry {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  pageId: string | null;
+  state: 'viewing' | 'editing';
+  lastSeen: string;
+}
+
+interface TrackedPresence {
+  entry: PresenceEntry;
+  expiresAt: number;
+}
+
+const workspaces = new Map<string, Map<WebSocket, TrackedPresence>>();
+let sweeper: NodeJS.Timeout | null = null;
+
+const publish = (workspaceId: string) => {
+  const members = [...(workspaces.get(workspaceId)?.values() ?? [])].map(({ entry }) => entry);
+  broadcastToWorkspace(workspaceId, { type: 'presence.updated', data: { members } });
+};
+
+const removePresence = (workspaceId: string, ws: WebSocket) => {
+  const members = workspaces.get(workspaceId);
+  if (!members?.delete(ws)) {
+    return;
+  }
+  if (members.size === 0) {
+    workspaces.delete(workspaceId);
+  }
+  publish(workspaceId);
+  stopSweeperIfIdle();
+};
+
+const sweep = () => {
+  const now = Date.now();
+  workspaces.forEach((members, workspaceId) => {
+    members.forEach(({ expiresAt }, ws) => {
+      if (expiresAt <= now) {
+        removePresence(workspaceId, ws);
+      }
+    });
+  });
+};
+
+const stopSweeperIfIdle = () => {
+  if (sweeper && workspaces.size === 0) {
+    clearInterval(sweeper);
+    sweeper = null;
+  }
+};
+
+export const trackPresence: WorkspaceMessageHandler = (ws, workspaceId, message) => {
+  const parsed = presenceMessageSchema.safeParse(message);
+  const user = getSocketUser(ws);
+  if (!parsed.success || !user) {
+    return;
+  }
+  const { clientId, color, pageId, state } = parsed.data;
+  const { id: userId, name } = user;
+
+  let members = workspaces.get(workspaceId);
+  if (!members) {
+    members = new Map();
+    workspaces.set(workspaceId, members);
+  }
+
+  const previous = members.get(ws);
+  if (!previous) {
+    ws.once('close', () => removePresence(workspaceId, ws));
+  }
+
+  members.set(ws, {
+    entry: { clientId, userId, name, color, pageId, state, lastSeen: new Date().toISOString() },
+    expiresAt: Date.now() + PRESENCE_TTL,
+  });
+
+  if (!sweeper) {
+    sweeper = setInterval(sweep, SWEEP_INTERVAL);
+    sweeper.unref();
+  }
+
+  // Plain heartbeats only extend the entry; anything visible is broadcast
+  const changed =
+    !previous ||
+    previous.entry.name !== name ||
+    previous.entry.color !== color ||
+    previous.entry.pageId !== pageId ||
+    previous.entry.state !== state;
+  if (changed) {
+    publish(workspaceId);
+  }
+};
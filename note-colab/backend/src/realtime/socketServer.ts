@@ -0,0 +1,271 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { env } from '../config/env';
+import { AuthUser, getRequestToken, verifyAuthToken } from '../utils/authToken';
+import { canAccessWorkspace } from '../utils/workspaceAccess';
+import { WorkspaceRole } from '../models/workspaceMembers';
+
+/**
+ * WebSocket endpoint living next to the Express app.
+ * Clients connect to /ws/workspaces/:id and join that workspace's room;
+ * the server pushes events to every socket in the room. Other realtime
+ * features plug in their own paths with registerSocketRoute, or handle
+ * messages sent on the workspace socket with onWorkspaceMessage.
+ * Upgrades need the same session token as the REST API (cookie or Bearer),
+ * and routes can additionally check workspace membership before accepting.
+ */
+
+export interface WorkspaceEvent<T = unknown> {
+  type: string;
+  workspaceId: string;
+  data: T;
+  originClientId?: string;
+  timestamp: string;
+}
+
+export type SocketRouteHandler = (ws: WebSocket, params: string[], req: IncomingMessage) => void;
+
+export type WorkspaceMessageHandler = (
+  ws: WebSocket,
+  workspaceId: string,
+  message: unknown
+) => void;
+
+export type SocketRouteAuthorizer = (params: string[], user: AuthUser) => Promise<boolean>;
+
+interface SocketRoute {
+  pattern: RegExp;
+  handler: SocketRouteHandler;
+  authorize?: SocketRouteAuthorizer;
+}
+
+const WORKSPACE_PATH = /^\/ws\/workspaces\/([0-9a-fA-F]{24})\/?$/;
+const HEARTBEAT_INTERVAL = 30000;
+const MAX_PAYLOAD = 1024 * 1024;
+
+const routes: SocketRoute[] = [];
+const messageHandlers = new Map<string, WorkspaceMessageHandler>();
+const rooms = new Map<string, Set<WebSocket>>();
+const aliveSockets = new WeakSet<WebSocket>();
+const socketUsers = new WeakMap<WebSocket, AuthUser>();
+// The route and params each socket was accepted for, to check it again later
+const socketRoutes = new WeakMap<WebSocket, { route: SocketRoute; params: string[] }>();
+let wss: WebSocketServer | null = null;
+let heartbeat: NodeJS.Timeout | null = null;
+
+const rejectUpgrade = (socket: Duplex, status: string) => {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+const isOriginAllowed = (req: IncomingMessage): boolean => {
+  if (!env.CORS_ORIGIN || !req.headers.origin) {
+    return true;
+  }
+  return req.headers.origin === env.CORS_ORIGIN;
+};
+
+const joinRoom = (workspaceId: string, ws: WebSocket) => {
+  let room = rooms.get(workspaceId);
+  if (!room) {
+    room = new Set();
+    rooms.set(workspaceId, room);
+  }
+  room.add(ws);
+
+  ws.on('message', raw => {
+    try {
+      const message = JSON.parse(raw.toString());
+      const handler = messageHandlers.get(message?.type);
+      if (handler) {
+        handler(ws, workspaceId, message);
+      }
+    } catch (error) {
+      console.error('Invalid workspace message:', error);
+    }
+  });
+
+  ws.on('close', () => {
+    room!.delete(ws);
+    if (room!.size === 0) {
+      rooms.delete(workspaceId);
+    }
+  });
+};
+
+/**
+ * Routes upgrades whose path matches `pattern` to `handler`; capture groups are passed as params.
+ * When given, `authorize` must resolve true or the upgrade is refused with 403.
+ */
+export const registerSocketRoute = (
+  pattern: RegExp,
+  handler: SocketRouteHandler,
+  authorize?: SocketRouteAuthorizer
+): void => {
+  routes.push({ pattern, handler, authorize });
+};
+
+/**
+ * Handles JSON messages of the given `type` sent by clients on a workspace socket
+ */
+export const onWorkspaceMessage = (type: string, handler: WorkspaceMessageHandler): void => {
+  messageHandlers.set(type, handler);
+};
+
+registerSocketRoute(
+  WORKSPACE_PATH,
+  (ws, [workspaceId]) => joinRoom(workspaceId, ws),
+  ([workspaceId], user) => canAccessWorkspace(workspaceId, user.id, WorkspaceRole.VIEWER)
+);
+
+/**
+ * The signed-in user a socket was opened by
+ */
+export const getSocketUser = (ws: WebSocket): AuthUser | undefined => socketUsers.get(ws);
+
+/**
+ * Runs the route checks again for a user's open sockets on a workspace, after their
+ * membership changed, and closes the ones they no longer pass: every socket of a
+ * removed member, and the live editing sockets of an editor made viewer. Every route
+ * takes the workspace ID as its first param.
+ */
+export const reauthorizeWorkspaceSockets = async (
+  workspaceId: string,
+  userId: string
+): Promise<void> => {
+  if (!wss) {
+    return;
+  }
+
+  const sockets = [...wss.clients].filter(
+    ws => socketUsers.get(ws)?.id === userId && socketRoutes.get(ws)?.params[0] === workspaceId
+  );
+  await Promise.all(
+    sockets.map(async ws => {
+      const { route, params } = socketRoutes.get(ws)!;
+      if (route.authorize && !(await route.authorize(params, socketUsers.get(ws)!))) {
+        ws.close(4403, 'Access revoked');
+      }
+    })
+  );
+};
+
+/**
+ * Closes every socket open on a workspace, on any route, e.g. once it is trashed:
+ * routes only check access when a socket connects
+ */
+export const closeWorkspaceSockets = (workspaceId: string, reason: string): void => {
+  wss?.clients.forEach(ws => {
+    if (socketRoutes.get(ws)?.params[0] === workspaceId) {
+      ws.close(4410, reason);
+    }
+  });
+};
+
+export const attachWebSocketServer = (server: Server): WebSocketServer => {
+  wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '', 'http://localhost');
+    let route: SocketRoute | undefined;
+    let match: RegExpMatchArray | null = null;
+    for (const candidate of routes) {
+      match = pathname.match(candidate.pattern);
+      if (match) {
+        route = candidate;
+        break;
+      }
+    }
+
+    if (!route || !match) {
+      rejectUpgrade(socket, '404 Not Found');
+      return;
+    }
+    if (!isOriginAllowed(req)) {
+      rejectUpgrade(socket, '403 Forbidden');
+      return;
+    }
+    const token = getRequestToken(req);
+    const user = token ? verifyAuthToken(token) : null;
+    if (!user) {
+      rejectUpgrade(socket, '401 Unauthorized');
+      return;
+    }
+
+    const params = match.slice(1);
+    const accept = () =>
+      wss!.handleUpgrade(req, socket, head, ws => {
+        aliveSockets.add(ws);
+        socketUsers.set(ws, user);
+        socketRoutes.set(ws, { route: route!, params });
+        ws.on('pong', () => aliveSockets.add(ws));
+        ws.on('error', error => {
+          console.error('WebSocket error:', error);
+        });
+        route!.handler(ws, params, req);
+        wss!.emit('connection', ws, req);
+      });
+
+    if (!route.authorize) {
+      accept();
+      return;
+    }
+    route
+      .authorize(params, user)
+      .then(allowed => (allowed ? accept() : rejectUpgrade(socket, '403 Forbidden')))
+      .catch(error => {
+        console.error('WebSocket authorization failed:', error);
+        rejectUpgrade(socket, '500 Internal Server Error');
+      });
+  });
+
+  // Drop sockets that stopped answering pings (closed laptops, dead proxies)
+  heartbeat = setInterval(() => {
+    wss?.clients.forEach(ws => {
+      if (!aliveSockets.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      aliveSockets.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  console.log('🔌 WebSocket server attached on /ws');
+  return wss;
+};
+
+export const broadcastToWorkspace = <T>(
+  workspaceId: string,
+  event: Omit<WorkspaceEvent<T>, 'workspaceId' | 'timestamp'>
+): void => {
+  const room = rooms.get(workspaceId);
+  if (!room || room.size === 0) {
+    return;
+  }
+
+  const payload = JSON.stringify({
+    ...event,
+    workspaceId,
+    timestamp: new Date().toISOString(),
+  });
+  room.forEach(ws => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(payload);
+    }
+  });
+};
+
+export const closeWebSocketServer = (): Promise<void> => {
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+  if (!wss) {
+    return Promise.resolve();
+  }
+  wss.clients.forEach(ws => ws.close(1001, 'Server shutting down'));
+  rooms.clear();
+  return new Promise(resolve => wss!.close(() => resolve()));
+};
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { getCurrentUser, login, logout, register } from '@/controllers/auth';
+import { authenticate } from '@/middleware/authenticate';
+import { authLimiter } from '@/middleware/rateLimiter';
+import { validate } from '@/middleware/validate';
+import { loginSchema, registerSchema } from '@/schemas/auth';
+
+const router = Router();
+
+router.post('/register', authLimiter, validate(registerSchema), register);
+router.post('/login', authLimiter, validate(loginSchema), login);
+router.post('/logout', logout);
+router.get('/me', authenticate, getCurrentUser);
+
+export { router as authRoutes };
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getNotifications, getUnreadCount, markNotifications } from '@/controllers/notification';
+import { validate } from '@/middleware/validate';
+import { getNotificationsSchema, markNotificationsSchema } from '@/schemas/notifications';
+
+const router = Router();
+
+// Page watching lives under /api/workspaces so it shares its role checks
+router.get('/', validate(getNotificationsSchema), getNotifications);
+router.get('/unread-count', getUnreadCount);
+router.patch('/', validate(markNotificationsSchema), markNotifications);
+
+export { router as notificationRoutes };
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { search } from '@/controllers/search';
+import { validate } from '@/middleware/validate';
+import { searchSchema } from '@/schemas/search';
+
+const router = Router();
+
+router.get('/', validate(searchSchema), search);
+
+export { router as searchRoutes };
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { getSharedContent, getSharedPage, getSharedPages } from '@/controllers/shareLink';
+import { validate } from '@/middleware/validate';
+import {
+  getSharedContentSchema,
+  getSharedPageSchema,
+  getSharedPagesSchema,
+} from '@/schemas/shareLinks';
+
+const router = Router();
+
+// Public: the token itself is the credential
+router.get('/:token', validate(getSharedContentSchema), getSharedContent);
+router.get('/:token/pages', validate(getSharedPagesSchema), getSharedPages);
+router.get('/:token/pages/:pageId', validate(getSharedPageSchema), getSharedPage);
+
+export { router as shareRoutes };
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getTrash } from '@/controllers/trash';
+
+const router = Router();
+
+// Restore and purge live under /api/workspaces so they share its role checks
+router.get('/', getTrash);
+
+export { router as trashRoutes };
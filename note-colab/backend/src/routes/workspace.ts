@@ -12,27 +12,398 @@ import {
   updateWorkspaceSchema,
   getWorkspaceByIdSchema,
   deleteWorkspaceSchema,
+  getWorkspacesSchema,
 } from '../schemas/workspace';
 import {
   createPageSchema,
   deletePageSchema,
   getPageByIdSchema,
+  getPagesSchema,
+  getPageTreeSchema,
+  duplicatePageSchema,
+  movePageSchema,
+  previewMarkdownSchema,
+  setPagePositionSchema,
+  setPageTagsSchema,
   updatePageSchema,
 } from '@/schemas/pages';
-import { createPage, deletePage, getPageById, getPages, updatePage } from '@/controllers/page';
+import {
+  createPage,
+  deletePage,
+  getPageById,
+  getPages,
+  getPageTree,
+  duplicatePage,
+  movePage,
+  previewMarkdown,
+  setPagePosition,
+  setPageTags,
+  updatePage,
+} from '@/controllers/page';
+import { createTagSchema, deleteTagSchema, getTagsSchema, updateTagSchema } from '@/schemas/tags';
+import { createTag, deleteTag, getTags, updateTag } from '@/controllers/tag';
+import {
+  createPageTemplateSchema,
+  deletePageTemplateSchema,
+  getPageTemplatesSchema,
+  updatePageTemplateSchema,
+} from '@/schemas/pageTemplates';
+import {
+  createPageTemplate,
+  deletePageTemplate,
+  getPageTemplates,
+  updatePageTemplate,
+} from '@/controllers/pageTemplate';
+import {
+  getPageRevisionSchema,
+  getPageRevisionsSchema,
+  restorePageRevisionSchema,
+} from '@/schemas/pageRevisions';
+import { getPageRevision, getPageRevisions, restorePageRevision } from '@/controllers/pageRevision';
+import {
+  createPageCommentSchema,
+  getPageCommentsSchema,
+  pageCommentSchema,
+  updatePageCommentSchema,
+} from '@/schemas/pageComments';
+import {
+  createPageComment,
+  deletePageComment,
+  getPageComments,
+  reopenPageComment,
+  resolvePageComment,
+  updatePageComment,
+} from '@/controllers/pageComment';
+import {
+  addMemberSchema,
+  getMembersSchema,
+  removeMemberSchema,
+  updateMemberRoleSchema,
+} from '@/schemas/workspaceMembers';
+import {
+  addMember,
+  getMembers,
+  removeMember,
+  updateMemberRole,
+} from '@/controllers/workspaceMember';
+import {
+  createShareLinkSchema,
+  getShareLinksSchema,
+  revokeShareLinkSchema,
+} from '@/schemas/shareLinks';
+import { createShareLink, getShareLinks, revokeShareLink } from '@/controllers/shareLink';
+import { trashedPageSchema, trashedWorkspaceSchema } from '@/schemas/trash';
+import {
+  deletePagePermanently,
+  deleteWorkspacePermanently,
+  restorePage,
+  restoreWorkspace,
+} from '@/controllers/trash';
+import { exportWorkspaceSchema, importWorkspaceSchema } from '@/schemas/workspaceArchive';
+import { exportWorkspace, importWorkspace } from '@/controllers/workspaceArchive';
+import {
+  MAX_IMPORT_FILES,
+  MAX_IMPORT_REQUEST_SIZE,
+  MAX_IMPORT_TOTAL_SIZE,
+} from '@/utils/workspaceImport';
+import { cloneWorkspaceSchema, getCloneJobSchema } from '@/schemas/workspaceClone';
+import { cloneWorkspace, getCloneJob } from '@/controllers/workspaceClone';
+import { pageWatchSchema } from '@/schemas/notifications';
+import { addPageWatch, getPageWatch, removePageWatch } from '@/controllers/notification';
+import {
+  attachmentSchema,
+  downloadAttachmentSchema,
+  getAttachmentsSchema,
+  uploadAttachmentsSchema,
+} from '@/schemas/attachments';
+import {
+  deleteAttachment,
+  downloadAttachment,
+  getAttachments,
+  uploadAttachments,
+} from '@/controllers/attachment';
+import {
+  MAX_ATTACHMENT_FILES,
+  MAX_ATTACHMENT_REQUEST_SIZE,
+  MAX_ATTACHMENT_SIZE,
+} from '@/utils/attachments';
+import { brokenLinksSchema, pageLinksSchema } from '@/schemas/pageLinks';
+import { getBrokenLinks, getPageBacklinks, getPageLinks } from '@/controllers/pageLink';
+import { getActivitySchema } from '@/schemas/activity';
+import { getActivity } from '@/controllers/activity';
+import {
+  createWebhookSchema,
+  getDeliveriesSchema,
+  getWebhooksSchema,
+  redeliverSchema,
+  updateWebhookSchema,
+  webhookSchema,
+} from '@/schemas/webhooks';
+import {
+  createWebhook,
+  deleteWebhook,
+  getDeliveries,
+  getWebhooks,
+  redeliverDelivery,
+  updateWebhook,
+} from '@/controllers/webhook';
+import { authorize } from '@/middleware/authorize';
+import { uploadFiles } from '@/middleware/upload';
+import { WorkspaceRole } from '@/models/workspaceMembers';
+
+const { OWNER, EDITOR, VIEWER } = WorkspaceRole;
 
 const router = Router();
 
-router.get('/', getWorkspaces);
-router.get('/:id', validate(getWorkspaceByIdSchema), getWorkspaceById);
+router.get('/', validate(getWorkspacesSchema), getWorkspaces);
+router.get('/:id', validate(getWorkspaceByIdSchema), authorize(VIEWER), getWorkspaceById);
 router.post('/', validate(createWorkspaceSchema), createWorkspace);
-router.put('/:id', validate(updateWorkspaceSchema), updateWorkspace);
-router.delete('/:id', validate(deleteWorkspaceSchema), deleteWorkspace);
-
-router.get('/:id/pages', getPages);
-router.get('/:id/pages/:pageId', validate(getPageByIdSchema), getPageById);
-router.post('/:id/pages', validate(createPageSchema), createPage);
-router.put('/:id/pages/:pageId', validate(updatePageSchema), updatePage);
-router.delete('/:id/pages/:pageId', validate(deletePageSchema), deletePage);
+router.put('/:id', validate(updateWorkspaceSchema), authorize(EDITOR), updateWorkspace);
+router.delete('/:id', validate(deleteWorkspaceSchema), authorize(OWNER), deleteWorkspace);
+router.post(
+  '/:id/restore',
+  validate(trashedWorkspaceSchema),
+  authorize(OWNER, { trashed: true }),
+  restoreWorkspace
+);
+router.delete(
+  '/:id/purge',
+  validate(trashedWorkspaceSchema),
+  authorize(OWNER, { trashed: true }),
+  deleteWorkspacePermanently
+);
+router.get('/:id/activity', validate(getActivitySchema), authorize(VIEWER), getActivity);
+router.get('/:id/export', validate(exportWorkspaceSchema), authorize(VIEWER), exportWorkspace);
+router.post(
+  '/:id/import',
+  validate(importWorkspaceSchema),
+  authorize(EDITOR),
+  uploadFiles(
+    'files',
+    { files: MAX_IMPORT_FILES, fileSize: MAX_IMPORT_TOTAL_SIZE },
+    MAX_IMPORT_REQUEST_SIZE
+  ),
+  importWorkspace
+);
+// Anyone who can read a workspace can clone it; the clone belongs to them
+router.post('/:id/clone', validate(cloneWorkspaceSchema), authorize(VIEWER), cloneWorkspace);
+router.get('/:id/clone/:jobId', validate(getCloneJobSchema), authorize(VIEWER), getCloneJob);
+
+router.get('/:id/members', validate(getMembersSchema), authorize(VIEWER), getMembers);
+router.post('/:id/members', validate(addMemberSchema), authorize(OWNER), addMember);
+router.patch(
+  '/:id/members/:userId',
+  validate(updateMemberRoleSchema),
+  authorize(OWNER),
+  updateMemberRole
+);
+// Owners remove members; any member may remove themselves
+router.delete(
+  '/:id/members/:userId',
+  validate(removeMemberSchema),
+  authorize(VIEWER),
+  removeMember
+);
+
+router.get('/:id/pages', validate(getPagesSchema), authorize(VIEWER), getPages);
+// Registered before /:id/pages/:pageId, which would otherwise take "tree" for a page ID
+router.get('/:id/pages/tree', validate(getPageTreeSchema), authorize(VIEWER), getPageTree);
+router.get('/:id/pages/:pageId', validate(getPageByIdSchema), authorize(VIEWER), getPageById);
+router.post('/:id/pages', validate(createPageSchema), authorize(EDITOR), createPage);
+router.post(
+  '/:id/pages/preview',
+  validate(previewMarkdownSchema),
+  authorize(VIEWER),
+  previewMarkdown
+);
+router.put('/:id/pages/:pageId', validate(updatePageSchema), authorize(EDITOR), updatePage);
+router.put('/:id/pages/:pageId/tags', validate(setPageTagsSchema), authorize(EDITOR), setPageTags);
+router.patch('/:id/pages/:pageId/move', validate(movePageSchema), authorize(EDITOR), movePage);
+router.get(
+  '/:id/pages/:pageId/backlinks',
+  validate(pageLinksSchema),
+  authorize(VIEWER),
+  getPageBacklinks
+);
+router.get('/:id/pages/:pageId/links', validate(pageLinksSchema), authorize(VIEWER), getPageLinks);
+router.get('/:id/pages/:pageId/watch', validate(pageWatchSchema), authorize(VIEWER), getPageWatch);
+router.put('/:id/pages/:pageId/watch', validate(pageWatchSchema), authorize(VIEWER), addPageWatch);
+router.delete(
+  '/:id/pages/:pageId/watch',
+  validate(pageWatchSchema),
+  authorize(VIEWER),
+  removePageWatch
+);
+// Viewers may copy a page into a workspace they edit; the controller checks the target
+router.post(
+  '/:id/pages/:pageId/duplicate',
+  validate(duplicatePageSchema),
+  authorize(VIEWER),
+  duplicatePage
+);
+router.patch(
+  '/:id/pages/:pageId/position',
+  validate(setPagePositionSchema),
+  authorize(EDITOR),
+  setPagePosition
+);
+router.delete('/:id/pages/:pageId', validate(deletePageSchema), authorize(EDITOR), deletePage);
+router.post(
+  '/:id/pages/:pageId/restore',
+  validate(trashedPageSchema),
+  authorize(EDITOR),
+  restorePage
+);
+router.delete(
+  '/:id/pages/:pageId/purge',
+  validate(trashedPageSchema),
+  authorize(EDITOR),
+  deletePagePermanently
+);
+
+router.get(
+  '/:id/pages/:pageId/revisions',
+  validate(getPageRevisionsSchema),
+  authorize(VIEWER),
+  getPageRevisions
+);
+router.get(
+  '/:id/pages/:pageId/revisions/:version',
+  validate(getPageRevisionSchema),
+  authorize(VIEWER),
+  getPageRevision
+);
+router.post(
+  '/:id/pages/:pageId/revisions/:version/restore',
+  validate(restorePageRevisionSchema),
+  authorize(EDITOR),
+  restorePageRevision
+);
+
+// Viewers take part in reviews; the controller limits edits to authors and deletes to editors
+router.get(
+  '/:id/pages/:pageId/comments',
+  validate(getPageCommentsSchema),
+  authorize(VIEWER),
+  getPageComments
+);
+router.post(
+  '/:id/pages/:pageId/comments',
+  validate(createPageCommentSchema),
+  authorize(VIEWER),
+  createPageComment
+);
+router.patch(
+  '/:id/pages/:pageId/comments/:commentId',
+  validate(updatePageCommentSchema),
+  authorize(VIEWER),
+  updatePageComment
+);
+router.delete(
+  '/:id/pages/:pageId/comments/:commentId',
+  validate(pageCommentSchema),
+  authorize(VIEWER),
+  deletePageComment
+);
+router.post(
+  '/:id/pages/:pageId/comments/:commentId/resolve',
+  validate(pageCommentSchema),
+  authorize(VIEWER),
+  resolvePageComment
+);
+router.post(
+  '/:id/pages/:pageId/comments/:commentId/reopen',
+  validate(pageCommentSchema),
+  authorize(VIEWER),
+  reopenPageComment
+);
+
+router.get(
+  '/:id/pages/:pageId/attachments',
+  validate(getAttachmentsSchema),
+  authorize(VIEWER),
+  getAttachments
+);
+router.post(
+  '/:id/pages/:pageId/attachments',
+  validate(uploadAttachmentsSchema),
+  authorize(EDITOR),
+  uploadFiles(
+    'files',
+    { files: MAX_ATTACHMENT_FILES, fileSize: MAX_ATTACHMENT_SIZE },
+    MAX_ATTACHMENT_REQUEST_SIZE
+  ),
+  uploadAttachments
+);
+router.get(
+  '/:id/pages/:pageId/attachments/:attachmentId',
+  validate(downloadAttachmentSchema),
+  authorize(VIEWER),
+  downloadAttachment
+);
+router.delete(
+  '/:id/pages/:pageId/attachments/:attachmentId',
+  validate(attachmentSchema),
+  authorize(EDITOR),
+  deleteAttachment
+);
+
+router.get('/:id/links/broken', validate(brokenLinksSchema), authorize(VIEWER), getBrokenLinks);
+
+router.get('/:id/tags', validate(getTagsSchema), authorize(VIEWER), getTags);
+router.post('/:id/tags', validate(createTagSchema), authorize(EDITOR), createTag);
+router.patch('/:id/tags/:tagId', validate(updateTagSchema), authorize(EDITOR), updateTag);
+router.delete('/:id/tags/:tagId', validate(deleteTagSchema), authorize(EDITOR), deleteTag);
+
+router.get('/:id/templates', validate(getPageTemplatesSchema), authorize(VIEWER), getPageTemplates);
+router.post(
+  '/:id/templates',
+  validate(createPageTemplateSchema),
+  authorize(EDITOR),
+  createPageTemplate
+);
+router.patch(
+  '/:id/templates/:templateId',
+  validate(updatePageTemplateSchema),
+  authorize(EDITOR),
+  updatePageTemplate
+);
+router.delete(
+  '/:id/templates/:templateId',
+  validate(deletePageTemplateSchema),
+  authorize(EDITOR),
+  deletePageTemplate
+);
+
+router.get('/:id/shares', validate(getShareLinksSchema), authorize(OWNER), getShareLinks);
+router.post('/:id/shares', validate(createShareLinkSchema), authorize(OWNER), createShareLink);
+router.delete(
+  '/:id/shares/:shareId',
+  validate(revokeShareLinkSchema),
+  authorize(OWNER),
+  revokeShareLink
+);
+
+router.get('/:id/webhooks', validate(getWebhooksSchema), authorize(OWNER), getWebhooks);
+router.post('/:id/webhooks', validate(createWebhookSchema), authorize(OWNER), createWebhook);
+router.patch(
+  '/:id/webhooks/:webhookId',
+  validate(updateWebhookSchema),
+  authorize(OWNER),
+  updateWebhook
+);
+router.delete('/:id/webhooks/:webhookId', validate(webhookSchema), authorize(OWNER), deleteWebhook);
+router.get(
+  '/:id/webhooks/:webhookId/deliveries',
+  validate(getDeliveriesSchema),
+  authorize(OWNER),
+  getDeliveries
+);
+router.post(
+  '/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+  validate(redeliverSchema),
+  authorize(OWNER),
+  redeliverDelivery
+);
 
 export { router as workspaceRoutes };
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { paginationQuerySchema } from './pagination';
+import { AuditAction, AuditTargetType } from '../models/auditEvents';
+
+export const getActivitySchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  query: paginationQuerySchema
+    .pick({ limit: true, cursor: true })
+    .extend({
+      action: z.nativeEnum(AuditAction).optional(),
+      targetType: z.nativeEnum(AuditTargetType).optional(),
+      targetId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid target ID format')
+        .optional(),
+      actor: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format')
+        .optional(),
+      from: z.string().datetime({ message: 'From must be an ISO date' }).optional(),
+      to: z.string().datetime({ message: 'To must be an ISO date' }).optional(),
+    })
+    .refine(query => !query.from || !query.to || new Date(query.from) <= new Date(query.to), {
+      message: 'From must not be after to',
+      path: ['from'],
+    }),
+});
+
+export type GetActivityQuery = z.infer<typeof getActivitySchema>['query'];
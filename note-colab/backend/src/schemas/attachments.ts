@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+const pageParams = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+});
+
+const attachmentParams = pageParams.extend({
+  attachmentId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid attachment ID format'),
+});
+
+export const getAttachmentsSchema = z.object({
+  params: pageParams,
+});
+
+// The files themselves arrive as multipart form data (`files`), parsed after authorization
+export const uploadAttachmentsSchema = z.object({
+  params: pageParams,
+});
+
+export const downloadAttachmentSchema = z.object({
+  params: attachmentParams,
+  query: z.object({
+    // Shown by the browser instead of saved, e.g. an image opened in a new tab
+    inline: z
+      .enum(['true', 'false'])
+      .transform(val => val === 'true')
+      .optional(),
+  }),
+});
+
+export type DownloadAttachmentQuery = z.infer<typeof downloadAttachmentSchema>['query'];
+
+export const attachmentSchema = z.object({
+  params: attachmentParams,
+});
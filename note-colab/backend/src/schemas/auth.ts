@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { sanitizeString } from '../utils/sanitize';
+
+export const registerSchema = z.object({
+  body: z.object({
+    name: z
+      .string()
+      .min(1, 'Name is required')
+      .max(50, 'Name cannot exceed 50 characters')
+      .transform(val => sanitizeString(val)),
+    email: z.string().trim().toLowerCase().email('Invalid email address'),
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .max(72, 'Password cannot exceed 72 characters'),
+  }),
+});
+
+export const loginSchema = z.object({
+  body: z.object({
+    email: z.string().trim().toLowerCase().email('Invalid email address'),
+    password: z.string().min(1, 'Password is required'),
+  }),
+});
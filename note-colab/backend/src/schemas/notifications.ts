@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { paginationQuerySchema } from './pagination';
+
+export const MAX_NOTIFICATION_IDS = 100;
+
+export const getNotificationsSchema = z.object({
+  query: paginationQuerySchema.pick({ limit: true, cursor: true }).extend({
+    unread: z
+      .enum(['true', 'false'])
+      .transform(val => val === 'true')
+      .optional(),
+  }),
+});
+
+export type GetNotificationsQuery = z.infer<typeof getNotificationsSchema>['query'];
+
+export const markNotificationsSchema = z.object({
+  body: z.object({
+    // Every notification of the caller when left out
+    ids: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid notification ID format'))
+      .min(1, 'Pass at least one ID, or none to mark everything')
+      .max(MAX_NOTIFICATION_IDS, `At most ${MAX_NOTIFICATION_IDS} notifications at once`)
+      .optional(),
+    read: z.boolean().default(true),
+  }),
+});
+
+export const pageWatchSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { sanitizeContent } from '../utils/sanitize';
+import { MAX_COMMENT_LENGTH } from '../models/pageComments';
+
+const pageParams = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+});
+
+const commentParams = pageParams.extend({
+  commentId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid comment ID format'),
+});
+
+const commentBody = z
+  .string()
+  .trim()
+  .min(1, 'Comment is required')
+  .max(MAX_COMMENT_LENGTH, `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`)
+  .transform(val => sanitizeContent(val))
+  .refine(val => val.length > 0, 'Comment is required');
+
+export const getPageCommentsSchema = z.object({
+  params: pageParams,
+  query: z.object({
+    // Both open and resolved threads when left out
+    status: z.enum(['open', 'resolved']).optional(),
+  }),
+});
+
+export type GetPageCommentsQuery = z.infer<typeof getPageCommentsSchema>['query'];
+
+export const createPageCommentSchema = z.object({
+  params: pageParams,
+  body: z
+    .object({
+      body: commentBody,
+      // Replies join the thread of this comment
+      parentId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid comment ID format')
+        .optional(),
+      // The selected text; `start`/`end` are offsets into the content the client had
+      anchor: z
+        .object({
+          start: z.number().int().min(0),
+          end: z.number().int().min(0),
+          quote: z.string().min(1, 'Select some text to comment on'),
+        })
+        .refine(anchor => anchor.end - anchor.start === anchor.quote.length, {
+          message: 'The quote does not match the selected range',
+        })
+        .optional(),
+    })
+    .refine(body => !(body.parentId && body.anchor), {
+      message: 'Replies cannot be anchored',
+    }),
+});
+
+export type CreatePageCommentBody = z.infer<typeof createPageCommentSchema>['body'];
+
+export const updatePageCommentSchema = z.object({
+  params: commentParams,
+  body: z.object({
+    body: commentBody,
+  }),
+});
+
+export const pageCommentSchema = z.object({
+  params: commentParams,
+});
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const pageLinksSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+});
+
+export const brokenLinksSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+});
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+export const getPageRevisionsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+});
+
+export const getPageRevisionSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+    version: z.string().regex(/^\d+$/, 'Invalid version format'),
+  }),
+});
+
+export const restorePageRevisionSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+    version: z.string().regex(/^\d+$/, 'Invalid version format'),
+  }),
+  body: z.object({
+    __v: z.number().optional(),
+  }),
+});
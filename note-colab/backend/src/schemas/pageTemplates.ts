@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { sanitizeString } from '../utils/sanitize';
+import { sanitizePageContent } from '../utils/markdown';
+import { PageFormat } from '../models/pages';
+
+const templateName = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(50, 'Name cannot exceed 50 characters')
+  .transform(val => sanitizeString(val));
+
+const templateTitle = z
+  .string()
+  .min(1, 'Title is required')
+  .max(100, 'Title cannot exceed 100 characters')
+  .transform(val => sanitizeString(val));
+
+const templateContent = z.string().max(500, 'Content cannot exceed 500 characters');
+
+export const getPageTemplatesSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+});
+
+export const createPageTemplateSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  body: z
+    .object({
+      name: templateName,
+      title: templateTitle,
+      content: templateContent.default(''),
+      format: z.nativeEnum(PageFormat).default(PageFormat.PLAIN),
+    })
+    // How content is sanitized depends on its format
+    .transform(body => ({ ...body, content: sanitizePageContent(body.content, body.format) })),
+});
+
+// Content is sanitized by the controller, which knows the stored format when none is sent
+export const updatePageTemplateSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    templateId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid template ID format'),
+  }),
+  body: z
+    .object({
+      name: templateName.optional(),
+      title: templateTitle.optional(),
+      content: templateContent.optional(),
+      format: z.nativeEnum(PageFormat).optional(),
+    })
+    .refine(body => Object.values(body).some(value => value !== undefined), {
+      message: 'Nothing to update',
+    }),
+});
+
+export const deletePageTemplateSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    templateId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid template ID format'),
+  }),
+});
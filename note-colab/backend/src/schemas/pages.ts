@@ -1,20 +1,88 @@
 import { z } from 'zod';
-import { sanitizeString, sanitizeContent } from '../utils/sanitize';
+import { sanitizeString } from '../utils/sanitize';
+import { CommonStatus, PageFormat } from '../models/pages';
+import { paginationQuerySchema } from './pagination';
+import { PAGE_SORT_OPTIONS } from '../utils/pagination';
 
-export const createPageSchema = z.object({
-  body: z.object({
-    title: z
-      .string()
-      .min(1, 'Title is required')
-      .max(100, 'Title cannot exceed 100 characters')
-      .transform((val) => sanitizeString(val)),
-    content: z
-      .string()
-      .max(500, 'Content cannot exceed 500 characters')
-      .optional()
-      .transform((val) => (val ? sanitizeContent(val) : val)),
-    __v: z.number().optional(),
+export const MAX_PAGE_TAGS = 20;
+
+const tagIds = z
+  .array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid tag ID format'))
+  .max(MAX_PAGE_TAGS, `A page can have at most ${MAX_PAGE_TAGS} tags`)
+  .transform(ids => [...new Set(ids)]);
+
+export const getPagesSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  query: paginationQuerySchema
+    .extend({
+      // Deleted pages are only listed by the trash
+      status: z.enum([CommonStatus.ACTIVE, CommonStatus.INACTIVE]).default(CommonStatus.ACTIVE),
+      sort: z.enum(PAGE_SORT_OPTIONS).default('-createdAt'),
+      // Only the children of this page, or `root` for the top level
+      parentId: z
+        .string()
+        .regex(/^([0-9a-fA-F]{24}|root)$/, 'Invalid parent ID format')
+        .optional(),
+      // Comma-separated tag IDs; pages must carry all of them
+      tags: z
+        .string()
+        .transform(val => val.split(',').filter(Boolean))
+        .pipe(tagIds)
+        .optional(),
+    })
+    // Positions only order siblings, so they mean nothing across parents
+    .refine(query => query.sort !== 'position' || query.parentId !== undefined, {
+      message: 'Sorting by position needs a parentId',
+      path: ['parentId'],
+    }),
+});
+
+export type GetPagesQuery = z.infer<typeof getPagesSchema>['query'];
+
+export const getPageTreeSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
   }),
+  query: z.object({
+    status: z.enum([CommonStatus.ACTIVE, CommonStatus.INACTIVE]).default(CommonStatus.ACTIVE),
+  }),
+});
+
+export type GetPageTreeQuery = z.infer<typeof getPageTreeSchema>['query'];
+
+export const createPageSchema = z.object({
+  body: z
+    .object({
+      // Optional with a template, which then provides it
+      title: z
+        .string()
+        .min(1, 'Title is required')
+        .max(100, 'Title cannot exceed 100 characters')
+        .transform((val) => sanitizeString(val))
+        .optional(),
+      content: z.string().max(500, 'Content cannot exceed 500 characters').optional(),
+      format: z.nativeEnum(PageFormat).optional(),
+      parentId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid parent page ID format')
+        .nullable()
+        .optional(),
+      tags: tagIds.optional(),
+      // Fields sent along override the ones the template fills in
+      templateId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid template ID format')
+        .optional(),
+      __v: z.number().optional(),
+    })
+    // Content is sanitized by the controller, once the format is known (a template's
+    // when none is sent)
+    .refine(body => body.title !== undefined || body.templateId !== undefined, {
+      message: 'Title is required',
+      path: ['title'],
+    }),
 });
 
 export const updatePageSchema = z.object({
@@ -29,15 +97,22 @@ export const updatePageSchema = z.object({
       .max(100)
       .optional()
       .transform((val) => (val ? sanitizeString(val) : val)),
-    content: z
-      .string()
-      .max(5000)
-      .optional()
-      .transform((val) => (val ? sanitizeContent(val) : val)),
+    // Sanitized by the controller, which knows the page's format when none is sent
+    content: z.string().max(5000).optional(),
+    format: z.nativeEnum(PageFormat).optional(),
     __v: z.number().optional(),
   }),
 });
 
+export const previewMarkdownSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  body: z.object({
+    content: z.string().max(5000, 'Content cannot exceed 5000 characters'),
+  }),
+});
+
 export const getPageByIdSchema = z.object({
   params: z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
@@ -45,9 +120,85 @@ export const getPageByIdSchema = z.object({
   }),
 });
 
+export const setPageTagsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+  body: z.object({
+    tags: tagIds,
+  }),
+});
+
+export const duplicatePageSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+  body: z
+    .object({
+      // Workspace to copy into; the page's own by default
+      workspaceId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format')
+        .optional(),
+      // Parent in the target workspace; by default the copy goes next to the original,
+      // or to the top level of another workspace
+      parentId: z
+        .string()
+        .regex(/^[0-9a-fA-F]{24}$/, 'Invalid parent page ID format')
+        .nullable()
+        .optional(),
+      includeSubpages: z.boolean().default(true),
+    })
+    .default({}),
+});
+
+export type DuplicatePageBody = z.infer<typeof duplicatePageSchema>['body'];
+
+export const movePageSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+  body: z.object({
+    // null moves the page to the top level
+    parentId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid parent page ID format')
+      .nullable(),
+  }),
+});
+
+export const setPagePositionSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+  body: z.object({
+    // Omitted keeps the current parent; null is the top level
+    parentId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid parent page ID format')
+      .nullable()
+      .optional(),
+    // The sibling to follow; null puts the page first
+    afterId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format')
+      .nullable(),
+  }),
+});
+
 export const deletePageSchema = z.object({
   params: z.object({
     id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
     pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
   }),
+  query: z.object({
+    // `cascade` trashes the subpages too, `reparent` hands them to the page's parent
+    descendants: z.enum(['cascade', 'reparent']).default('cascade'),
+  }),
 });
+
+export type DeletePageQuery = z.infer<typeof deletePageSchema>['query'];
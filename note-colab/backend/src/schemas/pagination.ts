@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { DEFAULT_PAGE_SIZE, decodeCursor, MAX_PAGE_SIZE, SORT_OPTIONS } from '../utils/pagination';
+
+// Shared `limit`, `cursor` and `sort` query params of paginated list endpoints
+export const paginationQuerySchema = z.object({
+  limit: z.coerce
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(MAX_PAGE_SIZE, `Limit cannot exceed ${MAX_PAGE_SIZE}`)
+    .default(DEFAULT_PAGE_SIZE),
+  cursor: z
+    .string()
+    .max(512)
+    .refine(cursor => decodeCursor(cursor) !== null, 'Invalid cursor')
+    .optional(),
+  sort: z.enum(SORT_OPTIONS).default('-createdAt'),
+});
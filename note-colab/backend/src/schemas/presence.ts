@@ -0,0 +1,16 @@
+import { z } from 'zod';
+/**
+ * Heartbeat a client sends on its workspace socket for the page it has open
+ */
+export const presenceMessageSchema = z.object({
+  type: z.literal('presence'),
+  clientId: z.string().min(1).max(64),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid color format'),
+  pageId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format')
+    .nullable(),
+  state: z.enum(['viewing', 'editing']),
+});
+
+export type PresenceMessage = z.infer<typeof presenceMessageSchema>;
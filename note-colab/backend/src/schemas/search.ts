@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { decodeOffsetCursor } from '../utils/pagination';
+
+export const MAX_SEARCH_RESULTS = 50;
+// Each page reads every result before it, so paging stops this deep
+export const MAX_SEARCH_OFFSET = 500;
+
+export const searchSchema = z.object({
+  query: z.object({
+    q: z
+      .string({ required_error: 'Search query is required' })
+      .trim()
+      .min(1, 'Search query is required')
+      .max(200, 'Search query cannot exceed 200 characters'),
+    workspaceId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format')
+      .optional(),
+    limit: z.coerce
+      .number()
+      .int('Limit must be a whole number')
+      .min(1, 'Limit must be at least 1')
+      .max(MAX_SEARCH_RESULTS, `Limit cannot exceed ${MAX_SEARCH_RESULTS}`)
+      .default(20),
+    cursor: z
+      .string()
+      .max(100)
+      .refine(cursor => {
+        const offset = decodeOffsetCursor(cursor);
+        return offset !== null && offset <= MAX_SEARCH_OFFSET;
+      }, 'Invalid cursor')
+      .optional(),
+  }),
+});
+
+export type SearchQuery = z.infer<typeof searchSchema>['query'];
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { paginationQuerySchema } from './pagination';
+
+export const getShareLinksSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  query: z.object({
+    pageId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format')
+      .optional(),
+  }),
+});
+
+export const createShareLinkSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  body: z.object({
+    pageId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format')
+      .nullable()
+      .optional(),
+    expiresAt: z
+      .string()
+      .datetime({ message: 'Expiry must be an ISO date' })
+      .refine(value => new Date(value).getTime() > Date.now(), 'Expiry must be in the future')
+      .nullable()
+      .optional(),
+  }),
+});
+
+export const revokeShareLinkSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    shareId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid share link ID format'),
+  }),
+});
+
+export const getSharedContentSchema = z.object({
+  params: z.object({
+    token: z.string().regex(/^[A-Za-z0-9_-]{32}$/, 'Invalid share token'),
+  }),
+});
+
+export const getSharedPagesSchema = z.object({
+  params: z.object({
+    token: z.string().regex(/^[A-Za-z0-9_-]{32}$/, 'Invalid share token'),
+  }),
+  query: paginationQuerySchema.pick({ limit: true, cursor: true }).extend({
+    // The children of this page, or `root` for the top level
+    parentId: z
+      .string()
+      .regex(/^([0-9a-fA-F]{24}|root)$/, 'Invalid parent ID format')
+      .default('root'),
+  }),
+});
+
+export type GetSharedPagesQuery = z.infer<typeof getSharedPagesSchema>['query'];
+
+export const getSharedPageSchema = z.object({
+  params: z.object({
+    token: z.string().regex(/^[A-Za-z0-9_-]{32}$/, 'Invalid share token'),
+    pageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid page ID format'),
+  }),
+});
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { sanitizeString } from '../utils/sanitize';
+import { DEFAULT_TAG_COLOR } from '../models/tags';
+
+const tagName = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(30, 'Name cannot exceed 30 characters')
+  .transform(val => sanitizeString(val));
+
+const tagColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #3b82f6');
+
+export const getTagsSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+});
+
+export const createTagSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  body: z.object({
+    name: tagName,
+    color: tagColor.default(DEFAULT_TAG_COLOR),
+  }),
+});
+
+export const updateTagSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    tagId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid tag ID format'),
+  }),
+  body: z
+    .object({
+      name: tagName.optional(),
+      color: tagColor.optional(),
+    })
+    .refine(body => body.name !== undefined || body.color !== undefined, {
+      message: 'Nothing to update',
+    }),
+});
+
+export const deleteTagSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    tagId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid tag ID format'),
+  }),
+});
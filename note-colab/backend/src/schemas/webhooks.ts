@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { paginationQuerySchema } from './pagination';
+import { WEBHOOK_EVENTS } from '../models/webhooks';
+import { DeliveryStatus } from '../models/webhookDeliveries';
+import { isInternalUrl } from '../utils/webhooks';
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .url('Invalid URL')
+  .max(2048, 'URL cannot exceed 2048 characters')
+  .refine(url => URL.canParse(url) && ['http:', 'https:'].includes(new URL(url).protocol), {
+    message: 'Webhook URLs must use http or https',
+  })
+  .refine(url => !URL.canParse(url) || !isInternalUrl(url), {
+    message: 'Webhook URLs cannot point to internal addresses',
+  });
+
+const webhookEvents = z
+  .array(
+    z.string().refine(event => WEBHOOK_EVENTS.includes(event), {
+      message: `Unknown event; use one of ${WEBHOOK_EVENTS.join(', ')}`,
+    })
+  )
+  .min(1, 'Subscribe to at least one event')
+  .transform(events => [...new Set(events)]);
+
+const webhookSecret = z
+  .string()
+  .min(16, 'The secret must be at least 16 characters')
+  .max(256, 'The secret cannot exceed 256 characters');
+
+export const getWebhooksSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+});
+
+export const createWebhookSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  body: z.object({
+    url: webhookUrl,
+    events: webhookEvents,
+    // Generated when left out
+    secret: webhookSecret.optional(),
+  }),
+});
+
+export const updateWebhookSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    webhookId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid webhook ID format'),
+  }),
+  body: z
+    .object({
+      url: webhookUrl.optional(),
+      events: webhookEvents.optional(),
+      secret: webhookSecret.optional(),
+      active: z.boolean().optional(),
+    })
+    .refine(body => Object.values(body).some(value => value !== undefined), {
+      message: 'Nothing to update',
+    }),
+});
+
+export const webhookSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    webhookId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid webhook ID format'),
+  }),
+});
+
+export const getDeliveriesSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    webhookId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid webhook ID format'),
+  }),
+  query: paginationQuerySchema.pick({ limit: true, cursor: true }).extend({
+    status: z.nativeEnum(DeliveryStatus).optional(),
+  }),
+});
+
+export type GetDeliveriesQuery = z.infer<typeof getDeliveriesSchema>['query'];
+
+export const redeliverSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    webhookId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid webhook ID format'),
+    deliveryId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid delivery ID format'),
+  }),
+});
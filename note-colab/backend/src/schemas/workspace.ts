@@ -1,5 +1,16 @@
 import { z } from 'zod';
 import { sanitizeString, sanitizeContent } from '../utils/sanitize';
+import { CommonStatus } from '../models/wrokspace';
+import { paginationQuerySchema } from './pagination';
+
+export const getWorkspacesSchema = z.object({
+  query: paginationQuerySchema.extend({
+    // Deleted workspaces are only listed by the trash
+    status: z.enum([CommonStatus.ACTIVE, CommonStatus.INACTIVE]).optional(),
+  }),
+});
+
+export type GetWorkspacesQuery = z.infer<typeof getWorkspacesSchema>['query'];
 
 export const createWorkspaceSchema = z.object({
   body: z.object({
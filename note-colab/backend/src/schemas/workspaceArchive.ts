@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { ARCHIVE_FORMATS } from '../utils/workspaceArchive';
+
+export const exportWorkspaceSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  query: z.object({
+    format: z.enum(ARCHIVE_FORMATS).default('markdown'),
+  }),
+});
+
+export type ExportWorkspaceQuery = z.infer<typeof exportWorkspaceSchema>['query'];
+
+// The files themselves arrive as multipart form data (`files`), parsed after authorization
+export const importWorkspaceSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+});
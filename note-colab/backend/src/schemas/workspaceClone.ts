@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { sanitizeString, sanitizeContent } from '../utils/sanitize';
+
+export const cloneWorkspaceSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  // Both default to the source's, the title with " (copy)" appended
+  body: z
+    .object({
+      title: z
+        .string()
+        .min(1, 'Title is required')
+        .max(100, 'Title cannot exceed 100 characters')
+        .transform(val => sanitizeString(val))
+        .optional(),
+      description: z
+        .string()
+        .max(500, 'Description cannot exceed 500 characters')
+        .transform(val => sanitizeContent(val))
+        .optional(),
+    })
+    .default({}),
+});
+
+export const getCloneJobSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    jobId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid job ID format'),
+  }),
+});
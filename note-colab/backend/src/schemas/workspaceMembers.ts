@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { WorkspaceRole } from '../models/workspaceMembers';
+
+export const getMembersSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+});
+
+export const addMemberSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+  }),
+  body: z.object({
+    email: z.string().trim().toLowerCase().email('Invalid email address'),
+    role: z.nativeEnum(WorkspaceRole),
+  }),
+});
+
+export const updateMemberRoleSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    userId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format'),
+  }),
+  body: z.object({
+    role: z.nativeEnum(WorkspaceRole),
+  }),
+});
+
+export const removeMemberSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid workspace ID format'),
+    userId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid user ID format'),
+  }),
+});
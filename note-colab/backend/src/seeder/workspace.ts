@@ -4,10 +4,23 @@
  */
 
 import { Page } from '@/models/pages';
+import { generateNKeysBetween } from '@/utils/fractionalIndex';
 import { CommonStatus, IWorkspace, Workspace } from '@/models/wrokspace';
+import { User } from '@/models/users';
+import { WorkspaceMember, WorkspaceRole } from '@/models/workspaceMembers';
+import { PageTemplate } from '@/models/pageTemplates';
+import { DEFAULT_PAGE_TEMPLATES } from '@/utils/pageTemplate';
+import bcrypt from 'bcryptjs';
 import mongoose from 'mongoose';
 import { env } from '@/config/env';
 
+// Seeded workspaces belong to this account so they show up after logging in
+const SEED_USER = {
+  name: 'Seed User',
+  email: 'seed@example.com',
+  password: 'password123',
+};
+
 /**
  * Generate random page content
  */
@@ -60,8 +73,19 @@ async function seedDatabase() {
     // Clear existing data
     await Workspace.deleteMany({});
     await Page.deleteMany({});
+    await WorkspaceMember.deleteMany({});
+    await PageTemplate.deleteMany({});
     console.log('🗑️  Cleared existing data');
 
+    let owner = await User.findOne({ email: SEED_USER.email });
+    if (!owner) {
+      owner = await User.create({
+        name: SEED_USER.name,
+        email: SEED_USER.email,
+        passwordHash: await bcrypt.hash(SEED_USER.password, 12),
+      });
+    }
+
     // Create workspaces
     const workspaces = [
       {
@@ -95,7 +119,23 @@ async function seedDatabase() {
 
     // Create each workspace with pages
     for (const workspaceData of workspaces) {
-      const workspace = await Workspace.create(workspaceData);
+      const workspace = await Workspace.create({
+        ...workspaceData,
+        createdBy: owner._id,
+        updatedBy: owner._id,
+      });
+      await WorkspaceMember.create({
+        workspaceId: workspace._id,
+        userId: owner._id,
+        role: WorkspaceRole.OWNER,
+      });
+      await PageTemplate.insertMany(
+        DEFAULT_PAGE_TEMPLATES.map(template => ({
+          ...template,
+          workspaceId: workspace._id,
+          createdBy: owner._id,
+        }))
+      );
       createdWorkspaces.push(workspace);
 
       console.log(`\n📁 Created workspace: ${workspace.title}`);
@@ -105,8 +145,10 @@ async function seedDatabase() {
 
       // Bulk create pages for performance
       const pages = [];
+      const positions = generateNKeysBetween(null, null, pageCount);
       for (let i = 0; i < pageCount; i++) {
         pages.push({
+          position: positions[i],
           title: generatePageTitle(workspace.title, i),
           content: generatePageContent(i),
           workspaceId: workspace._id,
@@ -130,6 +172,7 @@ async function seedDatabase() {
 
     const totalPages = await Page.countDocuments();
     console.log(`\n✅ Total pages created: ${totalPages}`);
+    console.log(`\n🔑 Log in as ${SEED_USER.email} / ${SEED_USER.password}`);
 
     // Display sample workspace for testing
     const sampleWorkspace = createdWorkspaces[0];
@@ -1,6 +1,23 @@
 import { createApp } from './app';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import { env } from './config/env';
+import {
+  attachWebSocketServer,
+  closeWebSocketServer,
+  onWorkspaceMessage,
+  registerSocketRoute,
+} from './realtime/socketServer';
+import {
+  authorizePageDocument,
+  flushPageDocuments,
+  joinPageDocument,
+  PAGE_DOCUMENT_PATH,
+} from './realtime/collabDocuments';
+import { trackPresence } from './realtime/presence';
+import { startTrashPurge, stopTrashPurge } from './utils/trash';
+import { backfillPagePositions } from './utils/pageOrder';
+import { failInterruptedClones } from './utils/workspaceClone';
+import { resumeWebhookDeliveries } from './utils/webhooks';
 
 const app = createApp();
 
@@ -9,12 +26,34 @@ const server = app.listen(env.PORT, async () => {
 
   // Connect to database
   await connectDatabase();
+  const positioned = await backfillPagePositions();
+  if (positioned) {
+    console.log(`↕️ Gave ${positioned} existing page(s) an order position`);
+  }
+  const interrupted = await failInterruptedClones();
+  if (interrupted) {
+    console.log(`🧹 Cleaned up ${interrupted} workspace clone(s) interrupted by the last shutdown`);
+  }
+  const resumed = await resumeWebhookDeliveries();
+  if (resumed) {
+    console.log(`📮 Resumed ${resumed} webhook delivery(ies) interrupted by the last shutdown`);
+  }
+  startTrashPurge();
 });
 
+// Real-time workspace events, presence and collaborative documents share the HTTP server
+registerSocketRoute(PAGE_DOCUMENT_PATH, joinPageDocument, authorizePageDocument);
+onWorkspaceMessage('presence', trackPresence);
+attachWebSocketServer(server);
+
 // Graceful shutdown
 const gracefulShutdown = async (signal: string) => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
 
+  stopTrashPurge();
+  await flushPageDocuments();
+  await closeWebSocketServer();
+
   server.close(async () => {
     console.log('HTTP server closed');
 
@@ -49,4 +88,3 @@ process.on('uncaughtException', (err: Error) => {
   console.error('Uncaught Exception:', err);
   process.exit(1);
 });
-
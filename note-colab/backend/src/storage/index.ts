@@ -0,0 +1,25 @@
+import { Readable } from 'stream';
+import { env } from '@/config/env';
+import { createLocalDiskStorage } from './localDisk';
+
+/**
+ * Where uploaded files live. Keys are relative, slash-separated paths chosen by
+ * the caller; a driver only stores, reads and removes the bytes under them.
+ */
+export interface StorageDriver {
+  // Replaces whatever was stored under the key
+  put(key: string, data: Buffer): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  // Removing a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+const createStorage = (): StorageDriver => {
+  switch (env.ATTACHMENT_STORAGE) {
+    case 'local':
+      return createLocalDiskStorage(env.ATTACHMENT_DIR);
+  }
+};
+
+export const storage = createStorage();
@@ -0,0 +1,61 @@
+import { mkdir, open, rename, rm } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { StorageDriver } from './index';
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * Keeps files under `directory` (relative to the working directory unless absolute)
+ */
+export const createLocalDiskStorage = (directory: string): StorageDriver => {
+  const root = path.resolve(directory);
+
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Written next to the target and renamed, so readers never see half a file
+      const temporary = `${file}.${randomUUID()}.tmp`;
+      try {
+        const handle = await open(temporary, 'w');
+        try {
+          await handle.writeFile(data);
+          await handle.sync();
+        } finally {
+          await handle.close();
+        }
+        await rename(temporary, file);
+      } catch (error) {
+        await rm(temporary, { force: true });
+        throw error;
+      }
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      try {
+        // Opened up front so a missing file is reported here, not as a stream error
+        const handle = await open(file, 'r');
+        return handle.createReadStream();
+      } catch (error) {
+        if (isMissing(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+};
@@ -0,0 +1,10 @@
+/**
+ * Loaded before every test file (see the `test` script): `config/env` reads
+ * these when first imported. Tests talk to receivers on 127.0.0.1, which
+ * webhooks may not reach otherwise.
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.MONGODB_URI ??= 'mongodb://127.0.0.1:27017/note-colab-test';
+process.env.JWT_SECRET ??= 'test-only-secret-of-at-least-32-characters';
+process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
@@ -0,0 +1,14 @@
+import { AuthUser } from '../utils/authToken';
+import { IWorkspaceMember } from '../models/workspaceMembers';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      membership?: IWorkspaceMember;
+      // Set for every request by the requestId middleware
+      requestId?: string;
+    }
+  }
+}
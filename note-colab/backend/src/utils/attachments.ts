@@ -0,0 +1,205 @@
+/**
+ * Page attachments.
+ *
+ * Uploads are limited in size and to a few file types, which are recognised from
+ * the content instead of trusting what the browser claims. Each distinct content
+ * is stored once, keyed by its SHA-256: attachments share an AttachmentBlob that
+ * counts them, and the stored file is removed together with the last reference.
+ * The storage key includes the blob's ID, so a blob created again for the same
+ * content while the old one is being removed never shares its file.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import mongoose, { FilterQuery } from 'mongoose';
+import { Attachment, IAttachment } from '@/models/attachments';
+import { AttachmentBlob, IAttachmentBlob } from '@/models/attachmentBlobs';
+import { storage } from '@/storage';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENT_FILES = 10;
+// Uploads are held in memory, so one request carries at most this much in all
+export const MAX_ATTACHMENT_TOTAL_SIZE = 25 * 1024 * 1024;
+// The multipart request: the files plus the headers of up to MAX_ATTACHMENT_FILES parts
+export const MAX_ATTACHMENT_REQUEST_SIZE = MAX_ATTACHMENT_TOTAL_SIZE + 64 * 1024;
+
+const MAX_NAME_LENGTH = 255;
+const DUPLICATE_KEY_ERROR = 11000;
+
+const startsWith = (data: Buffer, signature: string, offset = 0) =>
+  data.subarray(offset, offset + signature.length).toString('latin1') === signature;
+
+const SIGNATURES: { mimeType: string; matches: (data: Buffer) => boolean }[] = [
+  { mimeType: 'image/png', matches: data => startsWith(data, '\x89PNG\r\n\x1a\n') },
+  { mimeType: 'image/jpeg', matches: data => startsWith(data, '\xff\xd8\xff') },
+  {
+    mimeType: 'image/gif',
+    matches: data => startsWith(data, 'GIF87a') || startsWith(data, 'GIF89a'),
+  },
+  {
+    mimeType: 'image/webp',
+    matches: data => startsWith(data, 'RIFF') && startsWith(data, 'WEBP', 8),
+  },
+  { mimeType: 'application/pdf', matches: data => startsWith(data, '%PDF-') },
+];
+
+// Text has no signature; these go by the extension once the content reads as UTF-8
+const TEXT_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+};
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  ...SIGNATURES.map(signature => signature.mimeType),
+  ...Object.values(TEXT_TYPES),
+];
+
+const isText = (data: Buffer) => {
+  if (data.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The MIME type of an allowed file, or null when it may not be attached
+ */
+export const detectAttachmentType = (data: Buffer, name: string): string | null => {
+  const signature = SIGNATURES.find(({ matches }) => matches(data));
+  if (signature) {
+    return signature.mimeType;
+  }
+  const textType = TEXT_TYPES[path.extname(name).toLowerCase()];
+  return textType && isText(data) ? textType : null;
+};
+
+/**
+ * The name to keep for an upload: some browsers send a path, and control
+ * characters would break the download headers
+ */
+export const attachmentFileName = (name: string): string => {
+  const base = (name.split(/[\\/]/).pop() ?? '')
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\x00-\x1f\x7f]/g, '')
+    .trim();
+  return base.slice(0, MAX_NAME_LENGTH) || 'file';
+};
+
+const blobKey = (blob: IAttachmentBlob) => `${blob.hash.slice(0, 2)}/${blob.hash}-${blob._id}`;
+
+/**
+ * Counts the references given back per hash, and removes the blobs nothing refers to
+ */
+const releaseBlobs = async (hashes: string[]): Promise<void> => {
+  const counts = new Map<string, number>();
+  hashes.forEach(hash => counts.set(hash, (counts.get(hash) ?? 0) + 1));
+
+  for (const [hash, count] of counts) {
+    const blob = await AttachmentBlob.findOneAndUpdate(
+      { hash },
+      { $inc: { refs: -count } },
+      { new: true }
+    );
+    if (!blob || blob.refs > 0) {
+      continue;
+    }
+    // Unless an upload of the same content took a new reference in the meantime
+    const removed = await AttachmentBlob.findOneAndDelete({ _id: blob._id, refs: { $lte: 0 } });
+    if (removed) {
+      try {
+        await storage.delete(blobKey(removed));
+      } catch (error) {
+        // The record is gone, so the file is only wasted space
+        console.error('Removing an attachment file failed:', error);
+      }
+    }
+  }
+};
+
+/**
+ * Takes a reference to the blob for `data`, storing the file if it is new
+ */
+const acquireBlob = async (hash: string, data: Buffer): Promise<void> => {
+  const reference = () =>
+    AttachmentBlob.findOneAndUpdate(
+      { hash },
+      { $inc: { refs: 1 }, $setOnInsert: { size: data.length } },
+      { upsert: true, new: true }
+    );
+
+  let blob: IAttachmentBlob;
+  try {
+    blob = await reference();
+  } catch (error) {
+    // Two uploads of the same content at once; the other one created the blob
+    if ((error as { code?: unknown })?.code !== DUPLICATE_KEY_ERROR) {
+      throw error;
+    }
+    blob = await reference();
+  }
+
+  if (blob.refs === 1) {
+    try {
+      await storage.put(blobKey(blob), data);
+    } catch (error) {
+      await releaseBlobs([hash]);
+      throw error;
+    }
+  }
+};
+
+interface NewAttachment {
+  workspaceId: Id;
+  pageId: Id;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+  uploadedBy: Id;
+}
+
+/**
+ * Attaches a file to a page. The same content attached to the page again returns
+ * the existing attachment instead of a second copy.
+ */
+export const addAttachment = async ({ data, ...fields }: NewAttachment): Promise<IAttachment> => {
+  const hash = createHash('sha256').update(data).digest('hex');
+  const existing = await Attachment.findOne({ pageId: fields.pageId, hash });
+  if (existing) {
+    return existing;
+  }
+
+  await acquireBlob(hash, data);
+  try {
+    return await Attachment.create({ ...fields, size: data.length, hash });
+  } catch (error) {
+    await releaseBlobs([hash]);
+    throw error;
+  }
+};
+
+/**
+ * The stored content of an attachment, or null when its file is missing
+ */
+export const openAttachment = async (attachment: IAttachment) => {
+  const blob = await AttachmentBlob.findOne({ hash: attachment.hash });
+  return blob && storage.get(blobKey(blob));
+};
+
+/**
+ * Deletes the matching attachments, and their files where nothing else uses them
+ */
+export const deleteAttachments = async (filter: FilterQuery<IAttachment>): Promise<void> => {
+  const attachments = await Attachment.find(filter).select('hash');
+  if (attachments.length === 0) {
+    return;
+  }
+  await Attachment.deleteMany({ _id: { $in: attachments.map(attachment => attachment._id) } });
+  await releaseBlobs(attachments.map(attachment => attachment.hash));
+};
@@ -0,0 +1,175 @@
+/**
+ * The audit trail of workspaces and pages.
+ *
+ * Every create, update, trash, restore and purge is recorded as an AuditEvent
+ * with who made it, through which request, and a summary of the target before
+ * and after. Page content is not copied: summaries carry its version and
+ * length, and the revision history has the text. Events are recorded once the
+ * change is saved, so failing to record one never fails the request: errors
+ * are logged instead. Recorded events go on to the workspace's webhooks.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { AuditAction, AuditEvent, AuditTargetType, IAuditEvent } from '@/models/auditEvents';
+import { IPage } from '@/models/pages';
+import { IWorkspace } from '@/models/wrokspace';
+import { dispatchWebhooks } from './webhooks';
+
+type Id = string | mongoose.Types.ObjectId;
+
+type Summary = Record<string, unknown>;
+
+export interface AuditActor {
+  id: Id | null;
+  name: string;
+  requestId: string | null;
+}
+
+// Changes the server makes on its own, like purging expired trash
+export const SYSTEM_ACTOR: AuditActor = { id: null, name: 'System', requestId: null };
+
+/**
+ * The signed-in user making the request
+ */
+export const requestActor = (req: Request): AuditActor => ({
+  id: req.user!.id,
+  name: req.user!.name,
+  requestId: req.requestId ?? null,
+});
+
+export type PageSnapshot = Pick<
+  IPage,
+  'workspaceId' | 'title' | 'status' | 'format' | 'parentId' | 'position' | 'tags' | 'content'
+> & { _id: unknown; __v?: number };
+
+export type WorkspaceSnapshot = Pick<IWorkspace, 'title' | 'description' | 'status'> & {
+  _id: unknown;
+};
+
+export interface AuditEntry {
+  workspaceId: Id;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: Id;
+  targetTitle: string;
+  before: Summary | null;
+  after: Summary | null;
+}
+
+interface Change<T> {
+  before?: T | null;
+  after?: T | null;
+}
+
+const summarizePage = (page: PageSnapshot): Summary => ({
+  title: page.title,
+  status: page.status,
+  format: page.format,
+  parentId: page.parentId ? String(page.parentId) : null,
+  position: page.position ?? null,
+  tags: (page.tags ?? []).map(String),
+  version: page.__v ?? 0,
+  contentLength: page.content?.length ?? 0,
+});
+
+const summarizeWorkspace = (workspace: WorkspaceSnapshot): Summary => ({
+  title: workspace.title,
+  description: workspace.description ?? '',
+  status: workspace.status,
+});
+
+const pick = (summary: Summary, keys: string[]) =>
+  Object.fromEntries(keys.map(key => [key, summary[key]]));
+
+/**
+ * The two summaries reduced to the fields that differ
+ */
+const changedFields = (before: Summary, after: Summary): [Summary, Summary] => {
+  const keys = Object.keys(after).filter(
+    key => JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+  return [pick(before, keys), pick(after, keys)];
+};
+
+const toEntry = <T extends { _id: unknown; title: string }>(
+  action: AuditAction,
+  targetType: AuditTargetType,
+  workspaceId: Id,
+  { before, after }: Change<T>,
+  summarize: (target: T) => Summary
+): AuditEntry => {
+  const target = (after ?? before)!;
+  let summaries: [Summary | null, Summary | null] = [
+    before ? summarize(before) : null,
+    after ? summarize(after) : null,
+  ];
+  if (action === AuditAction.UPDATED && summaries[0] && summaries[1]) {
+    summaries = changedFields(summaries[0], summaries[1]);
+  }
+  return {
+    workspaceId,
+    action,
+    targetType,
+    targetId: String(target._id),
+    targetTitle: target.title,
+    before: summaries[0],
+    after: summaries[1],
+  };
+};
+
+/**
+ * An event for a page, from its state before and/or after the change
+ */
+export const pageAudit = (action: AuditAction, change: Change<PageSnapshot>): AuditEntry =>
+  toEntry(
+    action,
+    AuditTargetType.PAGE,
+    (change.after ?? change.before)!.workspaceId,
+    change,
+    summarizePage
+  );
+
+/**
+ * An event for a workspace, from its state before and/or after the change
+ */
+export const workspaceAudit = (
+  action: AuditAction,
+  change: Change<WorkspaceSnapshot>
+): AuditEntry =>
+  toEntry(
+    action,
+    AuditTargetType.WORKSPACE,
+    String((change.after ?? change.before)!._id),
+    change,
+    summarizeWorkspace
+  );
+
+/**
+ * Appends the events, by `actor`. Updates that changed nothing are left out.
+ */
+export const recordAudit = async (
+  actor: AuditActor,
+  entries: AuditEntry | AuditEntry[]
+): Promise<void> => {
+  const events = [entries]
+    .flat()
+    .filter(entry => entry.action !== AuditAction.UPDATED || Object.keys(entry.after ?? {}).length);
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    const recorded = (await AuditEvent.insertMany(
+      events.map(entry => ({
+        ...entry,
+        actor: actor.id,
+        actorName: actor.name,
+        requestId: actor.requestId,
+      }))
+    )) as IAuditEvent[];
+    await dispatchWebhooks(recorded);
+  } catch (error) {
+    console.error('Recording audit events failed:', error);
+  }
+};
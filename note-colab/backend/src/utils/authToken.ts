@@ -0,0 +1,72 @@
+/**
+ * Signed session tokens, carried in an httpOnly cookie or a Bearer header
+ */
+
+import { IncomingMessage } from 'http';
+import { CookieOptions } from 'express';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+
+export const AUTH_COOKIE = 'note_colab_session';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface TokenPayload {
+  sub: string;
+  name: string;
+  email: string;
+}
+
+export const signAuthToken = (user: AuthUser): string =>
+  jwt.sign(
+    { name: user.name, email: user.email } satisfies Omit<TokenPayload, 'sub'>,
+    env.JWT_SECRET,
+    {
+      subject: user.id,
+      expiresIn: env.SESSION_TTL_SECONDS,
+    }
+  );
+
+/**
+ * Returns the user a token was issued to, or null when it is invalid or expired
+ */
+export const verifyAuthToken = (token: string): AuthUser | null => {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET) as TokenPayload;
+    return { id: payload.sub, name: payload.name, email: payload.email };
+  } catch {
+    return null;
+  }
+};
+
+// maxAge is added when the cookie is set; clearing it must not carry one
+export const authCookieOptions: CookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: env.NODE_ENV === 'production',
+  path: '/',
+};
+
+/**
+ * Reads the session token from the Authorization header or the session cookie.
+ * Works on plain IncomingMessage so WebSocket upgrades can use it too.
+ */
+export const getRequestToken = (req: IncomingMessage): string | null => {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const cookies = req.headers.cookie?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === AUTH_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
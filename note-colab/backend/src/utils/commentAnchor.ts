@@ -0,0 +1,94 @@
+/**
+ * Comment anchors.
+ *
+ * A thread may point at a range of a page's `content`. Offsets alone go stale
+ * with the first edit above them, so the anchor also keeps the quoted text and a
+ * little context on either side. When the content changes the quote is searched
+ * for again: the occurrence whose surroundings match best wins, and among equally
+ * good ones the closest to where the range used to be. A quote that is gone
+ * leaves the thread detached; it keeps the anchor so the UI can show what it was about.
+ */
+
+import { ICommentAnchor } from '@/models/pageComments';
+
+const CONTEXT_LENGTH = 32;
+
+export interface AnchorRange {
+  start: number;
+  end: number;
+}
+
+const commonSuffixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string): number => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * Where the anchor's quote is in `content` now, or null when it no longer is
+ */
+export const locateAnchor = (
+  content: string,
+  anchor: Pick<ICommentAnchor, 'start' | 'end' | 'quote'> & Partial<ICommentAnchor>
+): AnchorRange | null => {
+  const { quote, start } = anchor;
+  if (!quote) {
+    return null;
+  }
+  if (content.slice(start, start + quote.length) === quote) {
+    return { start, end: start + quote.length };
+  }
+
+  let best: { index: number; score: number } | null = null;
+  for (
+    let index = content.indexOf(quote);
+    index !== -1;
+    index = content.indexOf(quote, index + 1)
+  ) {
+    const score =
+      commonSuffixLength(
+        content.slice(Math.max(0, index - CONTEXT_LENGTH), index),
+        anchor.prefix ?? ''
+      ) + commonPrefixLength(content.slice(index + quote.length), anchor.suffix ?? '');
+    const closer = best && Math.abs(index - start) < Math.abs(best.index - start);
+    if (!best || score > best.score || (score === best.score && closer)) {
+      best = { index, score };
+    }
+  }
+
+  return best && { start: best.index, end: best.index + quote.length };
+};
+
+/**
+ * Builds the anchor for a selection the client made. The client may have unsaved
+ * edits, so the quoted text is looked up in the saved content near the given offsets.
+ */
+export const createAnchor = (
+  content: string,
+  selection: AnchorRange & { quote: string }
+): ICommentAnchor | null => {
+  const range = locateAnchor(content, selection);
+  if (!range) {
+    return null;
+  }
+  return {
+    ...range,
+    quote: selection.quote,
+    prefix: content.slice(Math.max(0, range.start - CONTEXT_LENGTH), range.start),
+    suffix: content.slice(range.end, range.end + CONTEXT_LENGTH),
+  };
+};
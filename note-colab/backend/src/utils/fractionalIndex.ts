@@ -0,0 +1,102 @@
+/**
+ * Fractional indexing: order keys that always have room for another key
+ * between any two of them.
+ *
+ * Keys are base62 strings compared character by character (the order MongoDB
+ * and JavaScript use for plain strings). They never end in the lowest digit, so
+ * there is always a key below any given one. Moving an item only needs a new
+ * key between its new neighbours; no other item is rewritten.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const ZERO = DIGITS[0];
+
+/**
+ * A key strictly between `a` ('' for no lower bound) and `b` (null for no upper bound)
+ */
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Keep the shared prefix and split the rest; a missing digit in `a` counts as zero
+    let n = 0;
+    while ((a[n] ?? ZERO) === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Adjacent first digits: b's first digit alone is already above a, otherwise go one digit deeper
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * The shortest step above `a`, so that appending many keys in a row keeps them short
+ */
+const keyAfter = (a: string): string => {
+  const digit = DIGITS.indexOf(a[0]);
+  if (digit < DIGITS.length - 1) {
+    return DIGITS[digit + 1];
+  }
+  return a.length > 1 ? a[0] + keyAfter(a.slice(1)) : a + DIGITS[1];
+};
+
+/**
+ * The shortest step below `b`, the counterpart of keyAfter for prepending
+ */
+const keyBefore = (b: string): string => {
+  const digit = DIGITS.indexOf(b[0]);
+  if (digit > 1) {
+    return DIGITS[digit - 1];
+  }
+  if (digit === 1) {
+    return b.length > 1 ? b[0] : ZERO + DIGITS[DIGITS.length - 1];
+  }
+  return ZERO + keyBefore(b.slice(1));
+};
+
+const isValidKey = (key: string) =>
+  key.length > 0 && !key.endsWith(ZERO) && [...key].every(char => DIGITS.includes(char));
+
+/**
+ * A key that sorts after `a` and before `b`; null leaves that side open
+ */
+export const generateKeyBetween = (a: string | null, b: string | null): string => {
+  if ((a !== null && !isValidKey(a)) || (b !== null && !isValidKey(b))) {
+    throw new Error(`Invalid order key: ${!a || isValidKey(a) ? b : a}`);
+  }
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Order key ${a} is not below ${b}`);
+  }
+  if (a !== null && b === null) {
+    return keyAfter(a);
+  }
+  if (a === null && b !== null) {
+    return keyBefore(b);
+  }
+  return midpoint(a ?? '', b);
+};
+
+/**
+ * `n` ascending keys between `a` and `b`, spread out so they stay short
+ */
+export const generateNKeysBetween = (a: string | null, b: string | null, n: number): string[] => {
+  if (n <= 0) {
+    return [];
+  }
+  const middle = generateKeyBetween(a, b);
+  const before = Math.floor((n - 1) / 2);
+  return [
+    ...generateNKeysBetween(a, middle, before),
+    middle,
+    ...generateNKeysBetween(middle, b, n - 1 - before),
+  ];
+};
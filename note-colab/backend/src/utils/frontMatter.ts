@@ -0,0 +1,51 @@
+/**
+ * YAML front matter for pages in workspace archives.
+ *
+ * Values are written as JSON, which YAML reads as is, so titles with colons or
+ * quotes need no escaping rules of their own.
+ */
+
+const DELIMITER = '---';
+
+export const toFrontMatter = (fields: Record<string, unknown>, body: string): string => {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `${DELIMITER}\n${lines.join('\n')}\n${DELIMITER}\n\n${body}\n`;
+};
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FIELD = /^([A-Za-z_][\w-]*):[ \t]*(.*)$/;
+
+const parseValue = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Plain YAML scalars: unquoted or single-quoted strings
+    return raw.replace(/^'(.*)'$/, '$1');
+  }
+};
+
+/**
+ * Splits a file into its front matter fields and body. Reads the flat
+ * `key: value` form written above as well as simple hand-written YAML;
+ * files without front matter come back with no fields.
+ */
+export const parseFrontMatter = (
+  text: string
+): { fields: Record<string, unknown>; body: string } => {
+  const match = FRONT_MATTER.exec(text);
+  if (!match) {
+    return { fields: {}, body: text };
+  }
+
+  const fields: Record<string, unknown> = {};
+  match[1].split(/\r?\n/).forEach(line => {
+    const field = FIELD.exec(line.trim());
+    if (field) {
+      fields[field[1]] = parseValue(field[2].trim());
+    }
+  });
+
+  return { fields, body: text.slice(match[0].length).replace(/^\s*\n/, '') };
+};
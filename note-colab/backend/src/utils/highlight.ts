@@ -0,0 +1,68 @@
+/**
+ * Builds short, highlighted excerpts of search matches.
+ *
+ * Highlights are returned as [start, end) offsets into the excerpt instead of
+ * markup, so clients render them without trusting any HTML from the server.
+ */
+
+export interface HighlightedText {
+  text: string;
+  highlights: [number, number][];
+}
+
+const SNIPPET_LENGTH = 160;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits a search query into the words MongoDB's text search matches on
+ */
+export const getSearchTerms = (query: string): string[] => [
+  ...new Set(
+    query
+      .toLowerCase()
+      .replace(/"/g, ' ')
+      .split(/\s+/)
+      // "-word" excludes a word, so it never appears in a result
+      .filter(term => term.length > 1 && !term.startsWith('-'))
+  ),
+];
+
+const findHighlights = (text: string, terms: string[]): [number, number][] => {
+  if (terms.length === 0) {
+    return [];
+  }
+  // Word prefixes, so "edit" also marks "editing" the way stemming matched it
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  return [...text.matchAll(pattern)].map(match => [match.index!, match.index! + match[0].length]);
+};
+
+/**
+ * Highlights every term in a short text such as a title
+ */
+export const highlight = (text: string | undefined, terms: string[]): HighlightedText => {
+  const value = text ?? '';
+  return { text: value, highlights: findHighlights(value, terms) };
+};
+
+/**
+ * Cuts a window around the first match out of a longer text and highlights it
+ */
+export const buildSnippet = (text: string | undefined, terms: string[]): HighlightedText => {
+  const value = (text ?? '').replace(/\s+/g, ' ').trim();
+  if (value.length <= SNIPPET_LENGTH) {
+    return highlight(value, terms);
+  }
+
+  const first = findHighlights(value, terms)[0];
+  let start = first ? Math.max(0, first[0] - Math.floor(SNIPPET_LENGTH / 3)) : 0;
+  // Start on a word boundary
+  if (start > 0) {
+    const space = value.indexOf(' ', start);
+    start = space !== -1 && space < (first?.[0] ?? value.length) ? space + 1 : start;
+  }
+  const end = Math.min(value.length, start + SNIPPET_LENGTH);
+
+  const excerpt = `${start > 0 ? '…' : ''}${value.slice(start, end)}${end < value.length ? '…' : ''}`;
+  return highlight(excerpt, terms);
+};
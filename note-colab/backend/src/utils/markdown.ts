@@ -0,0 +1,119 @@
+import MarkdownIt from 'markdown-it';
+import { PageFormat } from '@/models/pages';
+import { purify, sanitizeContent, sanitizeMarkdown } from './sanitize';
+import { WIKI_LINK_PATTERN } from './pageLinks';
+
+// Raw HTML in the source is escaped, not passed through
+const markdown = new MarkdownIt({ html: false, linkify: true, breaks: true });
+
+/**
+ * Where a `[[Title]]` link goes, or null to leave it as text
+ */
+export type WikiLinkResolver = (title: string) => string | null;
+
+interface RenderEnv {
+  wikiLink?: WikiLinkResolver;
+}
+
+const WIKI_LINK_AT = new RegExp(WIKI_LINK_PATTERN.source, 'y');
+
+markdown.inline.ruler.before('link', 'wiki_link', (state, silent) => {
+  const { wikiLink } = state.env as RenderEnv;
+  if (!wikiLink) {
+    return false;
+  }
+  WIKI_LINK_AT.lastIndex = state.pos;
+  const match = WIKI_LINK_AT.exec(state.src);
+  const href = match && wikiLink(match[1].trim());
+  if (!match || !href) {
+    return false;
+  }
+
+  if (!silent) {
+    const open = state.push('link_open', 'a', 1);
+    open.attrSet('href', href);
+    open.meta = { wiki: true };
+    state.push('text', '', 0).content = (match[2] ?? match[1]).trim();
+    state.push('link_close', 'a', -1);
+  }
+  state.pos += match[0].length;
+  return true;
+});
+
+// Links open in a new tab without access to the opener; links to other pages stay in the app
+markdown.renderer.rules.link_open = (tokens, idx, options, _env, self) => {
+  if (!tokens[idx].meta?.wiki) {
+    tokens[idx].attrSet('target', '_blank');
+    tokens[idx].attrSet('rel', 'noopener noreferrer nofollow');
+  }
+  return self.renderToken(tokens, idx, options);
+};
+
+/**
+ * Everything markdown can produce, minus styles and raw HTML. The list is fixed
+ * rather than DOMPurify's defaults so a library upgrade cannot widen it.
+ */
+const ALLOWED_TAGS = [
+  'p',
+  'br',
+  'hr',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'strong',
+  'em',
+  's',
+  'code',
+  'pre',
+  'blockquote',
+  'ul',
+  'ol',
+  'li',
+  'a',
+  'img',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'th',
+  'td',
+];
+
+const ALLOWED_ATTR = ['href', 'title', 'target', 'rel', 'src', 'alt', 'start'];
+
+const ALLOWED_URI_REGEXP = /^(?:https?:|mailto:|#|\/)/i;
+
+// DOMPurify checks every other attribute's value against the URI pattern
+const URI_SAFE_ATTR = ['target', 'rel', 'start'];
+
+/**
+ * Renders markdown source to sanitized HTML. `[[Title]]` links become links only
+ * where `wikiLink` resolves them.
+ */
+export function renderMarkdown(
+  source: string | undefined | null,
+  wikiLink?: WikiLinkResolver
+): string {
+  if (!source) {
+    return '';
+  }
+
+  const env: RenderEnv = { wikiLink };
+  return purify.sanitize(markdown.render(source, env), {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOWED_URI_REGEXP,
+    ADD_URI_SAFE_ATTR: URI_SAFE_ATTR,
+  });
+}
+
+/**
+ * Plain pages keep the content sanitization they always had; markdown pages
+ * store their source and are sanitized when rendered.
+ */
+export function sanitizePageContent(content: string, format: PageFormat = PageFormat.PLAIN) {
+  return format === PageFormat.MARKDOWN ? sanitizeMarkdown(content) : sanitizeContent(content);
+}
@@ -0,0 +1,225 @@
+/**
+ * In-app notifications.
+ *
+ * Saving page content or a comment looks for `@Full Name` or `@email` of workspace
+ * members and notifies the ones who were not mentioned before. Replies notify the
+ * other people in the thread, and edits notify the page's watchers: its creator,
+ * whoever commented on it, and members who chose to watch it. Unread edit
+ * notifications of a page are folded into one that counts them.
+ *
+ * Notifying follows a change that is already saved, so it never fails the request:
+ * errors are logged and the notifications are lost.
+ */
+
+import mongoose from 'mongoose';
+import { Notification, NotificationType } from '@/models/notifications';
+import { IPageComment, PageComment } from '@/models/pageComments';
+import { PageWatcher } from '@/models/pageWatchers';
+import { IUser } from '@/models/users';
+import { WorkspaceMember } from '@/models/workspaceMembers';
+
+type Id = string | mongoose.Types.ObjectId;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface MentionCandidate {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * IDs of the candidates mentioned in `text`, ignoring case. Where handles overlap
+ * ("@Ann" and "@Ann Lee") the longest match at a position wins.
+ */
+export const findMentions = (text: string, candidates: MentionCandidate[]): string[] => {
+  const longest = new Map<number, { userId: string; length: number }>();
+  for (const { userId, name, email } of candidates) {
+    for (const handle of [name, email].filter(Boolean)) {
+      // Not part of a longer word or address on either side
+      const pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}_@.])@${escapeRegExp(handle)}(?![\\p{L}\\p{N}_])`,
+        'giu'
+      );
+      for (const match of text.matchAll(pattern)) {
+        const current = longest.get(match.index);
+        if (!current || match[0].length > current.length) {
+          longest.set(match.index, { userId, length: match[0].length });
+        }
+      }
+    }
+  }
+  return [...new Set([...longest.values()].map(mention => mention.userId))];
+};
+
+const mentionCandidates = async (workspaceId: Id): Promise<MentionCandidate[]> => {
+  const members = await WorkspaceMember.find({ workspaceId }).populate<{ userId: IUser }>(
+    'userId',
+    'name email'
+  );
+  return members
+    .filter(member => member.userId)
+    .map(member => ({
+      userId: String(member.userId._id),
+      name: member.userId.name,
+      email: member.userId.email,
+    }));
+};
+
+/**
+ * Drops users who are no longer members of the workspace
+ */
+const currentMembers = async (workspaceId: Id, userIds: Id[]): Promise<string[]> => {
+  const members = await WorkspaceMember.find({ workspaceId, userId: { $in: userIds } }).distinct(
+    'userId'
+  );
+  return members.map(String);
+};
+
+interface MentionContext {
+  workspaceId: Id;
+  pageId: Id;
+  commentId?: Id;
+  actorId: string;
+}
+
+/**
+ * Notifies members mentioned in `after` but not in `before`; returns who was notified
+ */
+const notifyMentions = async (
+  { workspaceId, pageId, commentId, actorId }: MentionContext,
+  before: string,
+  after: string
+): Promise<string[]> => {
+  const candidates = await mentionCandidates(workspaceId);
+  const previously = new Set(findMentions(before, candidates));
+  const recipients = findMentions(after, candidates).filter(
+    userId => !previously.has(userId) && userId !== actorId
+  );
+
+  if (recipients.length > 0) {
+    await Notification.insertMany(
+      recipients.map(userId => ({
+        userId,
+        workspaceId,
+        pageId,
+        commentId: commentId ?? null,
+        type: NotificationType.MENTION,
+        actor: actorId,
+      }))
+    );
+  }
+  return recipients;
+};
+
+export const watchPage = async (workspaceId: Id, pageId: Id, userId: Id): Promise<void> => {
+  try {
+    await PageWatcher.updateOne(
+      { pageId, userId },
+      { $setOnInsert: { workspaceId } },
+      { upsert: true }
+    );
+  } catch (error) {
+    // Two requests watching at once; the other one created it
+    if ((error as { code?: unknown })?.code !== DUPLICATE_KEY_ERROR) {
+      throw error;
+    }
+  }
+};
+
+const logFailure = (error: unknown) => {
+  console.error('Sending notifications failed:', error);
+};
+
+interface PageSavedEvent {
+  workspaceId: Id;
+  pageId: Id;
+  actorId: string;
+  // Content before the save; undefined for a new page, which its creator then watches
+  before?: string;
+  after: string;
+}
+
+/**
+ * After a page was created or saved
+ */
+export const notifyPageSaved = async ({
+  workspaceId,
+  pageId,
+  actorId,
+  before,
+  after,
+}: PageSavedEvent): Promise<void> => {
+  try {
+    if (before === undefined) {
+      await watchPage(workspaceId, pageId, actorId);
+    }
+    const mentioned = await notifyMentions({ workspaceId, pageId, actorId }, before ?? '', after);
+
+    const watchers = await PageWatcher.find({
+      pageId,
+      userId: { $nin: [actorId, ...mentioned] },
+    }).distinct('userId');
+    for (const userId of await currentMembers(workspaceId, watchers)) {
+      await Notification.updateOne(
+        { userId, pageId, type: NotificationType.PAGE_EDIT, readAt: null },
+        { $set: { workspaceId, actor: actorId }, $inc: { count: 1 } },
+        { upsert: true }
+      );
+    }
+  } catch (error) {
+    logFailure(error);
+  }
+};
+
+/**
+ * After a comment was written or edited. Commenting on a page also starts watching it.
+ */
+export const notifyCommentSaved = async (
+  comment: IPageComment,
+  actorId: string,
+  // The body before an edit; undefined for a new comment
+  before?: string
+): Promise<void> => {
+  const { workspaceId, pageId } = comment;
+  try {
+    const mentioned = await notifyMentions(
+      { workspaceId, pageId, commentId: comment._id as Id, actorId },
+      before ?? '',
+      comment.body
+    );
+    if (before !== undefined) {
+      return;
+    }
+
+    await watchPage(workspaceId, pageId, actorId);
+    if (!comment.threadId) {
+      return;
+    }
+
+    // Everyone else in the thread hears about a reply, unless the reply mentions them
+    const thread = await PageComment.findById(comment.threadId);
+    const repliers = await PageComment.find({ threadId: comment.threadId }).distinct('author');
+    const participants = [thread?.author, ...repliers]
+      .filter(Boolean)
+      .map(String)
+      .filter(userId => userId !== actorId && !mentioned.includes(userId));
+    const recipients = await currentMembers(workspaceId, [...new Set(participants)]);
+    if (recipients.length > 0) {
+      await Notification.insertMany(
+        recipients.map(userId => ({
+          userId,
+          workspaceId,
+          pageId,
+          commentId: comment._id,
+          type: NotificationType.REPLY,
+          actor: actorId,
+        }))
+      );
+    }
+  } catch (error) {
+    logFailure(error);
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Copies pages into a workspace: next to the original (duplicate), into another
+ * workspace, or into a clone of the whole workspace.
+ *
+ * New IDs are assigned before anything is written, so parents and children can
+ * be inserted in any order and in batches.
+ */
+
+import mongoose, { HydratedDocument } from 'mongoose';
+import { IPage, Page } from '@/models/pages';
+import { PageRevision } from '@/models/pageRevisions';
+import { Tag, TAG_NAME_COLLATION } from '@/models/tags';
+import { indexPageLinks } from './pageLinks';
+
+export type IdMap = Map<string, mongoose.Types.ObjectId>;
+
+export type CopySource = Pick<
+  IPage,
+  'title' | 'content' | 'format' | 'parentId' | 'position' | 'tags' | 'status'
+> & { _id: unknown };
+
+type Id = string | mongoose.Types.ObjectId;
+
+interface CopyPagesOptions {
+  workspaceId: Id;
+  // New ID for every page copied, keyed by the source ID
+  ids: IdMap;
+  // Source tag ID to target tag ID; tags without one are dropped. Omit to keep the IDs
+  tags?: IdMap;
+  userId: Id;
+  // Name on the first revision of each copy
+  author: string;
+  // Replaced fields per source page, e.g. the title and place of the copied root
+  overrides?: Map<string, Partial<Pick<IPage, 'title' | 'parentId' | 'position'>>>;
+}
+
+export const assignIds = (pages: { _id: unknown }[]): IdMap =>
+  new Map(pages.map(page => [String(page._id), new mongoose.Types.ObjectId()]));
+
+/**
+ * Inserts the copies with a first revision each. A parent that is not copied
+ * along makes the copy a top-level page, unless an override places it.
+ */
+export const copyPages = async (pages: CopySource[], options: CopyPagesOptions) => {
+  const { workspaceId, ids, tags, userId, author, overrides } = options;
+
+  const docs: Partial<IPage>[] = pages.map(page => ({
+    _id: ids.get(String(page._id)),
+    workspaceId: new mongoose.Types.ObjectId(workspaceId),
+    title: page.title,
+    content: page.content,
+    format: page.format,
+    status: page.status,
+    parentId: (page.parentId && ids.get(String(page.parentId))) ?? null,
+    position: page.position,
+    tags: tags ? page.tags.flatMap(id => tags.get(String(id)) ?? []) : page.tags,
+    createdBy: new mongoose.Types.ObjectId(userId),
+    updatedBy: new mongoose.Types.ObjectId(userId),
+    ...overrides?.get(String(page._id)),
+  }));
+  const copies = (await Page.insertMany(docs)) as HydratedDocument<IPage>[];
+
+  await PageRevision.insertMany(
+    copies.map(copy => ({
+      pageId: copy._id,
+      workspaceId: copy.workspaceId,
+      version: 0,
+      title: copy.title,
+      content: copy.content,
+      format: copy.format,
+      author,
+    }))
+  );
+  for (const copy of copies) {
+    await indexPageLinks(copy);
+  }
+
+  return copies;
+};
+
+/**
+ * Finds or creates, for each tag, the tag of the same name in the target
+ * workspace. Created ones keep their color.
+ */
+export const mapTagsByName = async (
+  tagIds: Id[],
+  targetWorkspaceId: Id,
+  userId: Id
+): Promise<IdMap> => {
+  const mapping: IdMap = new Map();
+  const tags = await Tag.find({ _id: { $in: tagIds } });
+
+  for (const tag of tags) {
+    const target = await Tag.findOneAndUpdate(
+      { workspaceId: targetWorkspaceId, name: tag.name },
+      { $setOnInsert: { color: tag.color, createdBy: userId } },
+      { upsert: true, new: true, collation: TAG_NAME_COLLATION }
+    );
+    mapping.set(String(tag._id), target._id as mongoose.Types.ObjectId);
+  }
+
+  return mapping;
+};
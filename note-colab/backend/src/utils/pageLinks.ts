@@ -0,0 +1,267 @@
+/**
+ * Wiki links between pages.
+ *
+ * `[[Page Title]]` in a page's content, or `[[Page Title|label]]` to show other
+ * text, links to the page with that title in the same workspace, ignoring case.
+ * When several live pages share the title, the oldest one is the target.
+ *
+ * Every save records the titles a page links to in PageLink, so backlinks and
+ * broken links are answered from the index instead of reading every page.
+ * Renaming a page rewrites the links that pointed at it. The index is derived
+ * from content that is already saved, so failing to update it never fails the
+ * request: errors are logged and the next save of the page repairs it.
+ */
+
+import mongoose from 'mongoose';
+import { CommonStatus, IPage, MAX_PAGE_CONTENT_LENGTH, Page } from '@/models/pages';
+import { PageLink } from '@/models/pageLinks';
+import { recordPageRevision } from './recordPageRevision';
+
+type Id = string | mongoose.Types.ObjectId;
+
+// The title may not contain brackets, `|` or line breaks; the label may not contain brackets
+export const WIKI_LINK_PATTERN = /\[\[([^[\]|\n]+)(?:\|([^[\]\n]+))?\]\]/g;
+
+export interface WikiLink {
+  title: string;
+  label?: string;
+}
+
+export interface LinkTarget {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+}
+
+export const linkKey = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Whether `[[title]]` can be written for a page of this title
+ */
+export const isLinkableTitle = (title: string) => !/[[\]|\n]/.test(title) && !!title.trim();
+
+/**
+ * The links in `content`, in order, repeats included
+ */
+export const parseWikiLinks = (content: string): WikiLink[] =>
+  [...content.matchAll(WIKI_LINK_PATTERN)]
+    .map(([, title, label]) => ({ title: title.trim(), label: label?.trim() || undefined }))
+    .filter(link => link.title);
+
+/**
+ * The page each of `titles` links to, by link key; titles that link nowhere are left out
+ */
+export const resolveLinkTitles = async (
+  workspaceId: Id,
+  titles: string[]
+): Promise<Map<string, LinkTarget>> => {
+  const targets = new Map<string, LinkTarget>();
+  const unique = [...new Set(titles.map(title => title.trim()).filter(Boolean))];
+  if (unique.length === 0) {
+    return targets;
+  }
+
+  // Compared without case by the collation, then keyed the same way as the links
+  const pages = await Page.find({
+    workspaceId,
+    status: { $ne: CommonStatus.DELETED },
+    title: { $in: unique },
+  })
+    .collation({ locale: 'en', strength: 2 })
+    .select('title createdAt')
+    .sort({ createdAt: 1, _id: 1 });
+
+  for (const page of pages) {
+    const key = linkKey(page.title);
+    if (!targets.has(key)) {
+      targets.set(key, { _id: page._id as mongoose.Types.ObjectId, title: page.title });
+    }
+  }
+  return targets;
+};
+
+/**
+ * Where links in the editor go: the workspace page with the target selected
+ */
+export const linkHref = (workspaceId: Id, target: LinkTarget) =>
+  `/workspaces/${workspaceId}?page=${target._id}`;
+
+/**
+ * Resolves the links of `content` for rendering, see `renderMarkdown`
+ */
+export const wikiLinkResolver = async (workspaceId: Id, content: string | undefined | null) => {
+  const targets = await resolveLinkTitles(
+    workspaceId,
+    parseWikiLinks(content ?? '').map(link => link.title)
+  );
+  return (title: string) => {
+    const target = targets.get(linkKey(title));
+    return target ? linkHref(workspaceId, target) : null;
+  };
+};
+
+/**
+ * Whether links to the page's title reach this page, rather than an older one of the same title
+ */
+export const isLinkTarget = async (page: Pick<IPage, '_id' | 'workspaceId' | 'title'>) => {
+  const target = (await resolveLinkTitles(page.workspaceId, [page.title])).get(linkKey(page.title));
+  return !!target && String(target._id) === String(page._id);
+};
+
+const logFailure = (error: unknown) => {
+  console.error('Updating the page link index failed:', error);
+};
+
+/**
+ * Records the links of a page's current content, replacing what was recorded before
+ */
+export const indexPageLinks = async (
+  page: Pick<IPage, '_id' | 'workspaceId' | 'content'>
+): Promise<void> => {
+  try {
+    const links = new Map<string, string>();
+    for (const { title } of parseWikiLinks(page.content ?? '')) {
+      if (!links.has(linkKey(title))) {
+        links.set(linkKey(title), title);
+      }
+    }
+
+    await PageLink.deleteMany({ sourceId: page._id, key: { $nin: [...links.keys()] } });
+    if (links.size > 0) {
+      await PageLink.bulkWrite(
+        [...links].map(([key, title]) => ({
+          updateOne: {
+            filter: { sourceId: page._id, key },
+            update: { $set: { title }, $setOnInsert: { workspaceId: page.workspaceId } },
+            upsert: true,
+          },
+        })),
+        { ordered: false }
+      );
+    }
+  } catch (error) {
+    logFailure(error);
+  }
+};
+
+/**
+ * Live pages that link to the page, by title
+ */
+export const findBacklinks = async (page: Pick<IPage, '_id' | 'workspaceId' | 'title'>) => {
+  if (!(await isLinkTarget(page))) {
+    return [];
+  }
+  const sourceIds = await PageLink.find({
+    workspaceId: page.workspaceId,
+    key: linkKey(page.title),
+    sourceId: { $ne: page._id },
+  }).distinct('sourceId');
+
+  return Page.find({ _id: { $in: sourceIds }, status: { $ne: CommonStatus.DELETED } })
+    .select('title updatedAt')
+    .sort({ title: 1 });
+};
+
+/**
+ * Live pages of the workspace with links to titles no live page has
+ */
+export const findBrokenLinks = async (workspaceId: Id) => {
+  const links = await PageLink.find({ workspaceId }).select('sourceId key title');
+  const targets = await resolveLinkTitles(
+    workspaceId,
+    links.map(link => link.title)
+  );
+  const broken = links.filter(link => !targets.has(link.key));
+
+  const sources = await Page.find({
+    _id: { $in: [...new Set(broken.map(link => String(link.sourceId)))] },
+    status: { $ne: CommonStatus.DELETED },
+  })
+    .select('title')
+    .sort({ title: 1 });
+
+  return sources.map(source => ({
+    page: { _id: source._id, title: source.title },
+    titles: broken
+      .filter(link => String(link.sourceId) === String(source._id))
+      .map(link => link.title),
+  }));
+};
+
+/**
+ * Points the links to `from` in `content` at `to`, keeping their labels
+ */
+export const rewriteWikiLinks = (content: string, from: string, to: string): string =>
+  content.replace(WIKI_LINK_PATTERN, (link, title: string, label?: string) =>
+    linkKey(title) === linkKey(from) ? `[[${to}${label ? `|${label}` : ''}]]` : link
+  );
+
+interface RenameEvent {
+  workspaceId: Id;
+  pageId: Id;
+  from: string;
+  to: string;
+  userId: string;
+  author: string;
+}
+
+const MAX_REWRITE_ATTEMPTS = 3;
+
+/**
+ * After a page was renamed from `from` to `to`, rewrites the links to it in the
+ * other pages of the workspace, trashed ones included so they still work once
+ * restored. Each rewritten page gets a new version and revision like any save.
+ * A page the longer title would push over the content limit keeps the old link.
+ * Returns the pages that changed, each with the version it replaced.
+ */
+export const renamePageLinks = async ({
+  workspaceId,
+  pageId,
+  from,
+  to,
+  userId,
+  author,
+}: RenameEvent): Promise<{ before: IPage; page: IPage }[]> => {
+  const rewritten: { before: IPage; page: IPage }[] = [];
+  if (!isLinkableTitle(to)) {
+    return rewritten;
+  }
+
+  try {
+    const sourceIds = await PageLink.find({
+      workspaceId,
+      key: linkKey(from),
+      sourceId: { $ne: pageId },
+    }).distinct('sourceId');
+
+    for (const sourceId of sourceIds) {
+      for (let attempt = 0; attempt < MAX_REWRITE_ATTEMPTS; attempt++) {
+        const source = await Page.findById(sourceId);
+        if (!source) {
+          break;
+        }
+        const content = rewriteWikiLinks(source.content ?? '', from, to);
+        if (content === (source.content ?? '') || content.length > MAX_PAGE_CONTENT_LENGTH) {
+          break;
+        }
+
+        await recordPageRevision(source);
+        const page = await Page.findOneAndUpdate(
+          { _id: sourceId, __v: source.__v },
+          { $set: { content, updatedBy: userId }, $inc: { __v: 1 } },
+          { new: true, runValidators: true }
+        );
+        // Saved by someone else in between; try again on their version
+        if (!page) {
+          continue;
+        }
+        await recordPageRevision(page, { author });
+        await indexPageLinks(page);
+        rewritten.push({ before: source, page });
+        break;
+      }
+    }
+  } catch (error) {
+    logFailure(error);
+  }
+  return rewritten;
+};
@@ -0,0 +1,173 @@
+/**
+ * Manual page order.
+ *
+ * Siblings (pages of one workspace under the same parent) are sorted by their
+ * fractional `position` key, with `_id` breaking ties. Placing a page computes
+ * a key between its new neighbours and writes only that page.
+ */
+
+import mongoose from 'mongoose';
+import { CommonStatus, IPage, Page } from '@/models/pages';
+import { generateKeyBetween, generateNKeysBetween } from './fractionalIndex';
+
+export const POSITION_SORT = { position: 1, _id: 1 } as const;
+
+type ParentId = string | mongoose.Types.ObjectId | null | undefined;
+
+const MAX_PLACE_ATTEMPTS = 3;
+
+const siblingsOf = (workspaceId: unknown, parentId: ParentId, excludeId?: unknown) => ({
+  workspaceId,
+  parentId: parentId ?? null,
+  status: { $ne: CommonStatus.DELETED },
+  position: { $ne: null },
+  ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+});
+
+/**
+ * A key before every current sibling
+ */
+export const positionAtStart = async (
+  workspaceId: unknown,
+  parentId: ParentId,
+  excludeId?: unknown
+): Promise<string> => {
+  const first = await Page.findOne(siblingsOf(workspaceId, parentId, excludeId))
+    .sort(POSITION_SORT)
+    .select('position');
+  return generateKeyBetween(null, first?.position ?? null);
+};
+
+/**
+ * A key after every current sibling
+ */
+export const positionAtEnd = async (
+  workspaceId: unknown,
+  parentId: ParentId,
+  excludeId?: unknown
+): Promise<string> => {
+  const last = await Page.findOne(siblingsOf(workspaceId, parentId, excludeId))
+    .sort({ position: -1, _id: -1 })
+    .select('position');
+  return generateKeyBetween(last?.position ?? null, null);
+};
+
+/**
+ * `count` keys that follow `position` directly, before the next sibling
+ */
+export const positionsAfter = async (
+  workspaceId: unknown,
+  parentId: ParentId,
+  position: string | null | undefined,
+  count: number
+): Promise<string[]> => {
+  if (!position) {
+    const start = await positionAtEnd(workspaceId, parentId);
+    return generateNKeysBetween(null, start, count + 1).slice(1);
+  }
+  const next = await Page.findOne({
+    ...siblingsOf(workspaceId, parentId),
+    position: { $gt: position },
+  })
+    .sort(POSITION_SORT)
+    .select('position');
+  return generateNKeysBetween(position, next?.position ?? null, count);
+};
+
+/**
+ * Puts a page under `parentId`, directly after the sibling `afterId`; null puts it
+ * first and undefined last.
+ *
+ * Two concurrent placements into the same gap compute the same key. After writing,
+ * a page that finds its key taken re-reads its neighbours and tries again; if that
+ * keeps failing the `_id` tie-break still gives every client the same order.
+ */
+export const placePage = async (
+  page: Pick<IPage, '_id' | 'workspaceId'>,
+  parentId: ParentId,
+  afterId: string | null | undefined,
+  updatedBy: string
+): Promise<IPage | null> => {
+  let placed: IPage | null = null;
+
+  for (let attempt = 0; attempt < MAX_PLACE_ATTEMPTS; attempt++) {
+    let position: string;
+    if (afterId === undefined) {
+      position = await positionAtEnd(page.workspaceId, parentId, page._id);
+    } else if (afterId) {
+      const after = await Page.findOne({ _id: afterId, ...siblingsOf(page.workspaceId, parentId) });
+      if (!after) {
+        // The anchor was moved or deleted meanwhile; fall back to the end
+        position = await positionAtEnd(page.workspaceId, parentId, page._id);
+      } else {
+        const next = await Page.findOne({
+          ...siblingsOf(page.workspaceId, parentId, page._id),
+          position: { $gt: after.position },
+        })
+          .sort(POSITION_SORT)
+          .select('position');
+        position = generateKeyBetween(after.position!, next?.position ?? null);
+      }
+    } else {
+      position = await positionAtStart(page.workspaceId, parentId, page._id);
+    }
+
+    placed = await Page.findOneAndUpdate(
+      { _id: page._id, status: { $ne: CommonStatus.DELETED } },
+      { $set: { parentId: parentId ?? null, position, updatedBy } },
+      { new: true }
+    );
+    if (!placed) {
+      return null;
+    }
+
+    const taken = await Page.exists({
+      ...siblingsOf(page.workspaceId, parentId, page._id),
+      position,
+    });
+    if (!taken) {
+      break;
+    }
+  }
+
+  return placed;
+};
+
+/**
+ * Gives pages created before manual ordering existed a position, keeping their
+ * old newest-first order ahead of any positioned siblings
+ */
+export const backfillPagePositions = async (): Promise<number> => {
+  const pages = await Page.find({ position: null })
+    .select('workspaceId parentId')
+    .sort({ createdAt: -1, _id: -1 })
+    .lean();
+
+  const groups = new Map<string, typeof pages>();
+  pages.forEach(page => {
+    const key = `${page.workspaceId}:${page.parentId ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), page]);
+  });
+
+  for (const group of groups.values()) {
+    const { workspaceId, parentId } = group[0];
+    const first = await Page.findOne({
+      workspaceId,
+      parentId: parentId ?? null,
+      position: { $ne: null },
+    })
+      .sort(POSITION_SORT)
+      .select('position');
+    const keys = generateNKeysBetween(null, first?.position ?? null, group.length);
+    await Page.bulkWrite(
+      group.map((page, index) => ({
+        updateOne: {
+          filter: { _id: page._id, position: null },
+          update: { $set: { position: keys[index] } },
+        },
+      }))
+    );
+  }
+
+  return pages.length;
+};
@@ -0,0 +1,66 @@
+/**
+ * Keeps `[[links]]` to a page working when its title changes, whether through
+ * `PUT` or a revision restore. The page's own content is rewritten in the same
+ * save (`relinkOwnContent`), the pages linking to it once that is saved
+ * (`relinkRenamedPage`).
+ */
+
+import { Request } from 'express';
+import { CommonStatus, IPage, MAX_PAGE_CONTENT_LENGTH } from '@/models/pages';
+import { AuditAction } from '@/models/auditEvents';
+import { emitPageEvent } from '@/realtime/pageEvents';
+import { syncPageDocument } from '@/realtime/collabDocuments';
+import { pageAudit, recordAudit, requestActor } from '@/utils/audit';
+import {
+  isLinkableTitle,
+  isLinkTarget,
+  linkKey,
+  renamePageLinks,
+  rewriteWikiLinks,
+} from '@/utils/pageLinks';
+
+/**
+ * The title links have to be moved away from when `page` is saved as `title`, or
+ * null: for case changes, which links still match, and pages no link reaches
+ */
+export const renameSource = async (page: IPage, title: string | undefined) =>
+  title !== undefined && linkKey(title) !== linkKey(page.title) && (await isLinkTarget(page))
+    ? page.title
+    : null;
+
+/**
+ * `content` with its links from the old title moved to the new one, unless the new
+ * title cannot be linked or the content would go over the limit
+ */
+export const relinkOwnContent = (content: string, from: string, to: string) => {
+  if (!isLinkableTitle(to)) {
+    return content;
+  }
+  const relinked = rewriteWikiLinks(content, from, to);
+  return relinked.length <= MAX_PAGE_CONTENT_LENGTH ? relinked : content;
+};
+
+/**
+ * Rewrites the links in other pages after `page` was saved under a new title, with
+ * an audit event and a live update for each page rewritten
+ */
+export const relinkRenamedPage = async (req: Request, page: IPage, from: string) => {
+  const relinked = await renamePageLinks({
+    workspaceId: page.workspaceId,
+    pageId: String(page._id),
+    from,
+    to: page.title,
+    userId: req.user!.id,
+    author: req.user!.name,
+  });
+  await recordAudit(
+    requestActor(req),
+    relinked.map(({ before, page: after }) => pageAudit(AuditAction.UPDATED, { before, after }))
+  );
+  for (const { page: source } of relinked) {
+    syncPageDocument(String(source._id), source.content || '');
+    if (source.status !== CommonStatus.DELETED) {
+      emitPageEvent(req, 'page.updated', source);
+    }
+  }
+};
@@ -0,0 +1,19 @@
+import mongoose from 'mongoose';
+import { IPage, PageFormat } from '@/models/pages';
+import { renderMarkdown } from '@/utils/markdown';
+import { wikiLinkResolver } from '@/utils/pageLinks';
+
+/**
+ * A single page as sent to clients: markdown pages also carry their content
+ * rendered to sanitized HTML, with `[[links]]` to other pages resolved
+ */
+export const toPageResponse = async (
+  page: IPage,
+  workspaceId: string | mongoose.Types.ObjectId = page.workspaceId
+) =>
+  page.format === PageFormat.MARKDOWN
+    ? {
+        ...page.toJSON(),
+        html: renderMarkdown(page.content, await wikiLinkResolver(workspaceId, page.content)),
+      }
+    : page;
@@ -0,0 +1,74 @@
+/**
+ * Fills page templates in when a page is created from one
+ */
+
+import { PageFormat } from '@/models/pages';
+import { PageTemplate } from '@/models/pageTemplates';
+import { Workspace } from '@/models/wrokspace';
+import { sanitizeString } from './sanitize';
+import { sanitizePageContent } from './markdown';
+
+export const TEMPLATE_VARIABLES = ['date', 'workspace', 'counter'] as const;
+
+export type TemplateValues = Record<(typeof TEMPLATE_VARIABLES)[number], string>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Replaces `{{name}}` placeholders; unknown ones are left as they are
+ */
+export const fillTemplate = (text: string, values: TemplateValues) =>
+  text.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name as keyof TemplateValues] : placeholder
+  );
+
+/**
+ * Title, content and format for a new page made from a template, or null when
+ * the workspace has no such template. Takes the next `{{counter}}` value even if
+ * the page is not created in the end, so numbers can have gaps but never repeat.
+ */
+export const instantiateTemplate = async (workspaceId: string, templateId: string) => {
+  const template = await PageTemplate.findOneAndUpdate(
+    { _id: templateId, workspaceId },
+    { $inc: { counter: 1 } },
+    { new: true }
+  );
+  if (!template) return null;
+
+  const workspace = await Workspace.findById(workspaceId).select('title').lean();
+  const values: TemplateValues = {
+    date: new Date().toISOString().slice(0, 10),
+    workspace: workspace?.title ?? '',
+    counter: String(template.counter),
+  };
+
+  return {
+    title: sanitizeString(fillTemplate(template.title, values)).slice(0, 100),
+    content: sanitizePageContent(fillTemplate(template.content, values), template.format),
+    format: template.format,
+  };
+};
+
+// What the seeder puts in every workspace, after the page kinds teams write most
+export const DEFAULT_PAGE_TEMPLATES = [
+  {
+    name: 'Sprint Planning',
+    title: 'Sprint {{counter}} Planning',
+    content: '## Goals\n\n- \n\n## Capacity\n\n## Committed\n\n- [ ] \n\n## Risks\n',
+    format: PageFormat.MARKDOWN,
+  },
+  {
+    name: 'Meeting Notes',
+    title: 'Meeting Notes - {{date}}',
+    content:
+      '**Date:** {{date}}\n**Attendees:** \n\n## Agenda\n\n1. \n\n## Notes\n\n## Action items\n\n- [ ] \n',
+    format: PageFormat.MARKDOWN,
+  },
+  {
+    name: 'Tech Spec',
+    title: 'Tech Spec #{{counter}}',
+    content:
+      '# {{workspace}} Tech Spec\n\n## Context\n\n## Proposal\n\n## Alternatives\n\n## Rollout\n',
+    format: PageFormat.MARKDOWN,
+  },
+];
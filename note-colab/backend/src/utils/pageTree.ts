@@ -0,0 +1,77 @@
+/**
+ * Helpers for nested pages.
+ *
+ * Each page stores only its `parentId`; the tree is assembled from a flat list
+ * and subtrees are walked level by level.
+ */
+
+import mongoose, { FilterQuery } from 'mongoose';
+import { CommonStatus, IPage, Page } from '@/models/pages';
+
+type TreeSource = { _id: unknown; parentId?: unknown };
+
+export type PageTreeNode<T extends TreeSource> = T & { children: PageTreeNode<T>[] };
+
+/**
+ * Nests a flat list of pages under their parents, keeping the list's order among siblings.
+ * Pages whose parent is not in the list (e.g. an inactive parent) become roots.
+ */
+export const buildPageTree = <T extends TreeSource>(pages: T[]): PageTreeNode<T>[] => {
+  const nodes = new Map<string, PageTreeNode<T>>(
+    pages.map(page => [String(page._id), { ...page, children: [] }])
+  );
+  const roots: PageTreeNode<T>[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(String(node.parentId)) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  return roots;
+};
+
+/**
+ * IDs of all pages below `pageId`, descending only through pages that match `filter`
+ */
+export const getDescendantIds = async (
+  pageId: string,
+  filter: FilterQuery<IPage> = { status: { $ne: CommonStatus.DELETED } }
+): Promise<mongoose.Types.ObjectId[]> => {
+  const descendants: mongoose.Types.ObjectId[] = [];
+  let level: unknown[] = [pageId];
+
+  while (level.length > 0) {
+    const children = (await Page.find({ ...filter, parentId: { $in: level } }).distinct(
+      '_id'
+    )) as mongoose.Types.ObjectId[];
+    // Guards against loops left behind by a concurrent move
+    const fresh = children.filter(id => !descendants.some(seen => seen.equals(id)));
+    descendants.push(...fresh);
+    level = fresh;
+  }
+
+  return descendants;
+};
+
+/**
+ * Whether `pageId` is `candidateId` itself or one of its ancestors, i.e. whether
+ * making `candidateId` the parent of `pageId` would close a cycle
+ */
+export const isSelfOrAncestor = async (pageId: string, candidateId: string): Promise<boolean> => {
+  const visited = new Set<string>();
+  let current: string | null = candidateId;
+
+  while (current && !visited.has(current)) {
+    if (current === pageId) {
+      return true;
+    }
+    visited.add(current);
+    const page: { parentId?: unknown } | null = await Page.findById(current)
+      .select('parentId')
+      .lean();
+    current = page?.parentId ? String(page.parentId) : null;
+  }
+
+  // Revisiting a page means the chain already loops
+  return current !== null;
+};
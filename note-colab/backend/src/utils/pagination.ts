@@ -0,0 +1,151 @@
+/**
+ * Opaque cursor pagination for list endpoints.
+ *
+ * Results are ordered by the requested field and then by `_id`, so every item
+ * has a unique position. The cursor is that position for the last item of a
+ * page (sort value and id, base64url-encoded JSON); the next request continues
+ * strictly after it, which stays stable while items are added or removed.
+ */
+
+import { FilterQuery, HydratedDocument, Model } from 'mongoose';
+
+export const SORT_OPTIONS = [
+  'createdAt',
+  '-createdAt',
+  'updatedAt',
+  '-updatedAt',
+  'title',
+  '-title',
+] as const;
+
+export type SortOption = (typeof SORT_OPTIONS)[number];
+
+// Pages can also be listed in their manual order
+export const PAGE_SORT_OPTIONS = [...SORT_OPTIONS, 'position'] as const;
+
+export type PageSortOption = (typeof PAGE_SORT_OPTIONS)[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const DATE_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+interface CursorPosition {
+  // Null for documents without a value, e.g. pages that have no position
+  value: string | null;
+  id: string;
+}
+
+export interface PaginationParams {
+  limit: number;
+  cursor?: string;
+  sort: SortOption | PageSortOption;
+}
+
+export interface PaginatedResult<T> {
+  items: HydratedDocument<T>[];
+  nextCursor: string | null;
+}
+
+export const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+export const decodeCursor = (cursor: string): CursorPosition | null => {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      (typeof position?.value === 'string' || position?.value === null) &&
+      typeof position?.id === 'string' &&
+      /^[0-9a-fA-F]{24}$/.test(position.id)
+    ) {
+      return position;
+    }
+  } catch {
+    // Fall through: anything we did not issue is rejected
+  }
+  return null;
+};
+
+/**
+ * Ranked results (e.g. search) have no stable sort key, so they page by offset
+ * behind the same kind of opaque cursor
+ */
+export const encodeOffsetCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+export const decodeOffsetCursor = (cursor: string): number | null => {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Documents strictly after the cursor's (`field`, `_id`) in the sort order.
+ * MongoDB sorts nulls before every value but its range operators never match
+ * them, so they are handled on their own.
+ */
+const afterCursor = (field: string, direction: 1 | -1, value: unknown, id: string) => {
+  const op = direction === 1 ? '$gt' : '$lt';
+  const sameValue = { [field]: value, _id: { [op]: id } };
+  if (value === null) {
+    return direction === 1 ? { $or: [{ [field]: { $ne: null } }, sameValue] } : sameValue;
+  }
+  return {
+    $or: [
+      { [field]: { [op]: value } },
+      // Descending, the nulls come last
+      ...(direction === -1 ? [{ [field]: null }] : []),
+      sameValue,
+    ],
+  };
+};
+
+/**
+ * Fetches one page of `model` documents matching `filter`
+ */
+export const paginate = async <T>(
+  model: Model<T>,
+  filter: FilterQuery<T>,
+  { limit, cursor, sort }: PaginationParams,
+  projection?: string
+): Promise<PaginatedResult<T>> => {
+  const field = sort.replace(/^-/, '');
+  const direction = sort.startsWith('-') ? -1 : 1;
+  const after = cursor ? decodeCursor(cursor) : null;
+
+  let query: FilterQuery<T> = filter;
+  if (after) {
+    const value =
+      after.value !== null && DATE_FIELDS.has(field) ? new Date(after.value) : after.value;
+    query = { $and: [filter, afterCursor(field, direction, value, after.id)] } as FilterQuery<T>;
+  }
+
+  // One extra document tells whether another page exists
+  const docs = await model
+    .find(query, projection)
+    .sort({ [field]: direction, _id: direction })
+    .limit(limit + 1);
+
+  const items = docs.slice(0, limit);
+  const last = items[items.length - 1];
+  const lastValue = last?.get(field);
+
+  return {
+    items,
+    nextCursor:
+      docs.length > limit && last
+        ? encodeCursor({
+            value:
+              lastValue == null
+                ? null
+                : lastValue instanceof Date
+                  ? lastValue.toISOString()
+                  : String(lastValue),
+            id: String(last._id),
+          })
+        : null,
+  };
+};
@@ -0,0 +1,41 @@
+/**
+ * Snapshot page versions into the revision history
+ */
+
+import { IPage } from '@/models/pages';
+import { PageRevision } from '@/models/pageRevisions';
+
+interface RecordRevisionOptions {
+  author?: string;
+  restoredFrom?: number;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Stores the current state of a page as an immutable revision.
+ * Writing the same version twice is a no-op, so callers can use it to
+ * backfill history for pages created before revisions existed.
+ */
+export const recordPageRevision = async (
+  page: IPage & { __v?: number },
+  options: RecordRevisionOptions = {}
+): Promise<void> => {
+  try {
+    await PageRevision.create({
+      pageId: page._id,
+      workspaceId: page.workspaceId,
+      version: page.__v ?? 0,
+      title: page.title,
+      content: page.content,
+      format: page.format,
+      author: options.author,
+      restoredFrom: options.restoredFrom,
+    });
+  } catch (error) {
+    if ((error as { code?: unknown })?.code === DUPLICATE_KEY_ERROR) {
+      return;
+    }
+    throw error;
+  }
+};
@@ -1,8 +1,9 @@
 /**
- * Retry MongoDB operations with exponential backoff
+ * Retry MongoDB operations with exponential backoff. The backoff itself is
+ * shared with other retried work, such as webhook deliveries.
  */
 
-interface RetryOptions {
+export interface RetryOptions {
   maxRetries?: number;
   initialDelay?: number;
   maxDelay?: number;
@@ -24,24 +25,38 @@ const delay = (ms: number): Promise<void> => {
   return new Promise(resolve => setTimeout(resolve, ms));
 };
 
-export const retryMongoOperation = async <T>(
-  operation: () => Promise<T>,
-  options: RetryOptions = {}
+export interface BackoffOptions extends RetryOptions {
+  // Whether a failure is worth another attempt; any other failure is thrown right away
+  shouldRetry: (error: unknown) => boolean;
+}
+
+/**
+ * Runs `operation` until it succeeds, waiting exponentially longer between
+ * attempts, for as long as its failures are worth retrying
+ */
+export const retryWithBackoff = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: BackoffOptions
 ): Promise<T> => {
-  console.log("retryMongoOperation>>");
-  const { maxRetries = 3, initialDelay = 1000, maxDelay = 10000, backoffMultiplier = 2 } = options;
+  const {
+    maxRetries = 3,
+    initialDelay = 1000,
+    maxDelay = 10000,
+    backoffMultiplier = 2,
+    shouldRetry,
+  } = options;
 
-  let lastError: any;
+  let lastError: unknown;
   let currentDelay = initialDelay;
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      return await operation();
-    } catch (error: any) {
+      return await operation(attempt);
+    } catch (error) {
       lastError = error;
 
-      // Don't retry if it's not a connection error
-      if (!isMongoConnectionError(error)) {
+      // Don't retry errors that would only fail again
+      if (!shouldRetry(error)) {
         throw error;
       }
 
@@ -60,3 +75,11 @@ export const retryMongoOperation = async <T>(
   // If we get here, all retries failed
   throw lastError;
 };
+
+export const retryMongoOperation = async <T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  console.log('retryMongoOperation>>');
+  return retryWithBackoff(operation, { ...options, shouldRetry: isMongoConnectionError });
+};
@@ -2,7 +2,10 @@ import DOMPurify, { WindowLike } from 'dompurify';
 import { JSDOM } from 'jsdom';
 
 const window = new JSDOM('').window;
-const purify = DOMPurify(window as unknown as WindowLike);
+export const purify = DOMPurify(window as unknown as WindowLike);
+
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTERS = /[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g;
 
 /**
  * Sanitizes a string by:
@@ -26,7 +29,7 @@ export function sanitizeString(input: string | undefined | null): string {
   sanitized = sanitized.replace(/\s+/g, ' ');
 
   // Remove control characters (except newline, tab, carriage return)
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+  sanitized = sanitized.replace(CONTROL_CHARACTERS, '');
 
   return sanitized;
 }
@@ -50,8 +53,20 @@ export function sanitizeContent(input: string | undefined | null): string {
   sanitized = sanitized.replace(/[ \t]+/g, ' ');
 
   // Remove control characters (except newline, tab, carriage return)
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+  sanitized = sanitized.replace(CONTROL_CHARACTERS, '');
 
   return sanitized;
 }
 
+/**
+ * Sanitizes markdown source. The source is never served as HTML, only rendered
+ * through the markdown allowlist (utils/markdown.ts), so `<`, `>` and indentation
+ * are kept as typed.
+ */
+export function sanitizeMarkdown(input: string | undefined | null): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  return input.trim().replace(CONTROL_CHARACTERS, '');
+}
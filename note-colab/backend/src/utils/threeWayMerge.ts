@@ -0,0 +1,69 @@
+/**
+ * Line-based three-way merge for page fields
+ */
+
+import { diff3Merge } from 'node-diff3';
+
+export interface MergeHunk {
+  type: 'ok' | 'conflict';
+  lines?: string[];
+  base?: string[];
+  server?: string[];
+  client?: string[];
+}
+
+export interface FieldMergeResult {
+  conflict: boolean;
+  merged: string;
+  hunks: MergeHunk[];
+}
+
+const SERVER_MARKER = '<<<<<<< server';
+const SEPARATOR_MARKER = '=======';
+const CLIENT_MARKER = '>>>>>>> yours';
+
+const toLines = (value: string): string[] => (value === '' ? [] : value.split('\n'));
+
+/**
+ * Merges the client's edit into the current server value using the version
+ * both started from. Edits that touch different lines are combined; lines
+ * changed differently on both sides become conflict hunks, and `merged`
+ * carries git-style markers around them.
+ */
+export const mergeField = (base: string, server: string, client: string): FieldMergeResult => {
+  if (server === client || client === base) {
+    return { conflict: false, merged: server, hunks: [{ type: 'ok', lines: toLines(server) }] };
+  }
+  if (server === base) {
+    return { conflict: false, merged: client, hunks: [{ type: 'ok', lines: toLines(client) }] };
+  }
+
+  const regions = diff3Merge(toLines(server), toLines(base), toLines(client));
+  const hunks: MergeHunk[] = [];
+  const mergedLines: string[] = [];
+  let conflict = false;
+
+  for (const region of regions) {
+    if (region.ok) {
+      hunks.push({ type: 'ok', lines: region.ok });
+      mergedLines.push(...region.ok);
+    } else if (region.conflict) {
+      conflict = true;
+      hunks.push({
+        type: 'conflict',
+        base: region.conflict.o,
+        server: region.conflict.a,
+        client: region.conflict.b,
+      });
+      mergedLines.push(
+        SERVER_MARKER,
+        ...region.conflict.a,
+        SEPARATOR_MARKER,
+        ...region.conflict.b,
+        CLIENT_MARKER
+      );
+    }
+  }
+
+  return { conflict, merged: mergedLines.join('\n'), hunks };
+};
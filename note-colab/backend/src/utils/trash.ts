@@ -0,0 +1,179 @@
+/**
+ * Trash handling for workspaces and pages.
+ *
+ * Deleting only marks a document as `CommonStatus.DELETED` with a `deletedAt`
+ * timestamp. It can be restored until it is purged, either by hand or by the
+ * periodic sweep once it has been in the trash for TRASH_RETENTION_DAYS.
+ */
+
+import { env } from '@/config/env';
+import { CommonStatus, Page } from '@/models/pages';
+import { PageRevision } from '@/models/pageRevisions';
+import { PageComment } from '@/models/pageComments';
+import { Notification } from '@/models/notifications';
+import { PageWatcher } from '@/models/pageWatchers';
+import { ShareLink } from '@/models/shareLinks';
+import { PageLink } from '@/models/pageLinks';
+import { Workspace } from '@/models/wrokspace';
+import { deleteAttachments } from '@/utils/attachments';
+import { discardPageDocument, discardWorkspaceDocuments } from '@/realtime/collabDocuments';
+import { closeWorkspaceSockets } from '@/realtime/socketServer';
+import { POSITION_SORT, positionAtEnd } from '@/utils/pageOrder';
+import { generateNKeysBetween } from '@/utils/fractionalIndex';
+import { AuditAction } from '@/models/auditEvents';
+import { AuditActor, pageAudit, recordAudit, SYSTEM_ACTOR, workspaceAudit } from '@/utils/audit';
+
+const DAY = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+export const trashFields = (userId: string) => ({
+  status: CommonStatus.DELETED,
+  deletedAt: new Date(),
+  updatedBy: userId,
+});
+
+export const restoreFields = (userId: string) => ({
+  status: CommonStatus.ACTIVE,
+  deletedAt: null,
+  updatedBy: userId,
+});
+
+/**
+ * Permanently removes a page with its history, comments, notifications, watchers,
+ * share links, attachments, outgoing links and live document.
+ * Trashed subpages go with it; any live ones move to the end of the top level.
+ * `actor` is who purged it, for the audit trail.
+ */
+export const purgePage = async (
+  pageId: string,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<void> => {
+  // Live children go after the last top-level page, in their own order
+  const liveChildren = await Page.find({
+    parentId: pageId,
+    status: { $ne: CommonStatus.DELETED },
+  }).sort(POSITION_SORT);
+  if (liveChildren.length > 0) {
+    const first = await positionAtEnd(liveChildren[0].workspaceId, null);
+    const positions = [first, ...generateNKeysBetween(first, null, liveChildren.length - 1)];
+    await Page.bulkWrite(
+      liveChildren.map((child, index) => ({
+        updateOne: {
+          filter: { _id: child._id },
+          update: { $set: { parentId: null, position: positions[index] } },
+        },
+      }))
+    );
+    const moved = await Page.find({ _id: { $in: liveChildren.map(child => child._id) } });
+    await recordAudit(
+      actor,
+      moved.map(child =>
+        pageAudit(AuditAction.UPDATED, {
+          before: liveChildren.find(previous => String(previous._id) === String(child._id)),
+          after: child,
+        })
+      )
+    );
+  }
+  const trashedChildren = await Page.find({
+    parentId: pageId,
+    status: CommonStatus.DELETED,
+  }).distinct('_id');
+  for (const childId of trashedChildren) {
+    await purgePage(String(childId), actor);
+  }
+
+  const page = await Page.findOneAndDelete({ _id: pageId });
+  if (page) {
+    await recordAudit(actor, pageAudit(AuditAction.PURGED, { before: page }));
+  }
+  await PageRevision.deleteMany({ pageId });
+  await PageComment.deleteMany({ pageId });
+  await Notification.deleteMany({ pageId });
+  await PageWatcher.deleteMany({ pageId });
+  await ShareLink.deleteMany({ pageId });
+  await PageLink.deleteMany({ sourceId: pageId });
+  await deleteAttachments({ pageId });
+  await discardPageDocument(pageId);
+};
+
+/**
+ * Disconnects everyone from a trashed or purged workspace. Sockets are only
+ * authorized when they connect, so open ones would otherwise keep receiving
+ * events and saving edits.
+ */
+export const closeWorkspaceSessions = (workspaceId: string): void => {
+  discardWorkspaceDocuments(workspaceId);
+  closeWorkspaceSockets(workspaceId, 'Workspace deleted');
+};
+
+/**
+ * Permanently removes a workspace; the model's delete hook cascades to its pages.
+ * Its audit events stay, with the purge as the last one.
+ */
+export const purgeWorkspace = async (
+  workspaceId: string,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<void> => {
+  const workspace = await Workspace.findOneAndDelete({ _id: workspaceId });
+  closeWorkspaceSessions(workspaceId);
+  if (workspace) {
+    await recordAudit(actor, workspaceAudit(AuditAction.PURGED, { before: workspace }));
+  }
+};
+
+/**
+ * Purges everything that has been in the trash for longer than the retention period
+ */
+export const purgeExpiredTrash = async (
+  retentionDays = env.TRASH_RETENTION_DAYS
+): Promise<{ workspaces: number; pages: number }> => {
+  const expired = {
+    status: CommonStatus.DELETED,
+    deletedAt: { $lte: new Date(Date.now() - retentionDays * DAY) },
+  };
+
+  const workspaces = await Workspace.find(expired).select('_id');
+  for (const workspace of workspaces) {
+    await purgeWorkspace(String(workspace._id));
+  }
+
+  const pages = await Page.find(expired).select('_id');
+  for (const page of pages) {
+    await purgePage(String(page._id));
+  }
+
+  return { workspaces: workspaces.length, pages: pages.length };
+};
+
+const runPurge = async () => {
+  try {
+    const purged = await purgeExpiredTrash();
+    if (purged.workspaces || purged.pages) {
+      console.log(
+        `🗑️ Purged ${purged.workspaces} workspace(s) and ${purged.pages} page(s) from the trash`
+      );
+    }
+  } catch (error) {
+    // Most likely the database is down; the next run tries again
+    console.error('Trash purge failed:', error);
+  }
+};
+
+export const startTrashPurge = (): void => {
+  if (purgeTimer) {
+    return;
+  }
+  void runPurge();
+  purgeTimer = setInterval(runPurge, PURGE_INTERVAL);
+  purgeTimer.unref();
+};
+
+export const stopTrashPurge = (): void => {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+};
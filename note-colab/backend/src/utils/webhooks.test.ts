@@ -0,0 +1,237 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import mongoose from 'mongoose';
+import { Webhook } from '@/models/webhooks';
+import { DeliveryStatus, IWebhookDelivery, WebhookDelivery } from '@/models/webhookDeliveries';
+import { deliverWebhook, redeliver } from './webhooks';
+
+const SECRET = 'a-webhook-secret-for-tests';
+
+interface Hit {
+  at: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A local receiver answering the nth request with `answer(n)`, or never when it
+ * returns null
+ */
+const startReceiver = async (answer: (hit: number) => number | null) => {
+  const hits: Hit[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      hits.push({ at: Date.now(), headers: req.headers, body });
+      const status = answer(hits.length);
+      if (status !== null) {
+        res.writeHead(status).end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    hits,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    },
+  };
+};
+
+type Receiver = Awaited<ReturnType<typeof startReceiver>>;
+
+const newDelivery = (payload: object = { id: 'evt_1', event: 'page.updated' }) =>
+  ({
+    _id: new mongoose.Types.ObjectId(),
+    webhookId: new mongoose.Types.ObjectId(),
+    workspaceId: new mongoose.Types.ObjectId(),
+    event: 'page.updated',
+    payload,
+  }) as unknown as IWebhookDelivery;
+
+// Retries a few milliseconds apart instead of minutes
+const FAST_RETRY = { maxRetries: 2, initialDelay: 50, maxDelay: 1000, backoffMultiplier: 2 };
+
+describe('webhook deliveries', () => {
+  let receiver: Receiver | undefined;
+  let webhook: { url: string; secret: string; active: boolean } | null;
+  let updates: Array<{ filter: unknown; update: Record<string, unknown> }>;
+
+  // The delivery's attempt log and final status, as written to the database
+  const attempts = () =>
+    updates.flatMap(({ update }) => {
+      const push = update.$push as {
+        attempts?: { statusCode: number | null; error: string | null };
+      };
+      return push?.attempts ? [push.attempts] : [];
+    });
+  const finalStatus = () =>
+    updates
+      .map(({ update }) => (update.$set as { status?: DeliveryStatus })?.status)
+      .filter(Boolean)
+      .at(-1);
+
+  beforeEach(() => {
+    webhook = null;
+    updates = [];
+    mock.method(Webhook, 'findById', () => ({ select: async () => webhook }));
+    mock.method(
+      WebhookDelivery,
+      'updateOne',
+      async (filter: unknown, update: Record<string, unknown>) => {
+        updates.push({ filter, update });
+        return { acknowledged: true };
+      }
+    );
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await receiver?.close();
+    receiver = undefined;
+  });
+
+  it('signs the timestamp and body with the secret', async () => {
+    receiver = await startReceiver(() => 204);
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+    const delivery = newDelivery();
+
+    await deliverWebhook(delivery, { retry: FAST_RETRY });
+
+    assert.equal(receiver.hits.length, 1);
+    const [{ headers, body }] = receiver.hits;
+    assert.deepEqual(JSON.parse(body), delivery.payload);
+    assert.equal(headers['content-type'], 'application/json');
+    assert.equal(headers['x-webhook-event'], 'page.updated');
+    assert.equal(headers['x-webhook-delivery'], String(delivery._id));
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    assert.ok(Math.abs(timestamp - Date.now() / 1000) < 5);
+    const expected = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+    assert.equal(headers['x-webhook-signature'], `sha256=${expected}`);
+
+    assert.equal(finalStatus(), DeliveryStatus.SUCCEEDED);
+    assert.deepEqual(
+      attempts().map(({ statusCode }) => statusCode),
+      [204]
+    );
+  });
+
+  it('retries 5xx answers with growing waits', async () => {
+    receiver = await startReceiver(hit => (hit < 3 ? 503 : 200));
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+
+    await deliverWebhook(newDelivery(), { retry: FAST_RETRY });
+
+    const [first, second, third] = receiver.hits.map(({ at }) => at);
+    assert.equal(receiver.hits.length, 3);
+    assert.ok(second - first >= 45, `waited ${second - first} ms before the second attempt`);
+    assert.ok(third - second >= 95, `waited ${third - second} ms before the third attempt`);
+    assert.deepEqual(
+      attempts().map(({ statusCode }) => statusCode),
+      [503, 503, 200]
+    );
+    assert.equal(finalStatus(), DeliveryStatus.SUCCEEDED);
+  });
+
+  it('retries when the receiver does not answer in time', async () => {
+    receiver = await startReceiver(hit => (hit === 1 ? null : 200));
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+
+    await deliverWebhook(newDelivery(), { retry: FAST_RETRY, timeout: 200 });
+
+    assert.equal(receiver.hits.length, 2);
+    assert.deepEqual(
+      attempts().map(({ statusCode, error }) => [statusCode, error]),
+      [
+        [null, 'No response within 0.2 seconds'],
+        [200, null],
+      ]
+    );
+    assert.equal(finalStatus(), DeliveryStatus.SUCCEEDED);
+  });
+
+  it('gives up after the last attempt', async () => {
+    receiver = await startReceiver(() => 500);
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+
+    await deliverWebhook(newDelivery(), { retry: FAST_RETRY });
+
+    assert.equal(receiver.hits.length, FAST_RETRY.maxRetries + 1);
+    assert.equal(attempts().length, FAST_RETRY.maxRetries + 1);
+    assert.equal(finalStatus(), DeliveryStatus.FAILED);
+  });
+
+  it('does not retry other answers', async () => {
+    receiver = await startReceiver(() => 404);
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+
+    await deliverWebhook(newDelivery(), { retry: FAST_RETRY });
+
+    assert.equal(receiver.hits.length, 1);
+    assert.equal(attempts()[0].error, 'The receiver answered 404');
+    assert.equal(finalStatus(), DeliveryStatus.FAILED);
+  });
+
+  it('stops retrying once the webhook is paused', async () => {
+    receiver = await startReceiver(() => {
+      webhook!.active = false;
+      return 503;
+    });
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+
+    await deliverWebhook(newDelivery(), { retry: FAST_RETRY });
+
+    assert.equal(receiver.hits.length, 1);
+    assert.equal(attempts()[1].error, 'The webhook is paused');
+    assert.equal(finalStatus(), DeliveryStatus.FAILED);
+  });
+
+  it('refuses internal addresses without retrying', async () => {
+    webhook = { url: 'http://169.254.169.254/latest/meta-data', secret: SECRET, active: true };
+
+    await deliverWebhook(newDelivery(), { retry: FAST_RETRY });
+
+    assert.equal(attempts().length, 1);
+    assert.equal(attempts()[0].error, 'The URL points to an internal address');
+    assert.equal(finalStatus(), DeliveryStatus.FAILED);
+  });
+
+  it('redelivers the payload as a new delivery', async () => {
+    receiver = await startReceiver(() => 200);
+    webhook = { url: receiver.url, secret: SECRET, active: true };
+    const original = newDelivery({ id: 'evt_2', event: 'page.deleted' });
+    const create = mock.method(WebhookDelivery, 'create', async (fields: object) => ({
+      _id: new mongoose.Types.ObjectId(),
+      ...fields,
+    }));
+
+    const delivery = await redeliver(original);
+    // The redelivery is sent in the background
+    for (let waited = 0; !finalStatus() && waited < 2000; waited += 10) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+
+    assert.equal(create.mock.callCount(), 1);
+    assert.deepEqual(create.mock.calls[0].arguments[0], {
+      webhookId: original.webhookId,
+      workspaceId: original.workspaceId,
+      event: original.event,
+      payload: original.payload,
+      redeliveryOf: original._id,
+    });
+    assert.equal(receiver.hits.length, 1);
+    assert.equal(receiver.hits[0].headers['x-webhook-delivery'], String(delivery._id));
+    assert.notEqual(String(delivery._id), String(original._id));
+    assert.deepEqual(JSON.parse(receiver.hits[0].body), original.payload);
+    assert.equal(finalStatus(), DeliveryStatus.SUCCEEDED);
+  });
+});
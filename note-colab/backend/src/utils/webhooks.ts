@@ -0,0 +1,403 @@
+/**
+ * Outgoing webhooks.
+ *
+ * Every audited change (see `recordAudit`) is offered to the active webhooks of
+ * its workspace that subscribe to its event type, e.g. `page.updated`. Each
+ * gets a WebhookDelivery whose JSON payload is POSTed to the webhook's URL,
+ * signed with its secret. While the receiver cannot be reached, times out or
+ * answers 408, 429 or 5xx, the delivery is retried with exponential backoff
+ * (`retryWithBackoff`); any other answer, or the webhook being paused or
+ * deleted in the meantime, ends it. Every attempt is logged on the delivery,
+ * and deliveries still pending when the server stopped are sent again when it
+ * starts.
+ *
+ * The signature is `sha256=` and the hex HMAC-SHA256 of `<timestamp>.<body>`
+ * in `X-Webhook-Signature`, with the timestamp (Unix seconds) in
+ * `X-Webhook-Timestamp` so receivers can turn away old replays.
+ *
+ * Deliveries never reach into the server's own network: a URL whose host is,
+ * or resolves to, a loopback, private or link-local address fails without a
+ * retry. Hosts listed in WEBHOOK_ALLOWED_HOSTS are exempt.
+ */
+
+import { createHmac } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import mongoose from 'mongoose';
+import { env } from '@/config/env';
+import { IAuditEvent } from '@/models/auditEvents';
+import { Webhook, webhookEvent } from '@/models/webhooks';
+import {
+  DeliveryStatus,
+  IDeliveryAttempt,
+  IWebhookDelivery,
+  WebhookDelivery,
+} from '@/models/webhookDeliveries';
+import { RetryOptions, retryWithBackoff } from './retryMongoOperation';
+
+// Waits of 5 s, 15 s, 45 s, 2¼ min and 5 min: six attempts over about 8 minutes
+const DELIVERY_RETRY: RetryOptions = {
+  maxRetries: 5,
+  initialDelay: 5 * 1000,
+  maxDelay: 5 * 60 * 1000,
+  backoffMultiplier: 3,
+};
+
+export const WEBHOOK_TIMEOUT = 10 * 1000;
+
+const RETRYABLE_STATUS = new Set([408, 429]);
+
+type Id = string | mongoose.Types.ObjectId;
+
+class DeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number | null,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+export const signWebhook = (secret: string, timestamp: number, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Loopback, private, shared, link-local (cloud metadata), multicast and reserved
+// ranges. IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const INTERNAL_ADDRESSES = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([network, prefix]) => INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([network, prefix]) => INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const INTERNAL_ADDRESS = 'EINTERNALADDRESS';
+
+export const isInternalAddress = (address: string) =>
+  INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// `new URL` keeps the brackets around IPv6 hosts
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+// Hosts exempt from the checks below, e.g. a local receiver in development and tests
+const isAllowedHost = (host: string) => env.WEBHOOK_ALLOWED_HOSTS.includes(host);
+
+/**
+ * Whether a URL points inside the server's network without resolving it: at
+ * `localhost` or an internal IP. Names that resolve to internal addresses are
+ * refused when delivering.
+ */
+export const isInternalUrl = (url: string) => {
+  const host = hostOf(new URL(url));
+  if (isAllowedHost(host)) {
+    return false;
+  }
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    (isIP(host) !== 0 && isInternalAddress(host))
+  );
+};
+
+/**
+ * Resolves a webhook's host for the connection itself, failing when any of its
+ * addresses is internal. Checking here rather than beforehand means a name
+ * cannot resolve to a public address for the check and an internal one for
+ * the request.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '');
+    }
+    if (addresses.some(({ address }) => isInternalAddress(address))) {
+      const refused: NodeJS.ErrnoException = new Error('The URL resolves to an internal address');
+      refused.code = INTERNAL_ADDRESS;
+      return callback(refused, '');
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const describeRequestError = (error: unknown, timeout: number) => {
+  const { name, code, message } = (error ?? {}) as NodeJS.ErrnoException;
+  if (name === 'AbortError') {
+    return `No response within ${timeout / 1000} seconds`;
+  }
+  return code === INTERNAL_ADDRESS ? message : (code ?? message ?? String(error));
+};
+
+interface WebhookRequest {
+  url: string;
+  secret: string;
+  event: string;
+  deliveryId: Id;
+  body: string;
+  // How long to wait for an answer, in milliseconds
+  timeout?: number;
+}
+
+/**
+ * Posts a delivery once. Resolves with the status of a 2xx answer and throws a
+ * DeliveryError for anything else, telling whether it is worth retrying.
+ * Internal addresses are refused, unless the host is in WEBHOOK_ALLOWED_HOSTS.
+ */
+export const sendWebhook = async ({
+  url,
+  secret,
+  event,
+  deliveryId,
+  body,
+  timeout = WEBHOOK_TIMEOUT,
+}: WebhookRequest): Promise<number> => {
+  const target = new URL(url);
+  const allowed = isAllowedHost(hostOf(target));
+  // IP literals are connected to without a lookup, so they are checked here
+  if (isInternalUrl(url)) {
+    throw new DeliveryError('The URL points to an internal address', null, false);
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  let statusCode: number;
+  try {
+    statusCode = await new Promise<number>((resolve, reject) => {
+      const request = (target.protocol === 'https:' ? https : http).request(
+        target,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            'User-Agent': 'note-colab-webhooks',
+            'X-Webhook-Event': event,
+            'X-Webhook-Delivery': String(deliveryId),
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signWebhook(secret, timestamp, body),
+          },
+          lookup: allowed ? undefined : publicLookup,
+          signal: AbortSignal.timeout(timeout),
+        },
+        response => {
+          // Only the status matters; draining the body frees the connection. A
+          // redirect is an answer like any other: the signed body is not sent on.
+          response.resume();
+          resolve(response.statusCode ?? 0);
+        }
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  } catch (error) {
+    throw new DeliveryError(
+      describeRequestError(error, timeout),
+      null,
+      (error as NodeJS.ErrnoException)?.code !== INTERNAL_ADDRESS
+    );
+  }
+
+  if (statusCode >= 200 && statusCode < 300) {
+    return statusCode;
+  }
+  throw new DeliveryError(
+    `The receiver answered ${statusCode}`,
+    statusCode,
+    RETRYABLE_STATUS.has(statusCode) || statusCode >= 500
+  );
+};
+
+const logAttempt = (deliveryId: Id, attempt: IDeliveryAttempt) =>
+  WebhookDelivery.updateOne({ _id: deliveryId }, { $push: { attempts: attempt } });
+
+interface DeliveryOptions {
+  retry?: RetryOptions;
+  timeout?: number;
+}
+
+/**
+ * Sends a delivery until it succeeds or fails for good, logging every attempt,
+ * then records how it ended. Retries follow DELIVERY_RETRY unless told otherwise.
+ */
+export const deliverWebhook = async (
+  delivery: IWebhookDelivery,
+  { retry = DELIVERY_RETRY, timeout = WEBHOOK_TIMEOUT }: DeliveryOptions = {}
+): Promise<void> => {
+  const body = JSON.stringify(delivery.payload);
+  let status = DeliveryStatus.SUCCEEDED;
+
+  try {
+    await retryWithBackoff(
+      async () => {
+        // Read on every attempt, so a changed secret or URL applies to retries too, and
+        // retries stop once the webhook is paused or deleted
+        const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+        if (!webhook) {
+          throw new DeliveryError('The webhook was deleted', null, false);
+        }
+        if (!webhook.active) {
+          const error = new DeliveryError('The webhook is paused', null, false);
+          await logAttempt(delivery._id as Id, {
+            at: new Date(),
+            statusCode: null,
+            error: error.message,
+            durationMs: 0,
+          });
+          throw error;
+        }
+
+        const started = Date.now();
+        try {
+          const statusCode = await sendWebhook({
+            url: webhook.url,
+            secret: webhook.secret,
+            event: delivery.event,
+            deliveryId: delivery._id as Id,
+            body,
+            timeout,
+          });
+          await logAttempt(delivery._id as Id, {
+            at: new Date(started),
+            statusCode,
+            error: null,
+            durationMs: Date.now() - started,
+          });
+        } catch (error) {
+          if (error instanceof DeliveryError) {
+            await logAttempt(delivery._id as Id, {
+              at: new Date(started),
+              statusCode: error.statusCode,
+              error: error.message,
+              durationMs: Date.now() - started,
+            });
+          }
+          throw error;
+        }
+      },
+      {
+        ...retry,
+        shouldRetry: error => error instanceof DeliveryError && error.retryable,
+      }
+    );
+  } catch (error) {
+    status = DeliveryStatus.FAILED;
+    if (!(error instanceof DeliveryError)) {
+      console.error('Webhook delivery failed:', error);
+    }
+  }
+
+  await WebhookDelivery.updateOne({ _id: delivery._id }, { $set: { status } });
+};
+
+/**
+ * Sends a delivery in the background; failures end up in its log
+ */
+const startDelivery = (delivery: IWebhookDelivery) => {
+  deliverWebhook(delivery).catch(error => {
+    // Most likely the database is down; the delivery stays pending until the next start
+    console.error('Webhook delivery failed:', error);
+  });
+};
+
+/**
+ * The JSON body sent for an audit event. `id` is the event's, so receivers can
+ * recognise redeliveries and retries of what they already handled.
+ */
+const toPayload = (event: IAuditEvent) => ({
+  id: String(event._id),
+  event: webhookEvent(event.targetType, event.action),
+  createdAt: event.createdAt,
+  workspaceId: String(event.workspaceId),
+  actor: { id: event.actor ? String(event.actor) : null, name: event.actorName },
+  target: { type: event.targetType, id: String(event.targetId), title: event.targetTitle },
+  before: event.before,
+  after: event.after,
+});
+
+/**
+ * Queues a delivery of each event to every active webhook that subscribes to it.
+ * Never throws: the change the events describe has already been saved.
+ */
+export const dispatchWebhooks = async (events: IAuditEvent[]): Promise<void> => {
+  if (events.length === 0) {
+    return;
+  }
+
+  try {
+    const webhooks = await Webhook.find({
+      workspaceId: { $in: [...new Set(events.map(event => String(event.workspaceId)))] },
+      active: true,
+      events: { $in: events.map(event => webhookEvent(event.targetType, event.action)) },
+    });
+    const deliveries = events.flatMap(event =>
+      webhooks
+        .filter(
+          webhook =>
+            String(webhook.workspaceId) === String(event.workspaceId) &&
+            webhook.events.includes(webhookEvent(event.targetType, event.action))
+        )
+        .map(webhook => ({
+          webhookId: webhook._id,
+          workspaceId: event.workspaceId,
+          event: webhookEvent(event.targetType, event.action),
+          payload: toPayload(event),
+        }))
+    );
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    const queued = (await WebhookDelivery.insertMany(deliveries)) as IWebhookDelivery[];
+    queued.forEach(startDelivery);
+  } catch (error) {
+    console.error('Queueing webhook deliveries failed:', error);
+  }
+};
+
+/**
+ * Sends a logged delivery again as a new delivery, with the same payload
+ */
+export const redeliver = async (original: IWebhookDelivery): Promise<IWebhookDelivery> => {
+  const delivery = await WebhookDelivery.create({
+    webhookId: original.webhookId,
+    workspaceId: original.workspaceId,
+    event: original.event,
+    payload: original.payload,
+    redeliveryOf: original._id,
+  });
+  startDelivery(delivery);
+  return delivery;
+};
+
+/**
+ * Picks up the deliveries the last shutdown interrupted. Returns how many there were.
+ */
+export const resumeWebhookDeliveries = async (): Promise<number> => {
+  const pending = await WebhookDelivery.find({ status: DeliveryStatus.PENDING });
+  pending.forEach(startDelivery);
+  return pending.length;
+};
@@ -0,0 +1,25 @@
+/**
+ * Membership lookups shared by the REST authorization middleware and sockets
+ */
+
+import { ROLE_RANK, WorkspaceMember, WorkspaceRole } from '@/models/workspaceMembers';
+import { CommonStatus, Workspace } from '@/models/wrokspace';
+
+export const hasRole = (role: WorkspaceRole, minRole: WorkspaceRole): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[minRole];
+
+/**
+ * Returns whether the user is a member of the workspace with at least `minRole`.
+ * Workspaces in the trash are closed to everyone.
+ */
+export const canAccessWorkspace = async (
+  workspaceId: string,
+  userId: string,
+  minRole: WorkspaceRole
+): Promise<boolean> => {
+  const membership = await WorkspaceMember.findOne({ workspaceId, userId });
+  if (!membership || !hasRole(membership.role, minRole)) {
+    return false;
+  }
+  return !!(await Workspace.exists({ _id: workspaceId, status: { $ne: CommonStatus.DELETED } }));
+};
@@ -0,0 +1,95 @@
+/**
+ * Layout of workspace archives.
+ *
+ * Every page is one file under `pages/`, named after its title; the subpages of
+ * `Notes.md` sit in the folder `Notes/` next to it. `manifest.json` at the root
+ * describes the workspace, its tags and where each page went.
+ */
+
+import { HydratedDocument } from 'mongoose';
+import { IPage } from '@/models/pages';
+import { toFrontMatter } from './frontMatter';
+import { PageTreeNode } from './pageTree';
+
+export const ARCHIVE_FORMATS = ['markdown', 'json'] as const;
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
+
+export const FILE_EXTENSIONS: Record<ArchiveFormat, string> = {
+  markdown: '.md',
+  json: '.json',
+};
+
+export const MANIFEST_FILE = 'manifest.json';
+export const PAGES_DIR = 'pages';
+// Bumped when the layout changes in a way importers must know about
+export const ARCHIVE_VERSION = 1;
+
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|\p{Cc}]/gu;
+const MAX_NAME_LENGTH = 80;
+
+/**
+ * A file name that is valid on every common file system
+ */
+export const toFileName = (title: string): string => {
+  const name = title
+    .replace(UNSAFE_CHARACTERS, '-')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+/, '')
+    .slice(0, MAX_NAME_LENGTH)
+    .trim();
+  return name || 'Untitled';
+};
+
+type OutlinePage = { _id: unknown; parentId?: unknown; title: string };
+
+/**
+ * Archive paths (without extension) of the pages in a tree, keyed by page ID.
+ * Repeated titles in a folder are numbered, ignoring case like most file systems.
+ */
+export const buildPagePaths = (
+  nodes: PageTreeNode<OutlinePage>[],
+  folder = PAGES_DIR,
+  paths = new Map<string, string>()
+): Map<string, string> => {
+  const taken = new Set<string>();
+
+  nodes.forEach(node => {
+    const base = toFileName(node.title);
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) {
+      name = `${base} (${n})`;
+    }
+    taken.add(name.toLowerCase());
+
+    const path = `${folder}/${name}`;
+    paths.set(String(node._id), path);
+    buildPagePaths(node.children, path, paths);
+  });
+
+  return paths;
+};
+
+/**
+ * The file contents of a page: front matter and content for markdown, one object for JSON
+ */
+export const serializePage = (
+  page: HydratedDocument<IPage>,
+  format: ArchiveFormat,
+  tagNames: Map<string, string>
+): string => {
+  const metadata = {
+    id: String(page._id),
+    title: page.title,
+    format: page.format,
+    parentId: page.parentId ? String(page.parentId) : null,
+    tags: page.tags.map(id => tagNames.get(String(id))).filter(Boolean),
+    status: page.status,
+    createdAt: page.createdAt,
+    updatedAt: page.updatedAt,
+    version: page.__v,
+  };
+
+  return format === 'markdown'
+    ? toFrontMatter(metadata, page.content ?? '')
+    : JSON.stringify({ ...metadata, content: page.content ?? '' }, null, 2);
+};
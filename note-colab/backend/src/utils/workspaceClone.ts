@@ -0,0 +1,173 @@
+/**
+ * Clones a workspace in the background.
+ *
+ * The clone and its job are created right away; pages are then copied in
+ * batches and the job counts them, so clients can poll for progress. A clone
+ * that fails is purged again rather than left half filled.
+ */
+
+import { CommonStatus, Page } from '@/models/pages';
+import { PageTemplate } from '@/models/pageTemplates';
+import { Tag } from '@/models/tags';
+import { WorkspaceMember, WorkspaceRole } from '@/models/workspaceMembers';
+import { IWorkspace, Workspace } from '@/models/wrokspace';
+import { CloneJobStatus, IWorkspaceCloneJob, WorkspaceCloneJob } from '@/models/workspaceCloneJobs';
+import { AuditAction } from '@/models/auditEvents';
+import { assignIds, CopySource, copyPages } from './pageCopy';
+import { AuditActor, pageAudit, recordAudit, workspaceAudit } from './audit';
+import { purgeWorkspace } from './trash';
+
+const CLONE_BATCH_SIZE = 100;
+
+interface CloneOptions {
+  title: string;
+  description?: string;
+  userId: string;
+  author: string;
+  // Credited with the clone and its pages in the audit trail
+  actor: AuditActor;
+}
+
+const copyTagsAndTemplates = async (sourceId: unknown, cloneId: unknown, userId: string) => {
+  const tags = await Tag.find({ workspaceId: sourceId }).lean();
+  const tagIds = assignIds(tags);
+  await Tag.insertMany(
+    tags.map(tag => ({
+      _id: tagIds.get(String(tag._id)),
+      workspaceId: cloneId,
+      name: tag.name,
+      color: tag.color,
+      createdBy: userId,
+    }))
+  );
+
+  const templates = await PageTemplate.find({ workspaceId: sourceId }).lean();
+  await PageTemplate.insertMany(
+    templates.map(template => ({
+      workspaceId: cloneId,
+      name: template.name,
+      title: template.title,
+      content: template.content,
+      format: template.format,
+      createdBy: userId,
+    }))
+  );
+
+  return tagIds;
+};
+
+const runClone = async (job: IWorkspaceCloneJob, options: CloneOptions) => {
+  const sourceId = job.sourceWorkspaceId;
+  const tags = await copyTagsAndTemplates(sourceId, job.workspaceId, options.userId);
+
+  // Every page gets its new ID up front, so batches can point at parents in later ones
+  const live = { workspaceId: sourceId, status: { $ne: CommonStatus.DELETED } };
+  const ids = assignIds(await Page.find(live).select('_id').lean());
+
+  const cursor = Page.find(live).sort({ _id: 1 }).lean().cursor({ batchSize: CLONE_BATCH_SIZE });
+  let batch: CopySource[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+    // Pages created in the source meanwhile have no new ID and are left out
+    const known = batch.filter(page => ids.has(String(page._id)));
+    const copies = await copyPages(known, {
+      workspaceId: job.workspaceId,
+      ids,
+      tags,
+      userId: options.userId,
+      author: options.author,
+    });
+    await recordAudit(
+      options.actor,
+      copies.map(copy => pageAudit(AuditAction.CREATED, { after: copy }))
+    );
+    await WorkspaceCloneJob.updateOne({ _id: job._id }, { $inc: { copied: known.length } });
+    batch = [];
+  };
+
+  try {
+    for await (const page of cursor) {
+      batch.push(page);
+      if (batch.length >= CLONE_BATCH_SIZE) await flush();
+    }
+    await flush();
+  } finally {
+    await cursor.close();
+  }
+};
+
+const failClone = async (jobId: unknown, workspaceId: unknown, error: unknown) => {
+  await WorkspaceCloneJob.updateOne(
+    { _id: jobId },
+    {
+      $set: {
+        status: CloneJobStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    }
+  );
+  // Purging cascades to whatever was copied
+  await purgeWorkspace(String(workspaceId));
+};
+
+/**
+ * Creates the clone, owned by the caller, and starts copying into it.
+ * Resolves with the job as soon as copying has started.
+ */
+export const startWorkspaceClone = async (
+  source: Pick<IWorkspace, '_id' | 'status'>,
+  options: CloneOptions
+): Promise<IWorkspaceCloneJob> => {
+  const clone = await Workspace.create({
+    title: options.title,
+    description: options.description,
+    status: source.status,
+    createdBy: options.userId,
+    updatedBy: options.userId,
+  });
+  await WorkspaceMember.create({
+    workspaceId: clone._id,
+    userId: options.userId,
+    role: WorkspaceRole.OWNER,
+  });
+  await recordAudit(options.actor, workspaceAudit(AuditAction.CREATED, { after: clone }));
+
+  const job = await WorkspaceCloneJob.create({
+    sourceWorkspaceId: source._id,
+    workspaceId: clone._id,
+    total: await Page.countDocuments({
+      workspaceId: source._id,
+      status: { $ne: CommonStatus.DELETED },
+    }),
+    createdBy: options.userId,
+  });
+
+  runClone(job, options)
+    .then(() =>
+      WorkspaceCloneJob.updateOne(
+        { _id: job._id },
+        { $set: { status: CloneJobStatus.COMPLETED, finishedAt: new Date() } }
+      )
+    )
+    .catch(async error => {
+      console.error('Workspace clone failed:', error);
+      await failClone(job._id, clone._id, error).catch(cleanupError =>
+        console.error('Cleaning up a failed clone failed:', cleanupError)
+      );
+    });
+
+  return job;
+};
+
+/**
+ * Clones still running when the server stopped will never finish; marks them
+ * failed and purges what they had copied. Returns how many there were.
+ */
+export const failInterruptedClones = async (): Promise<number> => {
+  const jobs = await WorkspaceCloneJob.find({ status: CloneJobStatus.RUNNING });
+  for (const job of jobs) {
+    await failClone(job._id, job.workspaceId, new Error('The server restarted during the clone'));
+  }
+  return jobs.length;
+};
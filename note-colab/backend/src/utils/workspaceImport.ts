@@ -0,0 +1,259 @@
+/**
+ * Turns uploaded files into a plan of pages to create.
+ *
+ * Uploads are `.md`/`.txt` files or ZIPs of them. Every file becomes a page and
+ * every folder a parent: the page of `Notes.md` when the folder `Notes/` sits
+ * next to it (the layout exports use), otherwise an empty page named after the folder.
+ */
+
+import path from 'path';
+import yauzl, { Entry, ZipFile } from 'yauzl';
+import { PageFormat } from '@/models/pages';
+import { parseFrontMatter } from './frontMatter';
+import { MANIFEST_FILE, PAGES_DIR } from './workspaceArchive';
+
+export const MAX_IMPORT_FILES = 500;
+// Per page file, uploaded or inside a ZIP: page content is capped at 500 characters,
+// which leaves room for front matter and multi-byte characters
+export const MAX_IMPORT_FILE_SIZE = 16 * 1024;
+// All page files of an import together, after unpacking; also caps the upload itself
+export const MAX_IMPORT_TOTAL_SIZE = 4 * 1024 * 1024;
+// The multipart request: the files plus the headers of up to MAX_IMPORT_FILES parts
+export const MAX_IMPORT_REQUEST_SIZE = MAX_IMPORT_TOTAL_SIZE + 512 * 1024;
+
+const FORMATS: Record<string, PageFormat> = {
+  '.md': PageFormat.MARKDOWN,
+  '.markdown': PageFormat.MARKDOWN,
+  '.txt': PageFormat.PLAIN,
+};
+
+export interface ImportFile {
+  path: string;
+  data?: Buffer;
+  // Why the file could not be read
+  error?: string;
+}
+
+export type ImportStatus = 'created' | 'failed' | 'skipped';
+
+export interface ImportReportEntry {
+  file: string;
+  status: ImportStatus;
+  pageId?: string;
+  title?: string;
+  message?: string;
+}
+
+export interface ImportNode {
+  // Path without extension; a folder and the file named like it share one
+  key: string;
+  parentKey: string | null;
+  title: string;
+  format: PageFormat;
+  content: string;
+  // What the report shows: the file, or the folder for pages made up for one
+  source: string;
+}
+
+// What is left of MAX_IMPORT_TOTAL_SIZE while an import is read
+interface ImportBudget {
+  remaining: number;
+}
+
+const spend = (budget: ImportBudget, size: number) => {
+  if (size > budget.remaining) {
+    throw new Error(
+      `An import can hold at most ${MAX_IMPORT_TOTAL_SIZE / 1024 / 1024} MB of files once unpacked`
+    );
+  }
+  budget.remaining -= size;
+};
+
+const isZip = (file: { originalname: string; mimetype: string }) =>
+  path.extname(file.originalname).toLowerCase() === '.zip' || file.mimetype === 'application/zip';
+
+const normalizePath = (name: string) =>
+  name
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/');
+
+// Folders and files added by operating systems, e.g. __MACOSX/ or .DS_Store
+const isSystemFile = (name: string) =>
+  name.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+
+const openZip = (buffer: Buffer) =>
+  new Promise<ZipFile>((resolve, reject) =>
+    yauzl.fromBuffer(buffer, { lazyEntries: true }, (error, zip) =>
+      error ? reject(error) : resolve(zip)
+    )
+  );
+
+const readEntry = (zip: ZipFile, entry: Entry) =>
+  new Promise<Buffer>((resolve, reject) =>
+    zip.openReadStream(entry, (error, stream) => {
+      if (error) return reject(error);
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', reject);
+    })
+  );
+
+/**
+ * The files in a ZIP. Sizes are checked against the entry headers before
+ * anything is inflated, and reading stops once the budget is spent; yauzl
+ * fails entries whose data does not match their headers.
+ */
+const readZip = async (
+  buffer: Buffer,
+  zipName: string,
+  budget: ImportBudget
+): Promise<ImportFile[]> => {
+  const zip = await openZip(buffer);
+  const files: ImportFile[] = [];
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      zip.on('entry', async (entry: Entry) => {
+        const name = normalizePath(entry.fileName);
+        try {
+          if (entry.fileName.endsWith('/') || !name || isSystemFile(name)) {
+            // Folders are implied by the paths of their files
+          } else if (files.length >= MAX_IMPORT_FILES) {
+            throw new Error(`An import can hold at most ${MAX_IMPORT_FILES} files`);
+          } else if (entry.uncompressedSize > MAX_IMPORT_FILE_SIZE) {
+            files.push({ path: name, error: 'File is too large' });
+          } else if (!FORMATS[path.extname(name).toLowerCase()]) {
+            files.push({ path: name });
+          } else {
+            spend(budget, entry.uncompressedSize);
+            files.push({ path: name, data: await readEntry(zip, entry) });
+          }
+          zip.readEntry();
+        } catch (error) {
+          reject(error);
+        }
+      });
+      zip.on('end', resolve);
+      zip.on('error', reject);
+      zip.readEntry();
+    });
+  } catch (error) {
+    throw new Error(`${zipName} could not be read: ${(error as Error).message}`);
+  } finally {
+    zip.close();
+  }
+
+  // Archives made by the export keep their pages in pages/ next to the manifest
+  if (files.some(file => file.path === MANIFEST_FILE)) {
+    return files
+      .filter(file => file.path.startsWith(`${PAGES_DIR}/`))
+      .map(file => ({ ...file, path: file.path.slice(PAGES_DIR.length + 1) }));
+  }
+  return files;
+};
+
+/**
+ * The files of an upload, with ZIPs unpacked
+ */
+export const readUploadedFiles = async (uploads: Express.Multer.File[]): Promise<ImportFile[]> => {
+  const files: ImportFile[] = [];
+  const budget: ImportBudget = { remaining: MAX_IMPORT_TOTAL_SIZE };
+  for (const upload of uploads) {
+    const name = normalizePath(upload.originalname);
+    if (isZip(upload)) {
+      files.push(...(await readZip(upload.buffer, upload.originalname, budget)));
+    } else if (upload.size > MAX_IMPORT_FILE_SIZE) {
+      files.push({ path: name, error: 'File is too large' });
+    } else {
+      spend(budget, upload.size);
+      files.push({ path: name, data: upload.buffer });
+    }
+  }
+  if (files.length > MAX_IMPORT_FILES) {
+    throw new Error(`An import can hold at most ${MAX_IMPORT_FILES} files`);
+  }
+  return files;
+};
+
+export const parentOf = (key: string) => {
+  const dir = path.posix.dirname(key);
+  return dir === '.' ? null : dir;
+};
+
+/**
+ * Orders the files into pages, parents before their children and siblings by
+ * name. Files that cannot become pages are reported as skipped or failed.
+ */
+export const planImport = (
+  files: ImportFile[]
+): { nodes: ImportNode[]; report: ImportReportEntry[] } => {
+  const nodes = new Map<string, ImportNode>();
+  const report: ImportReportEntry[] = [];
+
+  files.forEach(file => {
+    const extension = path.extname(file.path).toLowerCase();
+    const format = FORMATS[extension];
+    if (file.error || !file.data) {
+      report.push({
+        file: file.path,
+        status: file.error ? 'failed' : 'skipped',
+        message: file.error ?? 'Only .md and .txt files can be imported',
+      });
+      return;
+    }
+    if (!format) {
+      report.push({
+        file: file.path,
+        status: 'skipped',
+        message: 'Only .md and .txt files can be imported',
+      });
+      return;
+    }
+
+    const key = file.path.slice(0, file.path.length - extension.length);
+    if (nodes.has(key)) {
+      report.push({
+        file: file.path,
+        status: 'skipped',
+        message: 'Another file has the same name',
+      });
+      return;
+    }
+
+    const text = file.data.toString('utf8').replace(/^\uFEFF/, '');
+    const { fields, body } = parseFrontMatter(text);
+    nodes.set(key, {
+      key,
+      parentKey: parentOf(key),
+      title: typeof fields.title === 'string' ? fields.title : path.posix.basename(key),
+      // Front matter may keep an exported plain page plain
+      format: fields.format === PageFormat.PLAIN ? PageFormat.PLAIN : format,
+      content: body,
+      source: file.path,
+    });
+  });
+
+  // Folders without a file of their own get an empty page
+  [...nodes.values()].forEach(node => {
+    for (let key = node.parentKey; key && !nodes.has(key); key = parentOf(key)) {
+      nodes.set(key, {
+        key,
+        parentKey: parentOf(key),
+        title: path.posix.basename(key),
+        format: PageFormat.PLAIN,
+        content: '',
+        source: `${key}/`,
+      });
+    }
+  });
+
+  const depth = (key: string) => key.split('/').length;
+  const ordered = [...nodes.values()].sort(
+    (a, b) => depth(a.key) - depth(b.key) || a.key.localeCompare(b.key)
+  );
+
+  return { nodes: ordered, report };
+};
@@ -0,0 +1,11 @@
+import { Suspense } from 'react';
+import { SearchView } from '@/components/search/search-view';
+
+export default function SearchPage() {
+  // The view reads its query from the URL
+  return (
+    <Suspense>
+      <SearchView />
+    </Suspense>
+  );
+}
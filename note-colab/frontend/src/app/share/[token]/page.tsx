@@ -0,0 +1,291 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { ChevronRight, Eye, FileText, Link2Off, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MarkdownContent } from '@/components/workspace/markdown-preview';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ApiError } from '@/lib/api';
+import { shareApi } from '@/lib/share-api';
+import { cn } from '@/lib/utils';
+import { PageFormat } from '@/types/page';
+import type { SharedContent, SharedPage, SharedPageSummary } from '@/types/share';
+
+function SharedPageView({ page }: { page: SharedPage }) {
+  return (
+    <article className="max-w-4xl mx-auto p-6">
+      <h1 className="text-2xl font-semibold mb-1">{page.title}</h1>
+      <p className="text-xs text-muted-foreground mb-6">
+        Last updated{' '}
+        {new Date(page.updatedAt).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          year: 'numeric',
+        })}
+      </p>
+      {page.format === PageFormat.MARKDOWN && page.html ? (
+        <MarkdownContent html={page.html} />
+      ) : (
+        <div className="text-base leading-relaxed whitespace-pre-wrap">
+          {page.content || <span className="text-muted-foreground">This page is empty.</span>}
+        </div>
+      )}
+    </article>
+  );
+}
+
+function SharedPageLevel({
+  token,
+  parentId,
+  depth,
+  selectedId,
+  onSelect,
+  onLoaded,
+}: {
+  token: string;
+  parentId: string;
+  depth: number;
+  selectedId: string | null;
+  onSelect: (pageId: string) => void;
+  /** Called with the first batch of this level */
+  onLoaded?: (pages: SharedPageSummary[]) => void;
+}) {
+  const [pages, setPages] = useState<SharedPageSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const load = useCallback(
+    async (cursor: string | null) => {
+      setIsLoading(true);
+      try {
+        const result = await shareApi.getSharedPages(token, { parentId, cursor });
+        setPages((prev) => (cursor ? [...prev, ...result.items] : result.items));
+        setNextCursor(result.nextCursor);
+        if (!cursor) onLoaded?.(result.items);
+      } catch (err) {
+        setError((err as ApiError).message || 'Pages could not be loaded.');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [token, parentId, onLoaded]
+  );
+
+  useEffect(() => {
+    load(null);
+  }, [load]);
+
+  const toggle = (pageId: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageId)) next.delete(pageId);
+      else next.add(pageId);
+      return next;
+    });
+
+  const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+  return (
+    <>
+      {pages.map((page) => (
+        <div key={page._id}>
+          <div
+            className={cn(
+              'flex items-center gap-1 p-2 rounded-md cursor-pointer transition-colors mb-1',
+              selectedId === page._id ? 'bg-primary text-primary-foreground' : 'hover:bg-accent'
+            )}
+            style={indent}
+            onClick={() => onSelect(page._id)}
+          >
+            <button
+              type="button"
+              className={cn(
+                'h-4 w-4 shrink-0 rounded-sm hover:bg-black/10',
+                !page.hasChildren && 'invisible'
+              )}
+              onClick={(e) => {
+                e.stopPropagation();
+                toggle(page._id);
+              }}
+              title={expanded.has(page._id) ? 'Collapse' : 'Expand'}
+            >
+              <ChevronRight
+                className={cn(
+                  'h-4 w-4 transition-transform',
+                  expanded.has(page._id) && 'rotate-90'
+                )}
+              />
+            </button>
+            <FileText className="h-4 w-4 shrink-0" />
+            <span className="flex-1 truncate text-sm font-medium ml-1">{page.title}</span>
+          </div>
+          {expanded.has(page._id) && (
+            <SharedPageLevel
+              token={token}
+              parentId={page._id}
+              depth={depth + 1}
+              selectedId={selectedId}
+              onSelect={onSelect}
+            />
+          )}
+        </div>
+      ))}
+      {isLoading ? (
+        <div className="p-2" style={indent}>
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="p-2 text-xs text-destructive" style={indent}>
+          {error}
+        </p>
+      ) : (
+        nextCursor && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start text-muted-foreground"
+            style={indent}
+            onClick={() => load(nextCursor)}
+          >
+            Show more
+          </Button>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SharedContentPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const [shared, setShared] = useState<SharedContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  // Workspace links: the last page loaded on its own, or why it could not be
+  const [openPage, setOpenPage] = useState<SharedPage | null>(null);
+  const [pageError, setPageError] = useState<{ pageId: string; message: string } | null>(null);
+  const [isEmpty, setIsEmpty] = useState(false);
+
+  useEffect(() => {
+    shareApi
+      .getShared(token)
+      .then(setShared)
+      .catch((err: ApiError) => setError(err.message || 'This link could not be opened.'));
+  }, [token]);
+
+  useEffect(() => {
+    if (shared?.type !== 'workspace' || !selectedPageId) return;
+    let cancelled = false;
+    shareApi
+      .getSharedPage(token, selectedPageId)
+      .then((page) => {
+        if (!cancelled) setOpenPage(page);
+      })
+      .catch((err: ApiError) => {
+        if (!cancelled) {
+          setPageError({
+            pageId: selectedPageId,
+            message: err.message || 'This page could not be opened.',
+          });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shared, token, selectedPageId]);
+
+  // The first top-level page opens until another one is picked
+  const handleRootLoaded = useCallback((pages: SharedPageSummary[]) => {
+    setIsEmpty(pages.length === 0);
+    setSelectedPageId((current) => current ?? pages[0]?._id ?? null);
+  }, []);
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-muted/20 p-4">
+        <Card className="w-full max-w-sm text-center">
+          <CardHeader>
+            <div className="mx-auto mb-2 p-3 rounded-full bg-muted">
+              <Link2Off className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <CardTitle>Link unavailable</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const selectedPage =
+    shared.type === 'page' ? shared.page : openPage?._id === selectedPageId ? openPage : null;
+  const selectedPageError = pageError?.pageId === selectedPageId ? pageError.message : null;
+
+  return (
+    <div className="flex flex-col h-screen">
+      <header className="border-b p-4 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h2 className="font-semibold text-lg truncate">{shared.workspace.title}</h2>
+          {shared.type === 'workspace' && shared.workspace.description && (
+            <p className="text-sm text-muted-foreground truncate">
+              {shared.workspace.description}
+            </p>
+          )}
+        </div>
+        <Badge variant="secondary" className="shrink-0">
+          <Eye className="mr-1 h-3 w-3" />
+          Read-only
+        </Badge>
+      </header>
+
+      <div className="flex flex-1 overflow-hidden">
+        {shared.type === 'workspace' && (
+          <div className="w-64 shrink-0 border-r bg-muted/30">
+            <ScrollArea className="h-full">
+              <div className="p-2">
+                <SharedPageLevel
+                  token={token}
+                  parentId="root"
+                  depth={0}
+                  selectedId={selectedPageId}
+                  onSelect={setSelectedPageId}
+                  onLoaded={handleRootLoaded}
+                />
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+        <div className="flex-1 overflow-auto">
+          {selectedPage ? (
+            <SharedPageView page={selectedPage} />
+          ) : isEmpty || selectedPageError ? (
+            <Card className="max-w-md mx-auto mt-12">
+              <CardContent className="pt-6 text-center text-sm text-muted-foreground">
+                {selectedPageError ?? 'This workspace has no pages yet.'}
+              </CardContent>
+            </Card>
+          ) : (
+            selectedPageId && (
+              <div className="flex justify-center mt-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+import { TrashView } from '@/components/workspace/trash-view';
+
+export default function TrashPage() {
+  return <TrashView />;
+}
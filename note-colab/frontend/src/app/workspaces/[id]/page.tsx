@@ -1,33 +1,66 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useParams, useRouter } from 'next/navigation';
-import { ArrowLeft, Loader2 } from 'lucide-react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, FileText, History, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PageSidebar } from '@/components/workspace/page-sidebar';
 import { PageEditor } from '@/components/workspace/page-editor';
+import { WorkspaceActivity } from '@/components/workspace/workspace-activity';
+import { UserMenu } from '@/components/auth/user-menu';
 import { pageApi } from '@/lib/page-api';
+import { tagApi } from '@/lib/tag-api';
 import { workspaceApi } from '@/lib/workspace-api';
 import { useToast } from '@/components/ui/toast';
-import type { Page, CreatePageInput, UpdatePageInput } from '@/types/page';
+import { useWorkspaceEvents } from '@/hooks/use-workspace-events';
+import { usePresence } from '@/hooks/use-presence';
+import { CLIENT_ID, toQueryString, type ApiError } from '@/lib/api';
+import { canEdit, canManage } from '@/lib/permissions';
+import { flattenPageTree, getAncestors, getDescendantIds } from '@/lib/page-tree';
+import {
+  PageStatus,
+  type Page,
+  type CreatePageInput,
+  type DeleteDescendants,
+  type DuplicatePageInput,
+  type PagePositionInput,
+  type UpdatePageInput,
+} from '@/types/page';
 import type { Workspace } from '@/types/workspace';
+import type { PresenceMember } from '@/types/presence';
+import type { Tag } from '@/types/tag';
 import { v4 } from 'uuid';
 
 export default function WorkspaceDetailPage() {
   const params = useParams();
   const router = useRouter();
   const workspaceId = params.id as string;
+  // Search results link straight to a page with ?page=<id>
+  const requestedPageId = useSearchParams().get('page');
   
   const [workspace, setWorkspace] = useState<Workspace | null>(null);
   const [pages, setPages] = useState<Page[]>([]);
-  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(requestedPageId);
+  // A notification can link to another page of the workspace that is already open
+  const [linkedPageId, setLinkedPageId] = useState(requestedPageId);
+  if (requestedPageId !== linkedPageId) {
+    setLinkedPageId(requestedPageId);
+    if (requestedPageId) setSelectedPageId(requestedPageId);
+  }
   const [loading, setLoading] = useState(true);
   const [pagesLoading, setPagesLoading] = useState(false);
+  // The list holds summaries; the open page is loaded in full
+  const [openPage, setOpenPage] = useState<Page | null>(null);
+  const [presence, setPresence] = useState<PresenceMember[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [view, setView] = useState<'pages' | 'activity'>('pages');
   const { addToast } = useToast();
 
   useEffect(() => {
     fetchWorkspace();
     fetchPages();
+    fetchTags();
   }, [workspaceId]);
 
   const fetchWorkspace = async () => {
@@ -44,13 +77,26 @@ export default function WorkspaceDetailPage() {
     }
   };
 
+  const fetchTags = async () => {
+    try {
+      setTags(await tagApi.getAll(workspaceId));
+    } catch (err) {
+      addToast({
+        title: 'Failed to load tags',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const fetchPages = async () => {
     try {
       setPagesLoading(true);
-      const data = await pageApi.getAll(workspaceId);
-      setPages(data);
-      if (data.length > 0 && !selectedPageId) {
-        setSelectedPageId(data[0]._id);
+      // The sidebar shows the whole outline, so it loads the tree rather than a paginated list
+      const tree = await pageApi.getTree(workspaceId);
+      setPages(flattenPageTree(tree));
+      if (tree.length > 0 && !selectedPageId) {
+        setSelectedPageId(tree[0]._id);
       }
     } catch (err: any) {
       console.log("fetchPages error>>",err);
@@ -65,14 +111,38 @@ export default function WorkspaceDetailPage() {
     }
   };
 
-  const handleCreatePage = async () => {
+  useEffect(() => {
+    if (!selectedPageId) return;
+    let cancelled = false;
+    pageApi
+      .getById(workspaceId, selectedPageId)
+      .then((page) => {
+        if (!cancelled) setOpenPage(page);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        addToast({
+          title: 'Failed to load page',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, selectedPageId, addToast]);
+
+  const handleCreatePage = async (parentId?: string, templateId?: string) => {
     try {
       const requestId = v4();
+      // A template brings its own title and content
+      const input = templateId ? { templateId } : { title: 'Untitled Page', content: '' };
       const newPage = await pageApi.create(workspaceId, {
-        title: 'Untitled Page',
-        content: '',
+        ...input,
+        parentId: parentId ?? null,
       }, { headers: { 'X-Request-ID': requestId } });
-      setPages([newPage, ...pages]);
+      setPages((prev) => [newPage, ...prev.filter((p) => p._id !== newPage._id)]);
+      setOpenPage(newPage);
       setSelectedPageId(newPage._id);
       addToast({
         title: 'Page created',
@@ -88,32 +158,133 @@ export default function WorkspaceDetailPage() {
     }
   };
 
+  // Live changes made by others in this workspace
+  const sendToWorkspace = useWorkspaceEvents(
+    workspaceId,
+    (event) => {
+      switch (event.type) {
+        case 'page.created':
+          if (event.data.status !== PageStatus.ACTIVE) return;
+          setPages((prev) =>
+            prev.some((p) => p._id === event.data._id) ? prev : [event.data, ...prev]
+          );
+          break;
+        case 'page.updated':
+          setPages((prev) => prev.map((p) => (p._id === event.data._id ? event.data : p)));
+          setOpenPage((prev) => (prev?._id === event.data._id ? event.data : prev));
+          break;
+        case 'page.deleted':
+          setPages((prev) => prev.filter((p) => p._id !== event.data._id));
+          if (selectedPageId === event.data._id) {
+            setSelectedPageId(null);
+            addToast({
+              title: 'Page deleted',
+              description: 'The page you were viewing was deleted by someone else.',
+              variant: 'destructive',
+            });
+          }
+          break;
+        case 'presence.updated':
+          setPresence(event.data.members.filter((member) => member.clientId !== CLIENT_ID));
+          break;
+      }
+    },
+    fetchPages
+  );
+
+  usePresence(sendToWorkspace, selectedPageId, editing ? 'editing' : 'viewing');
+
   const handleSavePage = async (data: CreatePageInput | UpdatePageInput) => {
     if (!selectedPageId) {
       // Create new page
       const newPage = await pageApi.create(workspaceId, data as CreatePageInput);
-      setPages([newPage, ...pages]);
+      setPages((prev) => [newPage, ...prev]);
+      setOpenPage(newPage);
       setSelectedPageId(newPage._id);
+      return newPage;
     } else {
       // Update existing page
       const updatedPage = await pageApi.update(workspaceId, selectedPageId, data as UpdatePageInput);
-      console.log("updatedPage>>",updatedPage);
-      setPages(pages.map((p) => p._id === selectedPageId ? updatedPage : p));
-      await fetchPages();
+      setPages((prev) => prev.map((p) => p._id === selectedPageId ? updatedPage : p));
+      setOpenPage(updatedPage);
+      return updatedPage;
+    }
+  };
+
+  const handleMovePage = async (pageId: string, parentId: string | null) => {
+    try {
+      const moved = await pageApi.move(workspaceId, pageId, parentId);
+      setPages((prev) => prev.map((p) => (p._id === moved._id ? moved : p)));
+      setOpenPage((prev) => (prev?._id === moved._id ? moved : prev));
+    } catch (err) {
+      addToast({
+        title: 'Failed to move page',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+      throw err;
     }
   };
 
-  const handleDeletePage = async (pageId: string) => {
+  const handleDuplicatePage = async (pageId: string, input: DuplicatePageInput = {}) => {
     try {
-      await pageApi.delete(workspaceId, pageId);
-      setPages(pages.filter((p) => p._id !== pageId));
-      if (selectedPageId === pageId) {
-        const remainingPages = pages.filter((p) => p._id !== pageId);
+      const [copy, ...subpages] = await pageApi.duplicate(workspaceId, pageId, input);
+      if (input.workspaceId && input.workspaceId !== workspaceId) {
+        addToast({
+          title: 'Page copied',
+          description: `"${copy.title}" and ${subpages.length} subpage(s) were copied.`,
+          variant: 'success',
+        });
+        return;
+      }
+      const copies = [copy, ...subpages];
+      setPages((prev) => [
+        ...copies,
+        ...prev.filter((p) => !copies.some((c) => c._id === p._id)),
+      ]);
+      setOpenPage(copy);
+      setSelectedPageId(copy._id);
+    } catch (err) {
+      addToast({
+        title: 'Failed to copy page',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const handleReorderPage = async (pageId: string, position: PagePositionInput) => {
+    try {
+      const placed = await pageApi.setPosition(workspaceId, pageId, position);
+      setPages((prev) => prev.map((p) => (p._id === placed._id ? placed : p)));
+      setOpenPage((prev) => (prev?._id === placed._id ? placed : prev));
+    } catch (err) {
+      addToast({
+        title: 'Failed to move page',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const handleDeletePage = async (pageId: string, descendants: DeleteDescendants = 'cascade') => {
+    try {
+      await pageApi.delete(workspaceId, pageId, descendants);
+      const deleted = pages.find((p) => p._id === pageId);
+      const removed = descendants === 'cascade' ? getDescendantIds(pages, pageId) : new Set<string>();
+      removed.add(pageId);
+      const remainingPages = pages
+        .filter((p) => !removed.has(p._id))
+        .map((p) => (p.parentId === pageId ? { ...p, parentId: deleted?.parentId ?? null } : p));
+      setPages(remainingPages);
+      if (selectedPageId && removed.has(selectedPageId)) {
         setSelectedPageId(remainingPages.length > 0 ? remainingPages[0]._id : null);
       }
       addToast({
-        title: 'Page deleted',
-        description: 'Page deleted successfully.',
+        title: 'Page moved to trash',
+        description: 'You can restore it from the trash.',
         variant: 'success',
       });
     } catch (err: any) {
@@ -126,7 +297,13 @@ export default function WorkspaceDetailPage() {
     }
   };
 
-  const selectedPage = pages.find((p) => p._id === selectedPageId) || null;
+  const handlePageChange = (updatedPage: Page | null) => {
+    if (!updatedPage) return;
+    setPages((prev) => prev.map((p) => (p._id === updatedPage._id ? updatedPage : p)));
+    setOpenPage(updatedPage);
+  };
+
+  const selectedPage = openPage?._id === selectedPageId ? openPage : null;
 
   if (loading) {
     return (
@@ -136,6 +313,8 @@ export default function WorkspaceDetailPage() {
     );
   }
 
+  const editable = canEdit(workspace?.role);
+
   return (
     <div className="flex h-screen overflow-hidden">
       <div className="w-64 shrink-0">
@@ -143,14 +322,26 @@ export default function WorkspaceDetailPage() {
           pages={pages}
           selectedPageId={selectedPageId}
           loading={pagesLoading}
-          onSelectPage={setSelectedPageId}
+          onSelectPage={(pageId) => {
+            setSelectedPageId(pageId);
+            setView('pages');
+          }}
           onCreatePage={handleCreatePage}
           onDeletePage={handleDeletePage}
+          onMovePage={handleMovePage}
+          onReorderPage={handleReorderPage}
+          onDuplicatePage={handleDuplicatePage}
           workspaceTitle={workspace?.title || 'Workspace'}
+          workspaceId={workspaceId}
+          tags={tags}
+          onTagsChange={setTags}
+          presence={presence}
+          canEdit={editable}
+          onSearchContent={(q) => router.push(`/search${toQueryString({ q, workspaceId })}`)}
         />
       </div>
       <div className="flex-1 flex flex-col">
-        <div className="border-b p-4">
+        <div className="border-b p-4 flex items-start justify-between">
           <Button
             variant="ghost"
             size="sm"
@@ -160,12 +351,54 @@ export default function WorkspaceDetailPage() {
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Workspaces
           </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={view === 'pages' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setView('pages')}
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Pages
+            </Button>
+            <Button
+              variant={view === 'activity' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setView('activity')}
+            >
+              <History className="mr-2 h-4 w-4" />
+              Activity
+            </Button>
+          </div>
+          <UserMenu />
         </div>
-        <PageEditor
-          page={selectedPage}
-          workspaceId={workspaceId}
-          onSave={handleSavePage}
-        />
+        {view === 'activity' ? (
+          <WorkspaceActivity
+            workspaceId={workspaceId}
+            onNavigate={(pageId) => {
+              setSelectedPageId(pageId);
+              setView('pages');
+            }}
+          />
+        ) : selectedPageId && !selectedPage ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <PageEditor
+            page={selectedPage}
+            workspaceId={workspaceId}
+            onSave={handleSavePage}
+            onPageChange={handlePageChange}
+            presence={presence.filter((member) => member.pageId === selectedPageId)}
+            onEditingChange={setEditing}
+            readOnly={!editable}
+            canShare={canManage(workspace?.role)}
+            breadcrumbs={getAncestors(pages, selectedPageId)}
+            tags={tags}
+            onTagsChange={setTags}
+            onNavigate={setSelectedPageId}
+          />
+        )}
       </div>
     </div>
   );
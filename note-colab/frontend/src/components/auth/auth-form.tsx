@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ApiError } from '@/lib/api';
+import { useAuth } from './auth-provider';
+
+interface AuthFormProps {
+  mode: 'login' | 'register';
+}
+
+export function AuthForm({ mode }: AuthFormProps) {
+  const { login, register } = useAuth();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isRegister = mode === 'register';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (isRegister) {
+        await register({ name: name.trim(), email: email.trim(), password });
+      } else {
+        await login({ email: email.trim(), password });
+      }
+    } catch (err) {
+      const { errors, message } = err as ApiError;
+      const fieldErrors = errors ? Object.values(errors).join(' ') : '';
+      setError(fieldErrors || message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-muted/20 p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>{isRegister ? 'Create an account' : 'Sign in'}</CardTitle>
+          <CardDescription>
+            {isRegister
+              ? 'Sign up to start collaborating on workspaces.'
+              : 'Welcome back to Note Collab.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4">
+            {isRegister && (
+              <div className="grid gap-2">
+                <Label htmlFor="name">Name</Label>
+                <Input
+                  id="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={50}
+                  autoComplete="name"
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="email"
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={isRegister ? 8 : undefined}
+                maxLength={72}
+                autoComplete={isRegister ? 'new-password' : 'current-password'}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            {error && (
+              <div className="text-sm text-destructive bg-destructive/10 p-2 rounded-md">
+                {error}
+              </div>
+            )}
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? 'Please wait...' : isRegister ? 'Create account' : 'Sign in'}
+            </Button>
+            <p className="text-sm text-center text-muted-foreground">
+              {isRegister ? 'Already have an account? ' : "Don't have an account? "}
+              <Link
+                href={isRegister ? '/login' : '/register'}
+                className="text-primary underline-offset-4 hover:underline"
+              >
+                {isRegister ? 'Sign in' : 'Sign up'}
+              </Link>
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import * as React from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { apiClient } from '@/lib/api';
+import { authApi } from '@/lib/auth-api';
+import type { LoginInput, RegisterInput, User } from '@/types/user';
+
+// Screens reachable without a session; signed-in users are sent home from them
+const PUBLIC_PATHS = ['/login', '/register'];
+// Read-only share links open the same way with or without a session
+const SHARED_PATH_PREFIX = '/share/';
+
+interface AuthContextValue {
+  user: User | null;
+  login: (data: LoginInput) => Promise<void>;
+  register: (data: RegisterInput) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = React.createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = React.useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = React.useState<User | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const router = useRouter();
+  const pathname = usePathname();
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+  const isShared = pathname.startsWith(SHARED_PATH_PREFIX);
+
+  React.useEffect(() => {
+    apiClient.onUnauthorized(() => setUser(null));
+    authApi
+      .me()
+      .then(setUser)
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+    return () => apiClient.onUnauthorized(null);
+  }, []);
+
+  React.useEffect(() => {
+    if (loading || isShared) return;
+    if (!user && !isPublic) {
+      router.replace('/login');
+    } else if (user && isPublic) {
+      router.replace('/');
+    }
+  }, [loading, user, isPublic, isShared, router]);
+
+  const login = React.useCallback(async (data: LoginInput) => {
+    const session = await authApi.login(data);
+    setUser(session.user);
+  }, []);
+
+  const register = React.useCallback(async (data: RegisterInput) => {
+    const session = await authApi.register(data);
+    setUser(session.user);
+  }, []);
+
+  const logout = React.useCallback(async () => {
+    await authApi.logout();
+    setUser(null);
+  }, []);
+
+  // Keep protected screens (and their API calls) from mounting before the session is known
+  const ready = isShared || (!loading && (isPublic || !!user));
+
+  return (
+    <AuthContext.Provider value={{ user, login, register, logout }}>
+      {ready ? (
+        children
+      ) : (
+        <div className="flex items-center justify-center h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { LogOut, User as UserIcon } from 'lucide-react';
+import { NotificationBell } from '@/components/notifications/notification-bell';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { useAuth } from './auth-provider';
+
+export function UserMenu() {
+  const { user, logout } = useAuth();
+  const { addToast } = useToast();
+
+  if (!user) return null;
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (err) {
+      addToast({
+        title: 'Failed to log out',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <NotificationBell />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm">
+            <UserIcon className="mr-2 h-4 w-4" />
+            {user.name}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <div className="px-2 py-1.5 text-xs text-muted-foreground">{user.email}</div>
+          <DropdownMenuItem onClick={handleLogout}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Log out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
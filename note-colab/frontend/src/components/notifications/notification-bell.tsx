@@ -0,0 +1,204 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { AtSign, Bell, CheckCheck, Loader2, MessageSquare, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { notificationApi } from '@/lib/notification-api';
+import { cn } from '@/lib/utils';
+import { NotificationType, type Notification } from '@/types/notification';
+
+// The count is polled; there is no push channel for a single user
+const POLL_INTERVAL = 30 * 1000;
+const PAGE_SIZE = 20;
+
+const ICONS: Record<NotificationType, typeof Bell> = {
+  [NotificationType.MENTION]: AtSign,
+  [NotificationType.REPLY]: MessageSquare,
+  [NotificationType.PAGE_EDIT]: Pencil,
+};
+
+const describe = (notification: Notification) => {
+  const actor = notification.actor?.name ?? 'Someone';
+  const page = notification.pageId?.title ?? 'a deleted page';
+  switch (notification.type) {
+    case NotificationType.MENTION:
+      return notification.commentId
+        ? `${actor} mentioned you in a comment on ${page}`
+        : `${actor} mentioned you in ${page}`;
+    case NotificationType.REPLY:
+      return `${actor} replied to a comment on ${page}`;
+    case NotificationType.PAGE_EDIT:
+      return notification.count > 1
+        ? `${page} was edited ${notification.count} times, last by ${actor}`
+        : `${actor} edited ${page}`;
+  }
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export function NotificationBell() {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const [unread, setUnread] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setUnread(await notificationApi.getUnreadCount());
+    } catch {
+      // Keep the last count; the next poll tries again
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+    const timer = setInterval(refreshCount, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [refreshCount]);
+
+  const showError = (title: string, err: unknown) => {
+    addToast({
+      title,
+      description: (err as ApiError).message || 'An error occurred.',
+      variant: 'destructive',
+    });
+  };
+
+  const load = async (cursor?: string | null) => {
+    setLoading(true);
+    try {
+      const page = await notificationApi.getAll({ limit: PAGE_SIZE, cursor });
+      setNotifications((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      showError('Failed to load notifications', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      const result = await notificationApi.mark({ ids, read: true });
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((n) => (!ids || ids.includes(n._id) ? { ...n, readAt: n.readAt ?? readAt } : n))
+      );
+      setUnread(result.unread);
+    } catch (err) {
+      showError('Failed to mark notifications as read', err);
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) markRead([notification._id]);
+    if (notification.workspaceId && notification.pageId) {
+      router.push(`/workspaces/${notification.workspaceId._id}?page=${notification.pageId._id}`);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          onClick={() => load()}
+          title="Notifications"
+        >
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 rounded-full bg-destructive px-1 text-[10px] leading-4 text-destructive-foreground">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => markRead()}
+            disabled={unread === 0}
+          >
+            <CheckCheck className="mr-1 h-3 w-3" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <div className="p-6 text-center text-sm text-muted-foreground">
+              {loading ? (
+                <Loader2 className="mx-auto h-4 w-4 animate-spin" />
+              ) : (
+                'You are all caught up.'
+              )}
+            </div>
+          ) : (
+            <>
+              {notifications.map((notification) => {
+                const Icon = ICONS[notification.type];
+                return (
+                  <button
+                    key={notification._id}
+                    type="button"
+                    className={cn(
+                      'flex w-full gap-3 px-3 py-2 text-left text-sm hover:bg-accent',
+                      !notification.readAt && 'bg-primary/5'
+                    )}
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="flex-1 min-w-0">
+                      <span className={cn('block', !notification.readAt && 'font-medium')}>
+                        {describe(notification)}
+                      </span>
+                      <span className="block truncate text-xs text-muted-foreground">
+                        {notification.workspaceId?.title} · {formatTime(notification.updatedAt)}
+                      </span>
+                    </span>
+                    {!notification.readAt && (
+                      <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />
+                    )}
+                  </button>
+                );
+              })}
+              {nextCursor && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full rounded-none"
+                  onClick={() => load(nextCursor)}
+                  disabled={loading}
+                >
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Load more
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
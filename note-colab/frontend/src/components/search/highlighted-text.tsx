@@ -0,0 +1,31 @@
+import type { HighlightedText as HighlightedTextValue } from '@/types/search';
+
+interface HighlightedTextProps {
+  value: HighlightedTextValue;
+  className?: string;
+}
+
+/**
+ * Renders search matches as <mark> elements; the server sends offsets, never markup
+ */
+export function HighlightedText({ value, className }: HighlightedTextProps) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  value.highlights.forEach(([start, end]) => {
+    if (start < position) return;
+    if (start > position) parts.push(value.text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40"
+      >
+        {value.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(value.text.slice(position));
+
+  return <span className={className}>{parts}</span>;
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, FileText, FolderOpen, Loader2, Search, X } from 'lucide-react';
+import { UserMenu } from '@/components/auth/user-menu';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/toast';
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll';
+import { toQueryString, type ApiError } from '@/lib/api';
+import { searchApi } from '@/lib/search-api';
+import { workspaceApi } from '@/lib/workspace-api';
+import type { SearchResult } from '@/types/search';
+import { HighlightedText } from './highlighted-text';
+
+export function SearchView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const query = searchParams.get('q')?.trim() ?? '';
+  const workspaceId = searchParams.get('workspaceId') ?? undefined;
+
+  const { addToast } = useToast();
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [workspaceTitle, setWorkspaceTitle] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query) return;
+    let cancelled = false;
+    setLoading(true);
+    searchApi
+      .search({ q: query, workspaceId })
+      .then(({ items, nextCursor }) => {
+        if (cancelled) return;
+        setResults(items);
+        setNextCursor(nextCursor);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        setResults([]);
+        setNextCursor(null);
+        addToast({
+          title: 'Search failed',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, workspaceId, addToast]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    workspaceApi
+      .getById(workspaceId)
+      .then((workspace) => setWorkspaceTitle(workspace.title))
+      .catch(() => setWorkspaceTitle(null));
+  }, [workspaceId]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const { items, nextCursor: cursor } = await searchApi.search({
+        q: query,
+        workspaceId,
+        cursor: nextCursor,
+      });
+      setResults((prev) => [...prev, ...items]);
+      setNextCursor(cursor);
+    } catch (err) {
+      addToast({
+        title: 'Failed to load more results',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadMoreRef = useInfiniteScroll({
+    hasMore: !!nextCursor,
+    loading: loadingMore,
+    onLoadMore: loadMore,
+  });
+
+  const navigate = (params: { q?: string; workspaceId?: string }) =>
+    router.replace(`/search${toQueryString(params)}`);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate({ q: input.trim(), workspaceId });
+  };
+
+  const openResult = (result: SearchResult) => {
+    const target = `/workspaces/${result.workspace._id}`;
+    router.push(result.page ? `${target}${toQueryString({ page: result.page._id })}` : target);
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Button variant="ghost" size="sm" onClick={() => router.push('/')} className="mb-2">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Workspaces
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+          <p className="text-muted-foreground mt-1">
+            Find pages and workspaces by their title and content.
+          </p>
+        </div>
+        <UserMenu />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder='Words, "exact phrases" or -excluded words'
+            className="pl-8"
+            maxLength={200}
+            autoFocus
+          />
+        </div>
+        <Button type="submit" disabled={!input.trim()}>
+          Search
+        </Button>
+      </form>
+
+      {workspaceId && (
+        <Badge variant="secondary" className="mb-4">
+          In {workspaceTitle ?? 'this workspace'}
+          <button
+            type="button"
+            className="ml-1 rounded-sm hover:text-foreground"
+            onClick={() => navigate({ q: query })}
+            title="Search all workspaces"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+
+      {!query ? null : loading ? (
+        <div className="space-y-2">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : results.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center p-12">
+            <Search className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No results</h3>
+            <p className="text-sm text-muted-foreground text-center max-w-md">
+              Nothing matches &quot;{query}&quot;. Try fewer or different words.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {results.map((result) => (
+            <button
+              key={`${result.type}-${result.page?._id ?? result.workspace._id}`}
+              type="button"
+              onClick={() => openResult(result)}
+              className="flex w-full items-start gap-3 rounded-md border p-3 text-left transition-colors hover:bg-accent"
+            >
+              <div className="p-2 rounded-lg bg-muted shrink-0">
+                {result.type === 'page' ? (
+                  <FileText className="h-4 w-4" />
+                ) : (
+                  <FolderOpen className="h-4 w-4" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <HighlightedText
+                  value={result.title}
+                  className="block text-sm font-medium truncate"
+                />
+                {result.type === 'page' && (
+                  <p className="text-xs text-muted-foreground truncate">
+                    in {result.workspace.title}
+                  </p>
+                )}
+                {result.snippet.text && (
+                  <HighlightedText
+                    value={result.snippet}
+                    className="mt-1 block text-sm text-muted-foreground line-clamp-2"
+                  />
+                )}
+              </div>
+            </button>
+          ))}
+          {nextCursor && !loadingMore && <div ref={loadMoreRef} className="h-1" />}
+          {loadingMore && (
+            <div className="flex justify-center p-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Copy, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { workspaceApi } from '@/lib/workspace-api';
+import type { CloneJob, Workspace } from '@/types/workspace';
+
+interface CloneWorkspaceDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called once the clone is complete */
+  onCloned?: () => void;
+}
+
+const POLL_INTERVAL = 1000;
+
+export function CloneWorkspaceDialog({
+  workspace,
+  open,
+  onOpenChange,
+  onCloned,
+}: CloneWorkspaceDialogProps) {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const [title, setTitle] = useState(`${workspace.title} (copy)`.slice(0, 100));
+  const [isStarting, setIsStarting] = useState(false);
+  const [job, setJob] = useState<CloneJob | null>(null);
+
+  // Each job update schedules the next poll until the clone has finished
+  useEffect(() => {
+    if (!job || job.status !== 'running') return;
+    const timer = setTimeout(() => {
+      workspaceApi
+        .getCloneJob(workspace._id, job._id)
+        .then((next) => {
+          setJob(next);
+          if (next.status === 'completed') onCloned?.();
+        })
+        .catch((err: ApiError) =>
+          addToast({
+            title: 'Failed to check on the clone',
+            description: err.message || 'An error occurred.',
+            variant: 'destructive',
+          })
+        );
+    }, POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [job, workspace._id, onCloned, addToast]);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsStarting(true);
+    try {
+      setJob(await workspaceApi.clone(workspace._id, { title: title.trim() }));
+    } catch (err) {
+      addToast({
+        title: 'Failed to clone workspace',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const percent = job?.total ? Math.round((job.copied / job.total) * 100) : 100;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate &quot;{workspace.title}&quot;</DialogTitle>
+          <DialogDescription>
+            Copies all pages with their order and tags, and the templates, into a new workspace
+            that you own. Members, history and the trash are not copied.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!job ? (
+          <form id="clone-workspace" onSubmit={handleStart}>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title of the new workspace"
+              maxLength={100}
+              disabled={isStarting}
+              required
+            />
+          </form>
+        ) : (
+          <div className="space-y-2">
+            <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+              <div
+                className={cn(
+                  'h-full transition-all',
+                  job.status === 'failed' ? 'bg-destructive' : 'bg-primary'
+                )}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {job.status === 'running' &&
+                `Copied ${job.copied} of ${job.total} pages… Closing this dialog does not stop it.`}
+              {job.status === 'completed' && `Done. ${job.copied} pages copied.`}
+              {job.status === 'failed' && `The clone failed: ${job.error || 'unknown error'}`}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {!job ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isStarting}>
+                Cancel
+              </Button>
+              <Button type="submit" form="clone-workspace" disabled={isStarting || !title.trim()}>
+                {isStarting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Copy className="mr-2 h-4 w-4" />
+                )}
+                Duplicate
+              </Button>
+            </>
+          ) : job.status === 'completed' ? (
+            <Button onClick={() => router.push(`/workspaces/${job.workspaceId}`)}>
+              Open workspace
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
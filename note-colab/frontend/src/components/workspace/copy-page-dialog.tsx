@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { canEdit } from '@/lib/permissions';
+import { workspaceApi } from '@/lib/workspace-api';
+import type { DuplicatePageInput, Page } from '@/types/page';
+import type { Workspace } from '@/types/workspace';
+
+interface CopyPageDialogProps {
+  page: Page;
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCopy: (pageId: string, input: DuplicatePageInput) => Promise<void>;
+}
+
+export function CopyPageDialog({
+  page,
+  workspaceId,
+  open,
+  onOpenChange,
+  onCopy,
+}: CopyPageDialogProps) {
+  const { addToast } = useToast();
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [targetId, setTargetId] = useState('');
+  const [includeSubpages, setIncludeSubpages] = useState(true);
+  const [isCopying, setIsCopying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    workspaceApi
+      .getAll({ limit: 100, sort: 'title' })
+      .then(({ items }) => {
+        if (cancelled) return;
+        // Pages can only be copied into workspaces the user may edit
+        const targets = items.filter((w) => w._id !== workspaceId && canEdit(w.role));
+        setWorkspaces(targets);
+        setTargetId(targets[0]?._id ?? '');
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        setWorkspaces([]);
+        addToast({
+          title: 'Failed to load workspaces',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, addToast]);
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    try {
+      await onCopy(page._id, { workspaceId: targetId, includeSubpages });
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Copy &quot;{page.title}&quot; to another workspace</DialogTitle>
+          <DialogDescription>
+            The copy goes to the top level of the chosen workspace. Its tags are matched by name
+            and created there when missing.
+          </DialogDescription>
+        </DialogHeader>
+        {!workspaces ? (
+          <Skeleton className="h-9 w-full" />
+        ) : workspaces.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You cannot edit any other workspace to copy into.
+          </p>
+        ) : (
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50"
+            disabled={isCopying}
+          >
+            {workspaces.map((workspace) => (
+              <option key={workspace._id} value={workspace._id}>
+                {workspace.title}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={includeSubpages}
+            onChange={(e) => setIncludeSubpages(e.target.checked)}
+            disabled={isCopying}
+          />
+          Include subpages
+        </label>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCopying}>
+            Cancel
+          </Button>
+          <Button onClick={handleCopy} disabled={isCopying || !targetId}>
+            {isCopying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Copy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
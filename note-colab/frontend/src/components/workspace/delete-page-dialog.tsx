@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { DeleteDescendants, Page } from '@/types/page';
+
+interface DeletePageDialogProps {
+  page: Page;
+  /** Number of pages nested below `page` */
+  subpageCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDelete: (pageId: string, descendants: DeleteDescendants) => Promise<void>;
+}
+
+export function DeletePageDialog({
+  page,
+  subpageCount,
+  open,
+  onOpenChange,
+  onDelete,
+}: DeletePageDialogProps) {
+  const [pending, setPending] = useState<DeleteDescendants | null>(null);
+
+  const handleDelete = async (descendants: DeleteDescendants) => {
+    setPending(descendants);
+    try {
+      await onDelete(page._id, descendants);
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Page</DialogTitle>
+          <DialogDescription>
+            &quot;{page.title}&quot; has {subpageCount} {subpageCount === 1 ? 'subpage' : 'subpages'}.
+            Move them to the trash along with it, or keep them one level up?
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={!!pending}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => handleDelete('reparent')} disabled={!!pending}>
+            {pending === 'reparent' ? 'Deleting...' : 'Keep subpages'}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => handleDelete('cascade')}
+            disabled={!!pending}
+          >
+            {pending === 'cascade' ? 'Deleting...' : 'Delete all'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
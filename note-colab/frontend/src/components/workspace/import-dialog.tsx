@@ -0,0 +1,143 @@
+'use client';
+
+import { useState } from 'react';
+import { v4 } from 'uuid';
+import { Loader2, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { workspaceApi } from '@/lib/workspace-api';
+import type { ImportReport, ImportStatus, Workspace } from '@/types/workspace';
+
+interface ImportDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_VARIANTS: Record<ImportStatus, 'default' | 'secondary' | 'destructive'> = {
+  created: 'default',
+  skipped: 'secondary',
+  failed: 'destructive',
+};
+
+export function ImportDialog({ workspace, open, onOpenChange }: ImportDialogProps) {
+  const { addToast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+  // Stays the same for a selection, so retrying after a dropped connection can't import twice
+  const [requestId, setRequestId] = useState(() => v4());
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(e.target.files ?? []));
+    setRequestId(v4());
+    setReport(null);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await workspaceApi.import(workspace._id, files, requestId);
+      setReport(result);
+      addToast({
+        title: 'Import finished',
+        description: `${result.created} page${result.created === 1 ? '' : 's'} created.`,
+        variant: result.failed > 0 ? 'destructive' : 'success',
+      });
+    } catch (err) {
+      addToast({
+        title: 'Import failed',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isImporting) return;
+    if (!next) {
+      setFiles([]);
+      setReport(null);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import into {workspace.title}</DialogTitle>
+          <DialogDescription>
+            Every <code>.md</code> or <code>.txt</code> file becomes a page. Folders in a ZIP become
+            parent pages, and a front-matter <code>title</code> overrides the file name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          multiple
+          accept=".md,.markdown,.txt,.zip"
+          onChange={handleFilesChange}
+          disabled={isImporting}
+        />
+
+        {report && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {report.created} created · {report.failed} failed · {report.skipped} skipped
+            </p>
+            <ScrollArea className="max-h-64 rounded-md border">
+              <div className="divide-y">
+                {report.files.map((entry, i) => (
+                  <div key={i} className="flex items-start gap-3 p-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate" title={entry.file}>
+                        {entry.file}
+                      </p>
+                      {(entry.message || entry.title) && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {entry.message ?? entry.title}
+                        </p>
+                      )}
+                    </div>
+                    <Badge variant={STATUS_VARIANTS[entry.status]} className="capitalize">
+                      {entry.status}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isImporting}>
+            {report ? 'Done' : 'Cancel'}
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || files.length === 0}>
+            {isImporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { tagApi } from '@/lib/tag-api';
+import type { Tag, UpdateTagInput } from '@/types/tag';
+import { TAG_COLORS } from './tag-chip';
+
+interface ManageTagsDialogProps {
+  workspaceId: string;
+  tags: Tag[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTagsChange: (tags: Tag[]) => void;
+}
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name);
+
+function ColorPicker({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex gap-1">
+      {TAG_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          className="h-4 w-4 rounded-full border-2 disabled:opacity-50"
+          style={{
+            backgroundColor: color,
+            borderColor: value === color ? 'var(--foreground)' : 'transparent',
+          }}
+          onClick={() => onChange(color)}
+          disabled={disabled}
+          title={color}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ManageTagsDialog({
+  workspaceId,
+  tags,
+  open,
+  onOpenChange,
+  onTagsChange,
+}: ManageTagsDialogProps) {
+  const { addToast } = useToast();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(TAG_COLORS[0]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Names being edited, keyed by tag id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const clearDraft = (tagId: string) =>
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[tagId];
+      return next;
+    });
+
+  const showError = (title: string, err: unknown) => {
+    addToast({
+      title,
+      description: (err as ApiError).message || 'An error occurred.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const tag = await tagApi.create(workspaceId, { name: name.trim(), color });
+      onTagsChange([...tags, tag].sort(byName));
+      setName('');
+    } catch (err) {
+      showError('Failed to create tag', err);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdate = async (tag: Tag, data: UpdateTagInput) => {
+    setBusyId(tag._id);
+    try {
+      const updated = await tagApi.update(workspaceId, tag._id, data);
+      onTagsChange(tags.map((t) => (t._id === updated._id ? updated : t)).sort(byName));
+    } catch (err) {
+      showError('Failed to update tag', err);
+    } finally {
+      setBusyId(null);
+      clearDraft(tag._id);
+    }
+  };
+
+  const handleRename = (tag: Tag) => {
+    const draft = drafts[tag._id]?.trim();
+    if (draft === undefined) return;
+    if (!draft || draft === tag.name) {
+      clearDraft(tag._id);
+      return;
+    }
+    handleUpdate(tag, { name: draft });
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from all pages.`)) return;
+
+    setBusyId(tag._id);
+    try {
+      await tagApi.delete(workspaceId, tag._id);
+      onTagsChange(tags.filter((t) => t._id !== tag._id));
+    } catch (err) {
+      showError('Failed to delete tag', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription>
+            Tags are shared by everyone in this workspace. Renaming or recoloring one updates every
+            page that has it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New tag name"
+              maxLength={30}
+              disabled={isCreating}
+            />
+            <Button type="submit" disabled={isCreating || !name.trim()}>
+              {isCreating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add
+            </Button>
+          </div>
+          <ColorPicker value={color} onChange={setColor} disabled={isCreating} />
+        </form>
+
+        <div className="space-y-2 py-2 max-h-80 overflow-y-auto">
+          {tags.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-4">No tags yet</p>
+          ) : (
+            tags.map((tag) => {
+              const busy = busyId === tag._id;
+              return (
+                <div key={tag._id} className="flex items-center gap-3 rounded-md border p-2">
+                  <span
+                    className="h-3 w-3 shrink-0 rounded-full"
+                    style={{ backgroundColor: tag.color }}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <Input
+                      value={drafts[tag._id] ?? tag.name}
+                      onChange={(e) =>
+                        setDrafts((prev) => ({ ...prev, [tag._id]: e.target.value }))
+                      }
+                      onBlur={() => handleRename(tag)}
+                      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      className="h-8 text-sm"
+                      maxLength={30}
+                      disabled={busy}
+                    />
+                    <ColorPicker
+                      value={tag.color}
+                      onChange={(next) => next !== tag.color && handleUpdate(tag, { color: next })}
+                      disabled={busy}
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleDelete(tag)}
+                    disabled={busy}
+                    title="Delete tag"
+                  >
+                    {busy ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { Edit2, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { templateApi } from '@/lib/template-api';
+import { PageFormat } from '@/types/page';
+import { TEMPLATE_VARIABLES, type PageTemplate, type PageTemplateInput } from '@/types/template';
+
+interface ManageTemplatesDialogProps {
+  workspaceId: string;
+  templates: PageTemplate[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTemplatesChange: (templates: PageTemplate[]) => void;
+}
+
+const EMPTY_FORM: PageTemplateInput = {
+  name: '',
+  title: '',
+  content: '',
+  format: PageFormat.PLAIN,
+};
+
+const byName = (a: PageTemplate, b: PageTemplate) => a.name.localeCompare(b.name);
+
+export function ManageTemplatesDialog({
+  workspaceId,
+  templates,
+  open,
+  onOpenChange,
+  onTemplatesChange,
+}: ManageTemplatesDialogProps) {
+  const { addToast } = useToast();
+  const [form, setForm] = useState<PageTemplateInput>(EMPTY_FORM);
+  // Template being edited; null while the form creates a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const showError = (title: string, err: unknown) => {
+    addToast({
+      title,
+      description: (err as ApiError).message || 'An error occurred.',
+      variant: 'destructive',
+    });
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (template: PageTemplate) => {
+    setForm({
+      name: template.name,
+      title: template.title,
+      content: template.content,
+      format: template.format,
+    });
+    setEditingId(template._id);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const data = { ...form, name: form.name.trim(), title: form.title.trim() };
+    try {
+      if (editingId) {
+        const updated = await templateApi.update(workspaceId, editingId, data);
+        onTemplatesChange(
+          templates.map((t) => (t._id === updated._id ? updated : t)).sort(byName)
+        );
+      } else {
+        const created = await templateApi.create(workspaceId, data);
+        onTemplatesChange([...templates, created].sort(byName));
+      }
+      resetForm();
+    } catch (err) {
+      showError(editingId ? 'Failed to update template' : 'Failed to create template', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: PageTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Pages made from it are kept.`)) return;
+
+    setDeletingId(template._id);
+    try {
+      await templateApi.delete(workspaceId, template._id);
+      onTemplatesChange(templates.filter((t) => t._id !== template._id));
+      if (editingId === template._id) resetForm();
+    } catch (err) {
+      showError('Failed to delete template', err);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Templates</DialogTitle>
+          <DialogDescription>
+            New pages can start from a template. Use{' '}
+            {TEMPLATE_VARIABLES.map((name, i) => (
+              <span key={name}>
+                {i > 0 && (i === TEMPLATE_VARIABLES.length - 1 ? ' and ' : ', ')}
+                <code>{`{{${name}}}`}</code>
+              </span>
+            ))}{' '}
+            in the title or content; they are filled in when the page is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {templates.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-4">No templates yet</p>
+          ) : (
+            templates.map((template) => {
+              const busy = deletingId === template._id;
+              return (
+                <div key={template._id} className="flex items-center gap-3 rounded-md border p-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{template.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{template.title}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => startEditing(template)}
+                    disabled={busy || isSaving}
+                    title="Edit template"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleDelete(template)}
+                    disabled={busy}
+                    title="Delete template"
+                  >
+                    {busy ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-2 border-t pt-4">
+          <p className="text-sm font-medium">
+            {editingId
+              ? `Edit "${templates.find((t) => t._id === editingId)?.name}"`
+              : 'New template'}
+          </p>
+          <div className="flex gap-2">
+            <Input
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="Template name"
+              maxLength={50}
+              disabled={isSaving}
+              required
+            />
+            <select
+              value={form.format}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, format: e.target.value as PageFormat }))
+              }
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              disabled={isSaving}
+              title="Content format"
+            >
+              <option value={PageFormat.PLAIN}>Plain text</option>
+              <option value={PageFormat.MARKDOWN}>Markdown</option>
+            </select>
+          </div>
+          <Input
+            value={form.title}
+            onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+            placeholder="Page title, e.g. Meeting Notes - {{date}}"
+            maxLength={100}
+            disabled={isSaving}
+            required
+          />
+          <Textarea
+            value={form.content}
+            onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+            placeholder="Page content"
+            maxLength={500}
+            rows={5}
+            className={form.format === PageFormat.MARKDOWN ? 'font-mono text-sm' : undefined}
+            disabled={isSaving}
+          />
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={isSaving || !form.name.trim() || !form.title.trim()}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                !editingId && <Plus className="mr-2 h-4 w-4" />
+              )}
+              {editingId ? 'Save' : 'Add'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
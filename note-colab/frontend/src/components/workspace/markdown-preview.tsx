@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { pageApi } from '@/lib/page-api';
+import { cn } from '@/lib/utils';
+
+const PREVIEW_DELAY = 300;
+
+interface MarkdownContentProps {
+  /** HTML rendered and sanitized by the server */
+  html: string;
+  className?: string;
+  /** Opens `[[links]]` to other pages in place instead of reloading the app */
+  onNavigate?: (pageId: string) => void;
+}
+
+/** The server renders links to pages as `/workspaces/:id?page=:pageId` */
+const linkedPageId = (target: EventTarget) => {
+  const anchor = (target as Element).closest?.('a');
+  const href = anchor?.getAttribute('href');
+  if (!href?.startsWith('/workspaces/')) return null;
+  return new URL(href, window.location.origin).searchParams.get('page');
+};
+
+export function MarkdownContent({ html, className, onNavigate }: MarkdownContentProps) {
+  const handleClick = (e: React.MouseEvent) => {
+    const pageId = onNavigate && linkedPageId(e.target);
+    if (!pageId || e.metaKey || e.ctrlKey || e.shiftKey) return;
+    e.preventDefault();
+    onNavigate(pageId);
+  };
+
+  return (
+    <div
+      className={cn('markdown-body', className)}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+interface MarkdownPreviewProps {
+  workspaceId: string;
+  content: string;
+  /** Server rendering of `content`, when it is already known (e.g. the saved page) */
+  html?: string;
+  className?: string;
+  onNavigate?: (pageId: string) => void;
+}
+
+/**
+ * Shows markdown the way the server renders it; unsaved content is sent to the
+ * preview endpoint once typing pauses
+ */
+export function MarkdownPreview({
+  workspaceId,
+  content,
+  html,
+  className,
+  onNavigate,
+}: MarkdownPreviewProps) {
+  const [rendered, setRendered] = useState('');
+
+  useEffect(() => {
+    if (html !== undefined) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      pageApi
+        .preview(workspaceId, content)
+        .then((data) => {
+          if (!cancelled) setRendered(data.html);
+        })
+        // The last rendering stays up; saving reports real errors
+        .catch(() => undefined);
+    }, PREVIEW_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [workspaceId, content, html]);
+
+  if (!content.trim()) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>Nothing to preview</p>;
+  }
+
+  return <MarkdownContent html={html ?? rendered} className={className} onNavigate={onNavigate} />;
+}
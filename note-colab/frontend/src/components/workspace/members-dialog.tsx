@@ -0,0 +1,230 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, UserMinus, UserPlus } from 'lucide-react';
+import { useAuth } from '@/components/auth/auth-provider';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { canManage } from '@/lib/permissions';
+import { workspaceApi } from '@/lib/workspace-api';
+import { WorkspaceRole, type Workspace, type WorkspaceMember } from '@/types/workspace';
+
+interface MembersDialogProps {
+  workspace: Workspace;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the current user left the workspace */
+  onLeave?: () => void;
+}
+
+const ROLE_OPTIONS = [WorkspaceRole.OWNER, WorkspaceRole.EDITOR, WorkspaceRole.VIEWER];
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm capitalize disabled:opacity-50';
+
+export function MembersDialog({ workspace, open, onOpenChange, onLeave }: MembersDialogProps) {
+  const { user } = useAuth();
+  const { addToast } = useToast();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>(WorkspaceRole.EDITOR);
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const isOwner = canManage(workspace.role);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    workspaceApi
+      .getMembers(workspace._id)
+      .then((data) => {
+        if (!cancelled) setMembers(data);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        addToast({
+          title: 'Failed to load members',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspace._id, addToast]);
+
+  const showError = (title: string, err: unknown) => {
+    addToast({
+      title,
+      description: (err as ApiError).message || 'An error occurred.',
+      variant: 'destructive',
+    });
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    try {
+      const member = await workspaceApi.addMember(workspace._id, { email: email.trim(), role });
+      setMembers((prev) => [...prev, member]);
+      setEmail('');
+    } catch (err) {
+      showError('Failed to invite member', err);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, nextRole: WorkspaceRole) => {
+    setBusyUserId(member.userId._id);
+    try {
+      const updated = await workspaceApi.updateMemberRole(
+        workspace._id,
+        member.userId._id,
+        nextRole
+      );
+      setMembers((prev) => prev.map((m) => (m._id === updated._id ? updated : m)));
+    } catch (err) {
+      showError('Failed to change role', err);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    const isSelf = member.userId._id === user?._id;
+    const question = isSelf
+      ? 'Leave this workspace?'
+      : `Remove ${member.userId.name} from this workspace?`;
+    if (!confirm(question)) return;
+
+    setBusyUserId(member.userId._id);
+    try {
+      await workspaceApi.removeMember(workspace._id, member.userId._id);
+      setMembers((prev) => prev.filter((m) => m._id !== member._id));
+      if (isSelf) {
+        onOpenChange(false);
+        onLeave?.();
+      }
+    } catch (err) {
+      showError(isSelf ? 'Failed to leave workspace' : 'Failed to remove member', err);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Members of {workspace.title}</DialogTitle>
+          <DialogDescription>
+            Owners manage members, editors can change pages, viewers can only read.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email of an existing account"
+              disabled={isInviting}
+              required
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as WorkspaceRole)}
+              className={selectClassName}
+              disabled={isInviting}
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" disabled={isInviting || !email.trim()}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Invite
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-2 py-2">
+          {loading
+            ? [...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+            : members.map((member) => {
+                const isSelf = member.userId._id === user?._id;
+                const busy = busyUserId === member.userId._id;
+                return (
+                  <div key={member._id} className="flex items-center gap-3 rounded-md border p-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {member.userId.name}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {member.userId.email}
+                      </p>
+                    </div>
+                    {isOwner ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          handleRoleChange(member, e.target.value as WorkspaceRole)
+                        }
+                        className={selectClassName}
+                        disabled={busy}
+                      >
+                        {ROLE_OPTIONS.map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs capitalize text-muted-foreground">
+                        {member.role}
+                      </span>
+                    )}
+                    {(isOwner || isSelf) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemove(member)}
+                        disabled={busy}
+                        title={isSelf ? 'Leave workspace' : 'Remove member'}
+                      >
+                        {busy ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <UserMinus className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { ApiError } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { FieldMergeResult, MergeHunk } from '@/types/page';
+
+type HunkChoice = 'server' | 'client' | 'both';
+
+interface MergeConflictDialogProps {
+  conflict: ApiError | null;
+  clientTitle: string;
+  onUseServer: () => void;
+  onOverwrite: () => void;
+  onResolve: (resolved: { title: string; content: string }) => void;
+  onClose: () => void;
+}
+
+const resolveField = (field: FieldMergeResult, choices: HunkChoice[]): string => {
+  let conflictIndex = 0;
+  const lines: string[] = [];
+  field.hunks.forEach((hunk) => {
+    if (hunk.type === 'ok') {
+      lines.push(...(hunk.lines || []));
+      return;
+    }
+    const choice = choices[conflictIndex++] || 'server';
+    if (choice === 'server' || choice === 'both') lines.push(...(hunk.server || []));
+    if (choice === 'client' || choice === 'both') lines.push(...(hunk.client || []));
+  });
+  return lines.join('\n');
+};
+
+const countConflicts = (field?: FieldMergeResult) =>
+  field ? field.hunks.filter((hunk) => hunk.type === 'conflict').length : 0;
+
+interface HunkPickerProps {
+  label: string;
+  field: FieldMergeResult;
+  choices: HunkChoice[];
+  onChange: (index: number, choice: HunkChoice) => void;
+}
+
+function HunkPicker({ label, field, choices, onChange }: HunkPickerProps) {
+  let conflictIndex = -1;
+
+  const renderLines = (lines: string[] | undefined, className?: string) => (
+    <pre className={cn('text-sm whitespace-pre-wrap font-sans', className)}>
+      {lines && lines.length > 0 ? lines.join('\n') : <span className="italic">(empty)</span>}
+    </pre>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-sm">{label}</h4>
+      <div className="space-y-2">
+        {field.hunks.map((hunk: MergeHunk, i) => {
+          if (hunk.type === 'ok') {
+            if (!hunk.lines || hunk.lines.length === 0) return null;
+            return (
+              <div key={i} className="px-3 py-1 text-muted-foreground">
+                {renderLines(hunk.lines)}
+              </div>
+            );
+          }
+
+          conflictIndex++;
+          const index = conflictIndex;
+          const choice = choices[index];
+          return (
+            <div key={i} className="rounded-md border border-orange-300">
+              <div className="grid grid-cols-2 divide-x">
+                <button
+                  type="button"
+                  className={cn(
+                    'p-3 text-left transition-colors',
+                    choice === 'server' || choice === 'both' ? 'bg-blue-50' : 'hover:bg-muted'
+                  )}
+                  onClick={() => onChange(index, 'server')}
+                >
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Server</p>
+                  {renderLines(hunk.server)}
+                </button>
+                <button
+                  type="button"
+                  className={cn(
+                    'p-3 text-left transition-colors',
+                    choice === 'client' || choice === 'both' ? 'bg-green-50' : 'hover:bg-muted'
+                  )}
+                  onClick={() => onChange(index, 'client')}
+                >
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Yours</p>
+                  {renderLines(hunk.client)}
+                </button>
+              </div>
+              <div className="border-t px-3 py-1 text-right">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={cn('h-6 text-xs', choice === 'both' && 'font-semibold')}
+                  onClick={() => onChange(index, 'both')}
+                >
+                  Keep both
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function MergeConflictDialog({
+  conflict,
+  clientTitle,
+  onUseServer,
+  onOverwrite,
+  onResolve,
+  onClose,
+}: MergeConflictDialogProps) {
+  const conflicts = conflict?.conflicts;
+  const [titleChoices, setTitleChoices] = useState<HunkChoice[]>([]);
+  const [contentChoices, setContentChoices] = useState<HunkChoice[]>([]);
+  const [choicesFor, setChoicesFor] = useState(conflicts);
+
+  // Every new conflict starts with the server side selected for each hunk
+  if (choicesFor !== conflicts) {
+    setChoicesFor(conflicts);
+    setTitleChoices(Array(countConflicts(conflicts?.title)).fill('server'));
+    setContentChoices(Array(countConflicts(conflicts?.content)).fill('server'));
+  }
+
+  const updateChoice =
+    (setter: React.Dispatch<React.SetStateAction<HunkChoice[]>>) =>
+    (index: number, choice: HunkChoice) =>
+      setter((prev) => prev.map((value, i) => (i === index ? choice : value)));
+
+  const handleResolve = () => {
+    if (!conflicts) return;
+    onResolve({
+      title: resolveField(conflicts.title, titleChoices),
+      content: resolveField(conflicts.content, contentChoices),
+    });
+  };
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Version Conflict Detected
+          </DialogTitle>
+          <DialogDescription>
+            {conflicts
+              ? 'Some of your edits overlap with changes saved by someone else. Pick which side to keep for each highlighted section; everything else was merged automatically.'
+              : 'This page was modified by someone else while you were editing. Choose how to resolve the conflict.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && conflicts && (
+          <div className="space-y-6 py-4">
+            {conflicts.title.conflict && (
+              <HunkPicker
+                label="Title"
+                field={conflicts.title}
+                choices={titleChoices}
+                onChange={updateChoice(setTitleChoices)}
+              />
+            )}
+            {conflicts.content.conflict && (
+              <HunkPicker
+                label="Content"
+                field={conflicts.content}
+                choices={contentChoices}
+                onChange={updateChoice(setContentChoices)}
+              />
+            )}
+          </div>
+        )}
+
+        {conflict && !conflicts && (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <h4 className="font-semibold text-sm">Server Version (v{conflict.serverVersion})</h4>
+                <div className="p-3 bg-muted rounded-md border">
+                  <p className="text-sm font-medium mb-2">{conflict.serverTitle}</p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                    {conflict.serverContent || 'No content'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-semibold text-sm">Your Version (v{conflict.clientVersion})</h4>
+                <div className="p-3 bg-muted rounded-md border">
+                  <p className="text-sm font-medium mb-2">{clientTitle}</p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                    {conflict.clientContent || 'No content'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onUseServer}>
+            Use Server Version
+          </Button>
+          {conflicts ? (
+            <Button onClick={handleResolve}>Save Merged Version</Button>
+          ) : (
+            <Button onClick={onOverwrite}>Overwrite with My Version</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
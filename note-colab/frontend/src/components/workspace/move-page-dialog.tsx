@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getAncestors, getDescendantIds } from '@/lib/page-tree';
+import type { Page } from '@/types/page';
+
+interface MovePageDialogProps {
+  page: Page;
+  pages: Page[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMove: (pageId: string, parentId: string | null) => Promise<void>;
+}
+
+const TOP_LEVEL = '';
+
+export function MovePageDialog({ page, pages, open, onOpenChange, onMove }: MovePageDialogProps) {
+  const [parentId, setParentId] = useState(page.parentId ?? TOP_LEVEL);
+  const [isMoving, setIsMoving] = useState(false);
+
+  // A page cannot go under itself or its own subpages
+  const excluded = getDescendantIds(pages, page._id).add(page._id);
+  const options = pages
+    .filter((candidate) => !excluded.has(candidate._id))
+    .map((candidate) => ({
+      _id: candidate._id,
+      label: [...getAncestors(pages, candidate._id), candidate].map((p) => p.title).join(' / '),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const handleMove = async () => {
+    setIsMoving(true);
+    try {
+      await onMove(page._id, parentId || null);
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move &quot;{page.title}&quot;</DialogTitle>
+          <DialogDescription>Its subpages move along with it.</DialogDescription>
+        </DialogHeader>
+        <select
+          value={parentId}
+          onChange={(e) => setParentId(e.target.value)}
+          className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50"
+          disabled={isMoving}
+        >
+          <option value={TOP_LEVEL}>Top level</option>
+          {options.map((option) => (
+            <option key={option._id} value={option._id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isMoving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMove}
+            disabled={isMoving || parentId === (page.parentId ?? TOP_LEVEL)}
+          >
+            {isMoving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
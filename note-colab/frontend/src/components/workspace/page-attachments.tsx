@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FileText, Image as ImageIcon, Loader2, Paperclip, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_FILES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENT_TOTAL_SIZE,
+  attachmentApi,
+  getAttachmentUrl,
+} from '@/lib/attachment-api';
+import { cn } from '@/lib/utils';
+import type { Attachment } from '@/types/attachment';
+
+interface PageAttachmentsProps {
+  workspaceId: string;
+  pageId: string;
+  readOnly?: boolean;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * The files attached to a page. Editors add files by dropping them on the list
+ * or picking them; images open in a new tab, everything else downloads.
+ */
+export function PageAttachments({ workspaceId, pageId, readOnly = false }: PageAttachmentsProps) {
+  const { addToast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    attachmentApi
+      .getAll(workspaceId, pageId)
+      .then((data) => {
+        if (!cancelled) setAttachments(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          addToast({
+            title: 'Failed to load attachments',
+            description: (err as ApiError).message || 'An error occurred.',
+            variant: 'destructive',
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, pageId, addToast]);
+
+  const handleUpload = async (files: File[]) => {
+    if (files.length === 0 || isUploading) return;
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE);
+    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (
+      files.length > MAX_ATTACHMENT_FILES ||
+      tooLarge.length > 0 ||
+      totalSize > MAX_ATTACHMENT_TOTAL_SIZE
+    ) {
+      addToast({
+        title: 'Cannot upload these files',
+        description:
+          tooLarge.length > 0
+            ? `Files can be up to ${formatSize(MAX_ATTACHMENT_SIZE)}: ` +
+              tooLarge.map((file) => file.name).join(', ')
+            : files.length > MAX_ATTACHMENT_FILES
+              ? `Upload at most ${MAX_ATTACHMENT_FILES} files at once.`
+              : `Upload at most ${formatSize(MAX_ATTACHMENT_TOTAL_SIZE)} at once.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded = await attachmentApi.upload(workspaceId, pageId, files);
+      setAttachments((prev) => [
+        ...prev,
+        ...uploaded.filter((attachment) => !prev.some((a) => a._id === attachment._id)),
+      ]);
+    } catch (err) {
+      addToast({
+        title: 'Upload failed',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    setDeletingId(attachment._id);
+    try {
+      await attachmentApi.delete(workspaceId, pageId, attachment._id);
+      setAttachments((prev) => prev.filter((a) => a._id !== attachment._id));
+    } catch (err) {
+      addToast({
+        title: 'Failed to delete attachment',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!readOnly) handleUpload(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div
+      className={cn(
+        'mt-6 rounded-md border border-dashed p-3',
+        dragging && 'border-primary bg-primary/5'
+      )}
+      onDragOver={(e) => {
+        if (readOnly || !e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        // Leaving for one of the children is not leaving the drop zone
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Paperclip className="h-4 w-4" />
+          Attachments
+          {attachments.length > 0 && (
+            <span className="text-muted-foreground">({attachments.length})</span>
+          )}
+        </span>
+        {!readOnly && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                handleUpload(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              {isUploading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Add files
+            </Button>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="py-2 text-xs text-muted-foreground">
+          {readOnly
+            ? 'No files attached.'
+            : 'Drop images, PDFs, CSV or text files here to attach them.'}
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {attachments.map((attachment) => {
+            const isImage = attachment.mimeType.startsWith('image/');
+            const Icon = isImage ? ImageIcon : FileText;
+            return (
+              <li
+                key={attachment._id}
+                className="group flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-accent"
+              >
+                <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <a
+                  href={getAttachmentUrl(attachment, isImage)}
+                  target={isImage ? '_blank' : undefined}
+                  rel="noreferrer"
+                  className="min-w-0 flex-1 truncate hover:underline"
+                  title={attachment.name}
+                >
+                  {attachment.name}
+                </a>
+                <span className="shrink-0 text-xs text-muted-foreground">
+                  {formatSize(attachment.size)}
+                  {attachment.uploadedBy && ` · ${attachment.uploadedBy.name}`}
+                </span>
+                {!readOnly && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={() => handleDelete(attachment)}
+                    disabled={deletingId === attachment._id}
+                    title="Delete attachment"
+                  >
+                    {deletingId === attachment._id ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-3 w-3" />
+                    )}
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
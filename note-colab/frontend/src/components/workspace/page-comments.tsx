@@ -0,0 +1,497 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  CheckCircle2,
+  Loader2,
+  MessageSquare,
+  Pencil,
+  Quote,
+  Reply,
+  RotateCcw,
+  Send,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useAuth } from '@/components/auth/auth-provider';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { commentApi } from '@/lib/comment-api';
+import { cn } from '@/lib/utils';
+import type {
+  CommentAnchor,
+  CommentThread,
+  CommentThreadStatus,
+  PageComment,
+} from '@/types/comment';
+import type { Page } from '@/types/page';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+interface PageCommentsProps {
+  page: Page;
+  workspaceId: string;
+  /** The content editor, to quote its selection from */
+  contentRef: React.RefObject<HTMLTextAreaElement | null>;
+  /** Editors may delete and resolve anyone's comments, others only their own */
+  canModerate?: boolean;
+  /** Shows the text a thread is about */
+  onSelectAnchor?: (anchor: CommentAnchor) => void;
+  onClose: () => void;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/** Puts an edited or resolved comment in place of the old one, wherever it is */
+const replaceComment = (threads: CommentThread[], updated: PageComment) =>
+  threads.map((thread) =>
+    thread._id === updated._id
+      ? { ...thread, ...updated, anchor: thread.anchor }
+      : {
+          ...thread,
+          replies: thread.replies.map((reply) => (reply._id === updated._id ? updated : reply)),
+        }
+  );
+
+interface CommentItemProps {
+  comment: PageComment;
+  canEdit: boolean;
+  canDelete: boolean;
+  busy: boolean;
+  onSave: (body: string) => Promise<boolean>;
+  onDelete: () => void;
+}
+
+function CommentItem({ comment, canEdit, canDelete, busy, onSave, onDelete }: CommentItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.body);
+
+  const handleSave = async () => {
+    if (await onSave(draft.trim())) setEditing(false);
+  };
+
+  return (
+    <div className="group text-sm">
+      <div className="flex items-center gap-1">
+        <span className="font-medium truncate">{comment.author?.name ?? 'Unknown'}</span>
+        <span className="text-xs text-muted-foreground shrink-0">
+          {formatDate(comment.createdAt)}
+          {comment.editedAt && ' · edited'}
+        </span>
+        <div className="ml-auto flex opacity-0 group-hover:opacity-100 transition-opacity">
+          {canEdit && !editing && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => {
+                setDraft(comment.body);
+                setEditing(true);
+              }}
+              title="Edit"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-destructive"
+              onClick={onDelete}
+              disabled={busy}
+              title="Delete"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {editing ? (
+        <div className="mt-1 space-y-1">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_COMMENT_LENGTH}
+            className="min-h-[60px] text-sm"
+            autoFocus
+          />
+          <div className="flex justify-end gap-1">
+            <Button variant="ghost" size="sm" className="h-7" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-7" onClick={handleSave} disabled={busy || !draft.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="mt-0.5 whitespace-pre-wrap break-words">{comment.body}</p>
+      )}
+    </div>
+  );
+}
+
+export function PageComments({
+  page,
+  workspaceId,
+  contentRef,
+  canModerate = false,
+  onSelectAnchor,
+  onClose,
+}: PageCommentsProps) {
+  const { user } = useAuth();
+  const { addToast } = useToast();
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<CommentThreadStatus>('open');
+  const [draft, setDraft] = useState('');
+  const [selection, setSelection] = useState<Omit<CommentAnchor, 'detached'> | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Reloaded with every saved version, which is when anchors may have moved
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    commentApi
+      .getThreads(workspaceId, page._id)
+      .then((data) => {
+        if (!cancelled) setThreads(data);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        addToast({
+          title: 'Failed to load comments',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, page._id, page.__v, addToast]);
+
+  const showError = (title: string, err: unknown) => {
+    addToast({
+      title,
+      description: (err as ApiError).message || 'An error occurred.',
+      variant: 'destructive',
+    });
+  };
+
+  const quoteSelection = () => {
+    const textarea = contentRef.current;
+    if (!textarea || textarea.selectionStart === textarea.selectionEnd) {
+      addToast({
+        title: 'Nothing selected',
+        description: 'Select some text of the page to comment on it.',
+      });
+      return;
+    }
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    setSelection({ start, end, quote: textarea.value.slice(start, end) });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPosting(true);
+    try {
+      const comment = await commentApi.create(workspaceId, page._id, {
+        body: draft.trim(),
+        ...(selection && { anchor: selection }),
+      });
+      setThreads((prev) => [...prev, { ...comment, replies: [] }]);
+      setFilter('open');
+      setDraft('');
+      setSelection(null);
+    } catch (err) {
+      showError('Failed to add comment', err);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleReply = async (thread: CommentThread) => {
+    setBusyId(thread._id);
+    try {
+      const reply = await commentApi.create(workspaceId, page._id, {
+        body: replyDraft.trim(),
+        parentId: thread._id,
+      });
+      setThreads((prev) =>
+        prev.map((t) => (t._id === thread._id ? { ...t, replies: [...t.replies, reply] } : t))
+      );
+      setReplyTo(null);
+      setReplyDraft('');
+    } catch (err) {
+      showError('Failed to reply', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEdit = async (comment: PageComment, body: string) => {
+    setBusyId(comment._id);
+    try {
+      const updated = await commentApi.update(workspaceId, page._id, comment._id, body);
+      setThreads((prev) => replaceComment(prev, updated));
+      return true;
+    } catch (err) {
+      showError('Failed to edit comment', err);
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (comment: PageComment) => {
+    const question = comment.threadId
+      ? 'Delete this reply?'
+      : 'Delete this comment and all of its replies?';
+    if (!confirm(question)) return;
+
+    setBusyId(comment._id);
+    try {
+      await commentApi.delete(workspaceId, page._id, comment._id);
+      setThreads((prev) =>
+        comment.threadId
+          ? prev.map((t) => ({ ...t, replies: t.replies.filter((r) => r._id !== comment._id) }))
+          : prev.filter((t) => t._id !== comment._id)
+      );
+    } catch (err) {
+      showError('Failed to delete comment', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleResolved = async (thread: CommentThread) => {
+    setBusyId(thread._id);
+    try {
+      const updated = thread.resolvedAt
+        ? await commentApi.reopen(workspaceId, page._id, thread._id)
+        : await commentApi.resolve(workspaceId, page._id, thread._id);
+      setThreads((prev) => replaceComment(prev, updated));
+    } catch (err) {
+      showError(thread.resolvedAt ? 'Failed to reopen thread' : 'Failed to resolve thread', err);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isAuthor = (comment: PageComment) => comment.author?._id === user?._id;
+  const canDelete = (comment: PageComment) => canModerate || isAuthor(comment);
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length;
+  const shown = threads.filter((thread) => !!thread.resolvedAt === (filter === 'resolved'));
+
+  return (
+    <div className="flex flex-col h-full w-80 border-l bg-muted/30">
+      <div className="p-4 border-b flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Comments
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="flex gap-1 border-b p-2">
+        {(['open', 'resolved'] as const).map((status) => (
+          <Button
+            key={status}
+            variant={filter === status ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 flex-1 capitalize"
+            onClick={() => setFilter(status)}
+          >
+            {status}
+            <span className="ml-1 text-xs text-muted-foreground">
+              {status === 'open' ? openCount : threads.length - openCount}
+            </span>
+          </Button>
+        ))}
+      </div>
+
+      <ScrollArea className="flex-1">
+        {loading ? (
+          <div className="p-4 space-y-2">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            {filter === 'open' ? 'No open comments.' : 'No resolved comments.'}
+          </div>
+        ) : (
+          <div className="p-2 space-y-2">
+            {shown.map((thread) => (
+              <div
+                key={thread._id}
+                className={cn(
+                  'rounded-md border bg-background p-3 space-y-3',
+                  thread.resolvedAt && 'opacity-75'
+                )}
+              >
+                {thread.anchor &&
+                  (thread.anchor.detached ? (
+                    <p className="border-l-2 pl-2 text-xs text-muted-foreground">
+                      <span className="line-through">{thread.anchor.quote}</span>
+                      <span className="block italic">The quoted text was changed or removed</span>
+                    </p>
+                  ) : (
+                    <button
+                      type="button"
+                      className="block w-full border-l-2 border-yellow-400 pl-2 text-left text-xs text-muted-foreground line-clamp-3 hover:text-foreground"
+                      onClick={() => thread.anchor && onSelectAnchor?.(thread.anchor)}
+                      title="Show in page"
+                    >
+                      {thread.anchor.quote}
+                    </button>
+                  ))}
+
+                {[thread, ...thread.replies].map((comment) => (
+                  <CommentItem
+                    key={comment._id}
+                    comment={comment}
+                    canEdit={isAuthor(comment)}
+                    canDelete={canDelete(comment)}
+                    busy={busyId === comment._id}
+                    onSave={(body) => handleEdit(comment, body)}
+                    onDelete={() => handleDelete(comment)}
+                  />
+                ))}
+
+                {thread.resolvedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Resolved by {thread.resolvedBy?.name ?? 'someone'} on{' '}
+                    {formatDate(thread.resolvedAt)}
+                  </p>
+                )}
+
+                {replyTo === thread._id ? (
+                  <div className="space-y-1">
+                    <Textarea
+                      value={replyDraft}
+                      onChange={(e) => setReplyDraft(e.target.value)}
+                      placeholder="Reply…"
+                      maxLength={MAX_COMMENT_LENGTH}
+                      className="min-h-[60px] text-sm"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => setReplyTo(null)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="h-7"
+                        onClick={() => handleReply(thread)}
+                        disabled={busyId === thread._id || !replyDraft.trim()}
+                      >
+                        Reply
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      onClick={() => {
+                        setReplyTo(thread._id);
+                        setReplyDraft('');
+                      }}
+                    >
+                      <Reply className="mr-1 h-3 w-3" />
+                      Reply
+                    </Button>
+                    {canDelete(thread) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => handleToggleResolved(thread)}
+                        disabled={busyId === thread._id}
+                      >
+                        {thread.resolvedAt ? (
+                          <RotateCcw className="mr-1 h-3 w-3" />
+                        ) : (
+                          <CheckCircle2 className="mr-1 h-3 w-3" />
+                        )}
+                        {thread.resolvedAt ? 'Reopen' : 'Resolve'}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <form onSubmit={handleCreate} className="border-t p-3 space-y-2">
+        {selection && (
+          <div className="flex items-start gap-1 border-l-2 border-yellow-400 pl-2 text-xs text-muted-foreground">
+            <span className="flex-1 line-clamp-2">{selection.quote}</span>
+            <button type="button" onClick={() => setSelection(null)} title="Remove quote">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a comment… Mention people with @Name"
+          maxLength={MAX_COMMENT_LENGTH}
+          className="min-h-[60px] text-sm"
+          disabled={isPosting}
+        />
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={quoteSelection}
+            title="Comment on the text selected in the page"
+          >
+            <Quote className="mr-1 h-3 w-3" />
+            Quote selection
+          </Button>
+          <Button type="submit" size="sm" className="h-7" disabled={isPosting || !draft.trim()}>
+            {isPosting ? (
+              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+            ) : (
+              <Send className="mr-1 h-3 w-3" />
+            )}
+            Comment
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
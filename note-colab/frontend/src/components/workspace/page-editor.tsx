@@ -15,52 +15,207 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/toast';
 import type { ApiError } from '@/lib/api';
 import { pageApi } from '@/lib/page-api';
-import { sanitize } from '@/lib/utils';
-import type { CreatePageInput, Page, UpdatePageInput } from '@/types/page';
-import { AlertTriangle, FileText, Loader2, Save } from 'lucide-react';
+import { EDITING_IDLE_TIMEOUT } from '@/lib/presence';
+import { cn, sanitize } from '@/lib/utils';
+import { useCollaborativeText } from '@/hooks/use-collaborative-text';
+import { PageFormat, type CreatePageInput, type Page, type UpdatePageInput } from '@/types/page';
+import type { CommentAnchor } from '@/types/comment';
+import type { PresenceMember } from '@/types/presence';
+import type { Tag } from '@/types/tag';
+import {
+  ChevronRight,
+  Columns2,
+  Eye,
+  FileText,
+  History,
+  Loader2,
+  MessageSquare,
+  Pencil,
+  PenLine,
+  RefreshCw,
+  Radio,
+  Save,
+  Share2,
+} from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
+import { MarkdownPreview } from './markdown-preview';
+import { MergeConflictDialog } from './merge-conflict-dialog';
+import { PageAttachments } from './page-attachments';
+import { PageComments } from './page-comments';
+import { PageHistory } from './page-history';
+import { PageLinks } from './page-links';
+import { PageTags } from './page-tags';
+import { ShareDialog } from './share-dialog';
+import { PresenceAvatars } from './presence-avatars';
+import { WatchButton } from './watch-button';
+
+interface PageBase {
+  pageId: string;
+  title: string;
+  content: string;
+  format: PageFormat;
+  version?: number;
+}
+
+/** How markdown pages are shown: the source, the rendering or both side by side */
+type ViewMode = 'edit' | 'preview' | 'split';
+
+const VIEW_MODES: { mode: ViewMode; label: string; icon: typeof Eye }[] = [
+  { mode: 'edit', label: 'Edit', icon: PenLine },
+  { mode: 'preview', label: 'Preview', icon: Eye },
+  { mode: 'split', label: 'Split', icon: Columns2 },
+];
 
 interface PageEditorProps {
   page: Page | null;
   workspaceId: string;
-  onSave: (data: CreatePageInput | UpdatePageInput) => Promise<void>;
+  onSave: (data: CreatePageInput | UpdatePageInput) => Promise<Page | void>;
   onPageChange?: (page: Page | null) => void;
+  /** Other people who have this page open */
+  presence?: PresenceMember[];
+  onEditingChange?: (editing: boolean) => void;
+  /** Viewers can read pages and their history but not change them */
+  readOnly?: boolean;
+  /** Owners can create and revoke public share links */
+  canShare?: boolean;
+  /** Pages above this one, from the top level down to its parent */
+  breadcrumbs?: Page[];
+  onNavigate?: (pageId: string) => void;
+  /** All tags of the workspace, to pick the page's tags from */
+  tags?: Tag[];
+  onTagsChange?: (tags: Tag[]) => void;
 }
 
-export function PageEditor({ page, workspaceId, onSave, onPageChange }: PageEditorProps) {
+export function PageEditor({
+  page,
+  workspaceId,
+  onSave,
+  onPageChange,
+  presence = [],
+  onEditingChange,
+  readOnly = false,
+  canShare = false,
+  breadcrumbs = [],
+  onNavigate,
+  tags = [],
+  onTagsChange,
+}: PageEditorProps) {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [format, setFormat] = useState<PageFormat>(PageFormat.PLAIN);
+  const [viewMode, setViewMode] = useState<ViewMode>(readOnly ? 'preview' : 'edit');
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [conflictError, setConflictError] = useState<ApiError | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   const { addToast } = useToast();
   const titleInputRef = useRef<HTMLInputElement>(null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+
+  // In live mode the content is edited through the shared document and saved by the server
+  const [liveEditing, setLiveEditing] = useState(false);
+  const live = useCollaborativeText(workspaceId, page?._id ?? null, liveEditing, contentRef);
+
+  const [typing, setTyping] = useState(false);
+  const typingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Page for which the user chose to edit despite someone else editing it
+  const [acknowledgedPageId, setAcknowledgedPageId] = useState<string | null>(null);
+  const [showEditWarning, setShowEditWarning] = useState(false);
+  const othersEditing = presence.filter((member) => member.state === 'editing');
+
+  // The saved version the local edits started from; sent as __v so the server can merge
+  const [base, setBase] = useState<PageBase | null>(null);
+  const [syncedPage, setSyncedPage] = useState<Page | null>(null);
+  const [remoteUpdate, setRemoteUpdate] = useState(false);
+
+  const loadPage = (next: Page | null) => {
+    setTitle(next?.title || '');
+    setContent(next?.content || '');
+    setFormat(next?.format ?? PageFormat.PLAIN);
+    setBase(
+      next
+        ? {
+            pageId: next._id,
+            title: next.title,
+            content: next.content || '',
+            format: next.format ?? PageFormat.PLAIN,
+            version: next.__v,
+          }
+        : null
+    );
+    setRemoteUpdate(false);
+    setTyping(false);
+  };
+
+  // A live update must not wipe unsaved edits: keep them and let the save merge instead
+  if (page !== syncedPage) {
+    setSyncedPage(page);
+    const isDirty =
+      !!base && (title !== base.title || content !== base.content || format !== base.format);
+    if (page && base?.pageId === page._id && isDirty) {
+      setRemoteUpdate(page.__v !== base.version);
+    } else {
+      loadPage(page);
+    }
+  }
 
   useEffect(() => {
-    if (page) {
-      setTitle(page.title);
-      setContent(page.content || '');
-      setHasChanges(false);
+    if (page?._id) {
       titleInputRef.current?.focus();
-    } else {
-      setTitle('');
-      setContent('');
-      setHasChanges(false);
     }
-  }, [page]);
+  }, [page?._id]);
 
   useEffect(() => {
-    if (page) {
-      const titleChanged = title !== page.title;
-      const contentChanged = content !== (page.content || '');
-      setHasChanges(titleChanged || contentChanged);
+    if (base) {
+      const titleChanged = title !== base.title;
+      const contentChanged = !liveEditing && content !== base.content;
+      setHasChanges(titleChanged || contentChanged || format !== base.format);
     } else {
       setHasChanges(title.trim().length > 0 || content.trim().length > 0);
     }
-  }, [title, content, page]);
+  }, [title, content, format, base, liveEditing]);
+
+  const editing = hasChanges || typing;
+  useEffect(() => {
+    onEditingChange?.(editing);
+  }, [editing, onEditingChange]);
+
+  useEffect(() => {
+    return () => {
+      if (typingTimer.current) clearTimeout(typingTimer.current);
+    };
+  }, []);
+
+  /**
+   * Lets an edit through unless someone else is editing this page and the user has
+   * not confirmed yet. Live sessions merge edits, so they are never held back.
+   */
+  const allowEdit = () => {
+    if (!liveEditing && page && othersEditing.length > 0 && acknowledgedPageId !== page._id) {
+      setShowEditWarning(true);
+      return false;
+    }
+    setTyping(true);
+    if (typingTimer.current) clearTimeout(typingTimer.current);
+    typingTimer.current = setTimeout(() => setTyping(false), EDITING_IDLE_TIMEOUT);
+    return true;
+  };
 
-  const handleSave = async (overrideVersion?: number) => {
-    if (!title.trim()) {
+  const handleEditAnyway = (goLive: boolean) => {
+    setAcknowledgedPageId(page?._id ?? null);
+    setShowEditWarning(false);
+    if (goLive) setLiveEditing(true);
+  };
+
+  const handleSave = async (
+    overrideVersion?: number,
+    overrides?: { title: string; content: string }
+  ) => {
+    const nextTitle = overrides ? overrides.title : title;
+    const nextContent = overrides ? overrides.content : content;
+    if (!nextTitle.trim()) {
       addToast({
         title: 'Title required',
         description: 'Please enter a title for the page.',
@@ -71,11 +226,18 @@ export function PageEditor({ page, workspaceId, onSave, onPageChange }: PageEdit
 
     setIsSaving(true);
     try {
-       await onSave({
-        title: sanitize(title.trim()),
-        content: sanitize(content.trim()),
-         __v: overrideVersion !== undefined ? overrideVersion : (page?.__v || 0),
+      // Markdown source is sanitized when the server renders it; escaping it here would break it
+      const savedContent =
+        format === PageFormat.MARKDOWN ? nextContent.trim() : sanitize(nextContent.trim());
+       const savedPage = await onSave({
+        title: sanitize(nextTitle.trim()),
+        content: liveEditing ? undefined : savedContent,
+        format,
+         __v: overrideVersion !== undefined ? overrideVersion : (base?.version || 0),
       });
+      if (savedPage) {
+        loadPage(savedPage);
+      }
       addToast({
         title: page ? 'Page updated' : 'Page created',
         description: 'Your changes have been saved.',
@@ -115,8 +277,7 @@ export function PageEditor({ page, workspaceId, onSave, onPageChange }: PageEdit
       setIsSaving(true);
       try {
         const refreshedPage = await pageApi.getById(workspaceId, page._id);
-        setTitle(refreshedPage.title);
-        setContent(refreshedPage.content || '');
+        loadPage(refreshedPage);
         setHasChanges(false);
         if (onPageChange) {
           onPageChange(refreshedPage);
@@ -167,6 +328,45 @@ export function PageEditor({ page, workspaceId, onSave, onPageChange }: PageEdit
     }
   };
 
+  const handleResolveMerge = async (resolved: { title: string; content: string }) => {
+    if (!conflictError) return;
+    const serverVersion = conflictError.serverVersion;
+    setConflictError(null);
+    setTitle(resolved.title);
+    setContent(resolved.content);
+    // handleSave surfaces a fresh conflict dialog if the page moved on again meanwhile
+    await handleSave(serverVersion, resolved);
+  };
+
+  const handleToggleLive = () => {
+    if (liveEditing && page) {
+      // Pick up what the live session wrote; the server saves it shortly after edits stop
+      loadPage(page);
+    }
+    setLiveEditing(!liveEditing);
+  };
+
+  const handleRestoreRevision = (restoredPage: Page) => {
+    loadPage(restoredPage);
+    setHasChanges(false);
+    if (onPageChange) {
+      onPageChange(restoredPage);
+    }
+  };
+
+  const handleSelectAnchor = (anchor: CommentAnchor) => {
+    // The source has to be visible to select the text in it
+    if (format === PageFormat.MARKDOWN && viewMode === 'preview') setViewMode('split');
+    requestAnimationFrame(() => {
+      contentRef.current?.focus();
+      contentRef.current?.setSelectionRange(anchor.start, anchor.end);
+    });
+  };
+
+  const shownContent = liveEditing ? live.text : content;
+  // Plain pages only have the source
+  const mode: ViewMode = format === PageFormat.MARKDOWN ? viewMode : 'edit';
+
   if (!page && !hasChanges) {
     return (
       <div className="flex-1 flex items-center justify-center bg-muted/20">
@@ -191,103 +391,274 @@ export function PageEditor({ page, workspaceId, onSave, onPageChange }: PageEdit
 
   return (
     <>
-      <Dialog open={!!conflictError} onOpenChange={(open) => !open && setConflictError(null)}>
-        <DialogContent className="max-w-2xl">
+      <MergeConflictDialog
+        conflict={conflictError}
+        clientTitle={title}
+        onUseServer={() => handleResolveConflict(true)}
+        onOverwrite={() => handleResolveConflict(false)}
+        onResolve={handleResolveMerge}
+        onClose={() => setConflictError(null)}
+      />
+
+      {page && canShare && (
+        <ShareDialog
+          page={page}
+          workspaceId={workspaceId}
+          open={showShare}
+          onOpenChange={setShowShare}
+        />
+      )}
+
+      <Dialog open={showEditWarning} onOpenChange={setShowEditWarning}>
+        <DialogContent>
           <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5 text-destructive" />
-              Version Conflict Detected
-            </DialogTitle>
+            <DialogTitle>Someone else is editing this page</DialogTitle>
             <DialogDescription>
-              This page was modified by someone else while you were editing. Choose how to resolve the conflict.
+              {othersEditing.map((member) => member.name).join(', ')}{' '}
+              {othersEditing.length === 1 ? 'is' : 'are'} making changes right now. Edits saved
+              on both sides may conflict; a live session merges them as you type.
             </DialogDescription>
           </DialogHeader>
-          
-          {conflictError && (
-            <div className="space-y-4 py-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <h4 className="font-semibold text-sm">Server Version (v{conflictError.serverVersion})</h4>
-                  <div className="p-3 bg-muted rounded-md border">
-                    <p className="text-sm font-medium mb-2">{page?.title}</p>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {conflictError.serverContent || 'No content'}
-                    </p>
-                  </div>
-                </div>
-                
-                <div className="space-y-2">
-                  <h4 className="font-semibold text-sm">Your Version (v{conflictError.clientVersion})</h4>
-                  <div className="p-3 bg-muted rounded-md border">
-                    <p className="text-sm font-medium mb-2">{title}</p>
-                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                      {conflictError.clientContent || 'No content'}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
-          
           <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => handleResolveConflict(true)}
-            >
-              Use Server Version
-            </Button>
-            <Button
-              onClick={() => handleResolveConflict(false)}
-            >
-              Overwrite with My Version
+            <Button variant="outline" onClick={() => setShowEditWarning(false)}>
+              Cancel
             </Button>
+            {!hasChanges && (
+              <Button variant="outline" onClick={() => handleEditAnyway(true)}>
+                <Radio className="mr-2 h-4 w-4" />
+                Go live
+              </Button>
+            )}
+            <Button onClick={() => handleEditAnyway(false)}>Edit anyway</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
-      <div className="flex flex-col h-full bg-background">
+      <div className="flex h-full">
+      <div className="flex flex-col flex-1 h-full bg-background">
         <div className="border-b p-4 flex items-center justify-between">
         <div className="flex-1 max-w-2xl">
+          {page && breadcrumbs.length > 0 && (
+            <nav className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground mb-1">
+              {breadcrumbs.map((crumb) => (
+                <span key={crumb._id} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className="max-w-40 truncate hover:text-foreground hover:underline"
+                    onClick={() => onNavigate?.(crumb._id)}
+                  >
+                    {crumb.title}
+                  </button>
+                  <ChevronRight className="h-3 w-3" />
+                </span>
+              ))}
+            </nav>
+          )}
           <Input
             ref={titleInputRef}
             value={title}
-            onChange={(e) => setTitle(e.target.value)}
+            onChange={(e) => allowEdit() && setTitle(e.target.value)}
+            readOnly={readOnly}
             placeholder="Page title..."
             className="text-xl font-semibold border-0 focus-visible:ring-0 px-0 h-auto"
             maxLength={100}
           />
-        </div>
-        <Button
-          onClick={handleSaveClick}
-          disabled={isSaving || !hasChanges || !title.trim()}
-          size="sm"
-        >
-          {isSaving ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Saving...
-            </>
-          ) : (
-            <>
-              <Save className="mr-2 h-4 w-4" />
-              Save
-            </>
+          {page && (
+            <PageTags
+              page={page}
+              workspaceId={workspaceId}
+              tags={tags}
+              readOnly={readOnly}
+              onPageChange={onPageChange}
+              onTagsChange={onTagsChange}
+            />
           )}
-        </Button>
+        </div>
+        <div className="flex items-center gap-2">
+        <PresenceAvatars members={presence} className="mr-2" />
+        {format === PageFormat.MARKDOWN && (
+          <div className="flex rounded-md border p-0.5">
+            {VIEW_MODES.map(({ mode, label, icon: Icon }) => (
+              <Button
+                key={mode}
+                variant={viewMode === mode ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => setViewMode(mode)}
+                title={label}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        )}
+        {!readOnly && (
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as PageFormat)}
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            title="Content format"
+          >
+            <option value={PageFormat.PLAIN}>Plain text</option>
+            <option value={PageFormat.MARKDOWN}>Markdown</option>
+          </select>
+        )}
+        {page && !readOnly && (
+          <Button
+            variant={liveEditing ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={handleToggleLive}
+            disabled={!liveEditing && hasChanges}
+            title={!liveEditing && hasChanges ? 'Save your changes before going live' : undefined}
+          >
+            <Radio className="mr-2 h-4 w-4" />
+            {liveEditing ? 'Live' : 'Go live'}
+          </Button>
+        )}
+        {page && (
+          <Button
+            variant={showHistory ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => {
+              setShowHistory(!showHistory);
+              setShowComments(false);
+            }}
+          >
+            <History className="mr-2 h-4 w-4" />
+            History
+          </Button>
+        )}
+        {page && (
+          <Button
+            variant={showComments ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => {
+              setShowComments(!showComments);
+              setShowHistory(false);
+            }}
+          >
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Comments
+          </Button>
+        )}
+        {page && <WatchButton key={page._id} workspaceId={workspaceId} pageId={page._id} />}
+        {page && canShare && (
+          <Button variant="outline" size="sm" onClick={() => setShowShare(true)}>
+            <Share2 className="mr-2 h-4 w-4" />
+            Share
+          </Button>
+        )}
+        {!readOnly && (
+          <Button
+            onClick={handleSaveClick}
+            disabled={isSaving || !hasChanges || !title.trim()}
+            size="sm"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                Save
+              </>
+            )}
+          </Button>
+        )}
+        </div>
       </div>
 
+      {othersEditing.length > 0 && !liveEditing && (
+        <div className="border-b bg-yellow-50 px-4 py-2 flex items-center gap-2 text-sm text-yellow-900">
+          <Pencil className="h-4 w-4" />
+          {othersEditing.map((member) => member.name).join(', ')}{' '}
+          {othersEditing.length === 1 ? 'is' : 'are'} editing this page right now.
+        </div>
+      )}
+
+      {remoteUpdate && page && !liveEditing && (
+        <div className="border-b bg-orange-50 px-4 py-2 flex items-center justify-between text-sm text-orange-900">
+          <span className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Someone else updated this page. Your edits will be merged when you save.
+          </span>
+          <Button variant="ghost" size="sm" onClick={() => loadPage(page)}>
+            Discard mine and load latest
+          </Button>
+        </div>
+      )}
+
       <div className="flex-1 overflow-auto p-6">
-        <div className="max-w-4xl mx-auto">
-          <Textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            placeholder="Start writing your content here..."
-            className="min-h-[500px] resize-none border-0 focus-visible:ring-0 text-base leading-relaxed font-normal"
-            maxLength={500}
-          />
+        <div className={cn('mx-auto', mode === 'split' ? 'max-w-6xl' : 'max-w-4xl')}>
+          <div className={cn(mode === 'split' && 'grid grid-cols-2 gap-6')}>
+            <Textarea
+              ref={contentRef}
+              value={shownContent}
+              onChange={(e) =>
+                allowEdit() &&
+                (liveEditing ? live.change(e.target.value) : setContent(e.target.value))
+              }
+              disabled={liveEditing && !live.ready}
+              readOnly={readOnly}
+              placeholder={
+                format === PageFormat.MARKDOWN
+                  ? 'Markdown: # headings, **bold**, - lists, [links](https://…), [[Page title]]'
+                  : 'Start writing your content here...'
+              }
+              className={cn(
+                'min-h-[500px] resize-none border-0 focus-visible:ring-0 text-base leading-relaxed font-normal',
+                format === PageFormat.MARKDOWN && 'font-mono text-sm',
+                mode === 'preview' && 'hidden'
+              )}
+              maxLength={500}
+            />
+            {mode !== 'edit' && (
+              <MarkdownPreview
+                workspaceId={workspaceId}
+                content={shownContent}
+                html={
+                  page?.html !== undefined && shownContent === page.content
+                    ? page.html
+                    : undefined
+                }
+                className={cn(mode === 'split' && 'border-l pl-6')}
+                onNavigate={onNavigate}
+              />
+            )}
+          </div>
+          {page && (
+            <PageLinks
+              key={page._id}
+              workspaceId={workspaceId}
+              page={page}
+              onNavigate={onNavigate}
+            />
+          )}
+          {page && (
+            <PageAttachments
+              key={page._id}
+              workspaceId={workspaceId}
+              pageId={page._id}
+              readOnly={readOnly}
+            />
+          )}
           <div className="mt-4 text-xs text-muted-foreground">Current Version: {page?.__v}</div>
           <div className="mt-4 text-xs text-muted-foreground text-right">
-            {content.length}/500 characters
+            {liveEditing && live.rejected && (
+              <span className="mr-2 text-destructive">• {live.rejected}</span>
+            )}
+            {liveEditing && !live.rejected && (
+              <span className="mr-2">
+                {live.status === 'synced'
+                  ? '• Live – changes are saved automatically'
+                  : live.status === 'connecting'
+                    ? '• Connecting…'
+                    : '• Offline – reconnecting'}
+              </span>
+            )}
+            {shownContent.length}/500 characters
             {hasChanges && (
               <span className="ml-2 text-orange-500">• Unsaved changes</span>
             )}
@@ -295,6 +666,27 @@ export function PageEditor({ page, workspaceId, onSave, onPageChange }: PageEdit
         </div>
       </div>
     </div>
+      {page && showHistory && (
+        <PageHistory
+          page={page}
+          workspaceId={workspaceId}
+          hasUnsavedChanges={hasChanges}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+          canRestore={!readOnly}
+        />
+      )}
+      {page && showComments && (
+        <PageComments
+          page={page}
+          workspaceId={workspaceId}
+          contentRef={contentRef}
+          canModerate={!readOnly}
+          onSelectAnchor={handleSelectAnchor}
+          onClose={() => setShowComments(false)}
+        />
+      )}
+      </div>
     </>
   );
 }
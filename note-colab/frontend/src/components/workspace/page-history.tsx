@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { pageApi } from '@/lib/page-api';
+import { cn } from '@/lib/utils';
+import type { Page, PageRevision } from '@/types/page';
+
+interface PageHistoryProps {
+  page: Page;
+  workspaceId: string;
+  hasUnsavedChanges: boolean;
+  onRestore: (page: Page) => void;
+  onClose: () => void;
+  canRestore?: boolean;
+}
+
+export function PageHistory({
+  page,
+  workspaceId,
+  hasUnsavedChanges,
+  onRestore,
+  onClose,
+  canRestore = true,
+}: PageHistoryProps) {
+  const [revisions, setRevisions] = useState<PageRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<PageRevision | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { addToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setSelected(null);
+    pageApi
+      .getRevisions(workspaceId, page._id)
+      .then((data) => {
+        if (!cancelled) setRevisions(data);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        addToast({
+          title: 'Failed to load history',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, page._id, page.__v, addToast]);
+
+  const handleSelect = async (version: number) => {
+    setPreviewLoading(true);
+    try {
+      const revision = await pageApi.getRevision(workspaceId, page._id, version);
+      setSelected(revision);
+    } catch (err) {
+      addToast({
+        title: 'Failed to load revision',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (
+      hasUnsavedChanges &&
+      !confirm('You have unsaved changes. Restoring this version will discard them. Continue?')
+    ) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const restored = await pageApi.restoreRevision(
+        workspaceId,
+        page._id,
+        selected.version,
+        page.__v
+      );
+      onRestore(restored);
+      addToast({
+        title: 'Version restored',
+        description: `Restored version ${selected.version}.`,
+        variant: 'success',
+      });
+    } catch (err) {
+      const error = err as ApiError;
+      addToast({
+        title: 'Failed to restore',
+        description:
+          error.serverVersion !== undefined
+            ? 'The page changed since you opened it. Reload and try again.'
+            : error.message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="flex flex-col h-full w-80 border-l bg-muted/30">
+      <div className="p-4 border-b flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {loading ? (
+          <div className="p-4 space-y-2">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">
+            No history yet.
+          </div>
+        ) : (
+          <div className="p-2">
+            {revisions.map((revision) => (
+              <div
+                key={revision._id}
+                className={cn(
+                  'p-2 rounded-md cursor-pointer transition-colors mb-1 text-sm',
+                  selected?.version === revision.version
+                    ? 'bg-primary text-primary-foreground'
+                    : 'hover:bg-accent'
+                )}
+                onClick={() => handleSelect(revision.version)}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">v{revision.version}</span>
+                  {revision.version === page.__v && (
+                    <span className="text-xs opacity-70">current</span>
+                  )}
+                </div>
+                <div className="text-xs opacity-70 truncate">
+                  {formatDate(revision.createdAt)} · {revision.author}
+                  {revision.restoredFrom !== undefined && ` · restored v${revision.restoredFrom}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      {(selected || previewLoading) && (
+        <div className="border-t p-4 space-y-3">
+          {previewLoading || !selected ? (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          ) : (
+            <>
+              <div>
+                <p className="text-sm font-medium mb-1">{selected.title}</p>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap max-h-48 overflow-auto">
+                  {selected.content || 'No content'}
+                </p>
+              </div>
+              {canRestore && (
+                <Button
+                  size="sm"
+                  className="w-full"
+                  onClick={handleRestore}
+                  disabled={isRestoring || selected.version === page.__v}
+                >
+                  {isRestoring ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Restore this version
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowLeft, ArrowRight, Link2, Link2Off } from 'lucide-react';
+import { linkApi } from '@/lib/link-api';
+import type { Page } from '@/types/page';
+import type { Backlink, OutgoingLink } from '@/types/link';
+
+interface PageLinksProps {
+  workspaceId: string;
+  page: Page;
+  onNavigate?: (pageId: string) => void;
+}
+
+/**
+ * The `[[links]]` of a page: the pages linking to it, and the pages it links to
+ * with the ones that lead nowhere marked. Reloaded with every saved version.
+ */
+export function PageLinks({ workspaceId, page, onNavigate }: PageLinksProps) {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+  const [links, setLinks] = useState<OutgoingLink[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      linkApi.getBacklinks(workspaceId, page._id),
+      linkApi.getLinks(workspaceId, page._id),
+    ])
+      .then(([backlinkData, linkData]) => {
+        if (cancelled) return;
+        setBacklinks(backlinkData);
+        setLinks(linkData);
+      })
+      // The section stays as it was; links are only a way to get around
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, page._id, page.__v, page.title]);
+
+  if (backlinks.length === 0 && links.length === 0) {
+    return null;
+  }
+
+  const linkButton = (target: { _id: string; title: string }) => (
+    <button
+      type="button"
+      className="max-w-60 truncate text-primary hover:underline"
+      onClick={() => onNavigate?.(target._id)}
+      title={target.title}
+    >
+      {target.title}
+    </button>
+  );
+
+  return (
+    <div className="mt-4 space-y-2 rounded-md border p-3 text-sm">
+      {backlinks.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <ArrowLeft className="h-3 w-3" />
+            Linked from
+          </span>
+          {backlinks.map((backlink) => (
+            <span key={backlink._id}>{linkButton(backlink)}</span>
+          ))}
+        </div>
+      )}
+      {links.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <ArrowRight className="h-3 w-3" />
+            Links to
+          </span>
+          {links.map((link) =>
+            link.page ? (
+              <span key={link.title} className="flex items-center gap-1">
+                <Link2 className="h-3 w-3 text-muted-foreground" />
+                {linkButton(link.page)}
+              </span>
+            ) : (
+              <span
+                key={link.title}
+                className="flex items-center gap-1 text-destructive"
+                title="No page has this title"
+              >
+                <Link2Off className="h-3 w-3" />
+                <span className="line-through">{link.title}</span>
+              </span>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,87 @@
 'use client';
 
-import { useState } from 'react';
-import { Plus, FileText, Loader2, Search, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import {
+  ChevronRight,
+  Copy,
+  CopyPlus,
+  FilePlus,
+  FileText,
+  FolderInput,
+  Loader2,
+  MoreHorizontal,
+  Search,
+  Settings2,
+  TextSearch,
+  Trash2,
+  X,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
+import { buildPageTree, comparePagePosition, getDescendantIds } from '@/lib/page-tree';
 import { cn } from '@/lib/utils';
-import type { Page } from '@/types/page';
+import type {
+  DeleteDescendants,
+  DuplicatePageInput,
+  Page,
+  PagePositionInput,
+  PageTreeNode,
+} from '@/types/page';
+import type { PresenceMember } from '@/types/presence';
+import type { Tag } from '@/types/tag';
+import { CopyPageDialog } from './copy-page-dialog';
+import { DeletePageDialog } from './delete-page-dialog';
+import { ManageTagsDialog } from './manage-tags-dialog';
+import { MovePageDialog } from './move-page-dialog';
+import { PresenceAvatars } from './presence-avatars';
+import { TagChip } from './tag-chip';
+import { TemplatePicker } from './template-picker';
 
 interface PageSidebarProps {
+  /** Every page of the workspace; the sidebar nests them by `parentId` */
   pages: Page[];
   selectedPageId: string | null;
   loading: boolean;
   onSelectPage: (pageId: string) => void;
-  onCreatePage: () => void;
-  onDeletePage: (pageId: string) => Promise<void>;
+  /** Creates a page, nested under `parentId` and filled from `templateId` when given */
+  onCreatePage: (parentId?: string, templateId?: string) => void;
+  onDeletePage: (pageId: string, descendants?: DeleteDescendants) => Promise<void>;
+  onMovePage: (pageId: string, parentId: string | null) => Promise<void>;
+  /** Drag and drop: places a page after a sibling, possibly under a new parent */
+  onReorderPage: (pageId: string, position: PagePositionInput) => Promise<void>;
+  /** Copies a page with its subpages, next to it or into another workspace */
+  onDuplicatePage?: (pageId: string, input?: DuplicatePageInput) => Promise<void>;
   workspaceTitle: string;
+  workspaceId: string;
+  /** Workspace tags; selecting some narrows the list to pages that have all of them */
+  tags?: Tag[];
+  onTagsChange?: (tags: Tag[]) => void;
+  presence?: PresenceMember[];
+  /** Viewers get a read-only list without create, move and delete actions */
+  canEdit?: boolean;
+  /** Offers a full-text search of the typed query; the list itself only filters titles */
+  onSearchContent?: (query: string) => void;
 }
 
+const INDENT = 12;
+
+type DropZone = 'before' | 'inside' | 'after';
+
+/** Upper and lower quarter of a row drop next to it, the middle drops into it */
+const getDropZone = (e: React.DragEvent<HTMLElement>): DropZone => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+};
+
 export function PageSidebar({
   pages,
   selectedPageId,
@@ -26,27 +89,242 @@ export function PageSidebar({
   onSelectPage,
   onCreatePage,
   onDeletePage,
+  onMovePage,
+  onReorderPage,
+  onDuplicatePage,
   workspaceTitle,
+  workspaceId,
+  tags = [],
+  onTagsChange,
+  presence = [],
+  canEdit = true,
+  onSearchContent,
 }: PageSidebarProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [movingPage, setMovingPage] = useState<Page | null>(null);
+  const [copyingPage, setCopyingPage] = useState<Page | null>(null);
+  const [deletingPage, setDeletingPage] = useState<Page | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ pageId: string; zone: DropZone } | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [showManageTags, setShowManageTags] = useState(false);
+
+  const tree = useMemo(() => buildPageTree(pages), [pages]);
+  // Tags deleted meanwhile drop out of the filter
+  const activeTagFilter = tagFilter.filter((id) => tags.some((tag) => tag._id === id));
+  const isFiltering = !!searchQuery || activeTagFilter.length > 0;
+  const filteredPages = pages.filter(
+    (page) =>
+      page.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
+      activeTagFilter.every((id) => page.tags?.includes(id))
+  );
+  const subpageCount = deletingPage ? getDescendantIds(pages, deletingPage._id).size : 0;
+
+  const toggle = (pageId: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(pageId)) next.add(pageId);
+      return next;
+    });
+
+  const toggleTagFilter = (tagId: string) =>
+    setTagFilter((prev) =>
+      prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]
+    );
+
+  const deletePage = async (pageId: string, descendants?: DeleteDescendants) => {
+    setDeletingId(pageId);
+    try {
+      await onDeletePage(pageId, descendants);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleDelete = (page: Page) => {
+    // Pages with subpages ask what should happen to them
+    if (pages.some((p) => p.parentId === page._id)) {
+      setDeletingPage(page);
+    } else if (confirm('Move this page to the trash?')) {
+      deletePage(page._id).catch(() => {});
+    }
+  };
 
-  const filteredPages = pages.filter((page) =>
-    page.title.toLowerCase().includes(searchQuery.toLowerCase())
+  // A page cannot be dropped onto itself or into its own subtree
+  const undroppable = useMemo(
+    () => (draggedId ? getDescendantIds(pages, draggedId).add(draggedId) : new Set<string>()),
+    [pages, draggedId]
   );
 
-  const handleDelete = async (e: React.MouseEvent, pageId: string) => {
-    e.stopPropagation();
-    if (confirm('Are you sure you want to delete this page?')) {
-      setDeletingId(pageId);
-      try {
-        await onDeletePage(pageId);
-      } finally {
-        setDeletingId(null);
-      }
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (target: Page, zone: DropZone) => {
+    const pageId = draggedId;
+    endDrag();
+    if (!pageId || undroppable.has(target._id)) return;
+
+    const parentId = zone === 'inside' ? target._id : (target.parentId ?? null);
+    const siblings = pages
+      .filter((p) => (p.parentId ?? null) === parentId && p._id !== pageId)
+      .sort(comparePagePosition);
+    let afterId: string | null;
+    if (zone === 'inside') {
+      afterId = siblings[siblings.length - 1]?._id ?? null;
+      setCollapsed((prev) => {
+        const next = new Set(prev);
+        next.delete(target._id);
+        return next;
+      });
+    } else if (zone === 'after') {
+      afterId = target._id;
+    } else {
+      const index = siblings.findIndex((p) => p._id === target._id);
+      afterId = index > 0 ? siblings[index - 1]._id : null;
     }
+
+    // Dropped where it already is
+    const dragged = pages.find((p) => p._id === pageId);
+    const current = pages
+      .filter((p) => (p.parentId ?? null) === (dragged?.parentId ?? null))
+      .sort(comparePagePosition);
+    const currentIndex = current.findIndex((p) => p._id === pageId);
+    const currentAfterId = currentIndex > 0 ? current[currentIndex - 1]._id : null;
+    if ((dragged?.parentId ?? null) === parentId && currentAfterId === afterId) return;
+
+    onReorderPage(pageId, { parentId, afterId }).catch(() => {});
+  };
+
+  const renderRow = (page: Page, depth: number, node?: PageTreeNode) => {
+    const hasChildren = !!node && node.children.length > 0;
+    const isCollapsed = collapsed.has(page._id);
+    const selected = selectedPageId === page._id;
+    // Only the tree can be rearranged, not the flat search results
+    const draggable = canEdit && !!node;
+    const zone = dropTarget?.pageId === page._id ? dropTarget.zone : null;
+
+    return (
+      <div
+        className={cn(
+          'group relative flex items-center gap-1 p-2 rounded-md cursor-pointer transition-colors mb-1',
+          selected ? 'bg-primary text-primary-foreground' : 'hover:bg-accent',
+          draggedId === page._id && 'opacity-50',
+          zone === 'before' && 'shadow-[inset_0_2px_0_0] shadow-primary',
+          zone === 'after' && 'shadow-[inset_0_-2px_0_0] shadow-primary',
+          zone === 'inside' && 'ring-2 ring-primary ring-inset'
+        )}
+        style={{ paddingLeft: 8 + depth * INDENT }}
+        onClick={() => onSelectPage(page._id)}
+        draggable={draggable}
+        onDragStart={(e) => {
+          if (!draggable) return;
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', page._id);
+          setDraggedId(page._id);
+        }}
+        onDragOver={(e) => {
+          if (!draggedId || undroppable.has(page._id)) return;
+          e.preventDefault();
+          const next = getDropZone(e);
+          if (zone !== next) setDropTarget({ pageId: page._id, zone: next });
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(page, getDropZone(e));
+        }}
+        onDragEnd={endDrag}
+      >
+        {node && (
+          <button
+            type="button"
+            className={cn(
+              'h-4 w-4 shrink-0 rounded-sm hover:bg-black/10',
+              !hasChildren && 'invisible'
+            )}
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle(page._id);
+            }}
+            title={isCollapsed ? 'Expand' : 'Collapse'}
+          >
+            <ChevronRight
+              className={cn('h-4 w-4 transition-transform', !isCollapsed && 'rotate-90')}
+            />
+          </button>
+        )}
+        <FileText className="h-4 w-4 shrink-0" />
+        <span className="flex-1 truncate text-sm font-medium ml-1">{page.title}</span>
+        <PresenceAvatars
+          members={presence.filter((member) => member.pageId === page._id)}
+          max={2}
+          size="sm"
+          className="shrink-0"
+        />
+        {deletingId === page._id ? (
+          <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+        ) : canEdit ? (
+          <div onClick={(e) => e.stopPropagation()}>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn(
+                    'h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity shrink-0',
+                    selected && 'opacity-100'
+                  )}
+                >
+                  <MoreHorizontal className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="text-foreground">
+                <DropdownMenuItem onClick={() => onCreatePage(page._id)}>
+                  <FilePlus className="mr-2 h-4 w-4" />
+                  Add subpage
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setMovingPage(page)}>
+                  <FolderInput className="mr-2 h-4 w-4" />
+                  Move to…
+                </DropdownMenuItem>
+                {onDuplicatePage && (
+                  <>
+                    <DropdownMenuItem onClick={() => onDuplicatePage(page._id).catch(() => {})}>
+                      <CopyPlus className="mr-2 h-4 w-4" />
+                      Duplicate
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setCopyingPage(page)}>
+                      <Copy className="mr-2 h-4 w-4" />
+                      Copy to workspace…
+                    </DropdownMenuItem>
+                  </>
+                )}
+                <DropdownMenuItem
+                  onClick={() => handleDelete(page)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Move to trash
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        ) : null}
+      </div>
+    );
   };
 
+  const renderTree = (nodes: PageTreeNode[], depth: number): React.ReactNode =>
+    nodes.map((node) => (
+      <div key={node._id}>
+        {renderRow(node, depth, node)}
+        {!collapsed.has(node._id) && renderTree(node.children, depth + 1)}
+      </div>
+    ));
+
   return (
     <div className="flex flex-col h-full border-r bg-muted/30">
       <div className="p-4 border-b">
@@ -72,14 +350,46 @@ export function PageSidebar({
             </Button>
           )}
         </div>
-        <Button
-          onClick={onCreatePage}
-          className="w-full mt-3"
-          size="sm"
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          New Page
-        </Button>
+        {onSearchContent && searchQuery.trim() && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto px-0 mt-1 text-xs"
+            onClick={() => onSearchContent(searchQuery.trim())}
+          >
+            <TextSearch className="mr-1 h-3 w-3" />
+            Search page contents
+          </Button>
+        )}
+        {(tags.length > 0 || (canEdit && onTagsChange)) && (
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            {tags.map((tag) => (
+              <TagChip
+                key={tag._id}
+                tag={tag}
+                active={activeTagFilter.includes(tag._id)}
+                onClick={() => toggleTagFilter(tag._id)}
+              />
+            ))}
+            {canEdit && onTagsChange && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setShowManageTags(true)}
+                title="Manage tags"
+              >
+                <Settings2 className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        )}
+        {canEdit && (
+          <TemplatePicker
+            workspaceId={workspaceId}
+            onCreatePage={(templateId) => onCreatePage(undefined, templateId)}
+          />
+        )}
       </div>
 
       <ScrollArea className="flex-1">
@@ -91,46 +401,56 @@ export function PageSidebar({
           </div>
         ) : filteredPages.length === 0 ? (
           <div className="p-4 text-center text-sm text-muted-foreground">
-            {searchQuery ? 'No pages found' : 'No pages yet. Create one to get started.'}
+            {isFiltering ? 'No pages found' : 'No pages yet. Create one to get started.'}
           </div>
-        ) : (
+        ) : isFiltering ? (
+          // Matches are listed flat, wherever they sit in the tree
           <div className="p-2">
             {filteredPages.map((page) => (
-              <div
-                key={page._id}
-                className={cn(
-                  'group relative flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors mb-1',
-                  selectedPageId === page._id
-                    ? 'bg-primary text-primary-foreground'
-                    : 'hover:bg-accent'
-                )}
-                onClick={() => onSelectPage(page._id)}
-              >
-                <FileText className="h-4 w-4 shrink-0" />
-                <span className="flex-1 truncate text-sm font-medium">
-                  {page.title}
-                </span>
-                {deletingId === page._id ? (
-                  <Loader2 className="h-4 w-4 animate-spin shrink-0" />
-                ) : (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className={cn(
-                      'h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity shrink-0',
-                      selectedPageId === page._id && 'opacity-100'
-                    )}
-                    onClick={(e) => handleDelete(e, page._id)}
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                )}
-              </div>
+              <div key={page._id}>{renderRow(page, 0)}</div>
             ))}
           </div>
+        ) : (
+          <div className="p-2">{renderTree(tree, 0)}</div>
         )}
       </ScrollArea>
+
+      {movingPage && (
+        <MovePageDialog
+          page={movingPage}
+          pages={pages}
+          open
+          onOpenChange={(open) => !open && setMovingPage(null)}
+          onMove={onMovePage}
+        />
+      )}
+      {copyingPage && onDuplicatePage && (
+        <CopyPageDialog
+          page={copyingPage}
+          workspaceId={workspaceId}
+          open
+          onOpenChange={(open) => !open && setCopyingPage(null)}
+          onCopy={onDuplicatePage}
+        />
+      )}
+      {showManageTags && onTagsChange && (
+        <ManageTagsDialog
+          workspaceId={workspaceId}
+          tags={tags}
+          open
+          onOpenChange={setShowManageTags}
+          onTagsChange={onTagsChange}
+        />
+      )}
+      {deletingPage && (
+        <DeletePageDialog
+          page={deletingPage}
+          subpageCount={subpageCount}
+          open
+          onOpenChange={(open) => !open && setDeletingPage(null)}
+          onDelete={deletePage}
+        />
+      )}
     </div>
   );
 }
-
@@ -0,0 +1,155 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Plus, Tag as TagIcon } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { pageApi } from '@/lib/page-api';
+import { tagApi } from '@/lib/tag-api';
+import type { Page } from '@/types/page';
+import type { Tag } from '@/types/tag';
+import { TAG_COLORS, TagChip } from './tag-chip';
+
+interface PageTagsProps {
+  page: Page;
+  workspaceId: string;
+  /** All tags of the workspace */
+  tags: Tag[];
+  readOnly?: boolean;
+  onPageChange?: (page: Page) => void;
+  onTagsChange?: (tags: Tag[]) => void;
+}
+
+export function PageTags({
+  page,
+  workspaceId,
+  tags,
+  readOnly = false,
+  onPageChange,
+  onTagsChange,
+}: PageTagsProps) {
+  const { addToast } = useToast();
+  const [newTagName, setNewTagName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const pageTagIds = page.tags ?? [];
+  // Ids of deleted tags can linger until the page is reloaded
+  const pageTags = tags.filter((tag) => pageTagIds.includes(tag._id));
+
+  const showError = (title: string, err: unknown) => {
+    addToast({
+      title,
+      description: (err as ApiError).message || 'An error occurred.',
+      variant: 'destructive',
+    });
+  };
+
+  const saveTags = async (tagIds: string[]) => {
+    setIsSaving(true);
+    try {
+      const updated = await pageApi.setTags(workspaceId, page._id, tagIds);
+      onPageChange?.(updated);
+    } catch (err) {
+      showError('Failed to update tags', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleTag = (tagId: string) =>
+    saveTags(
+      pageTagIds.includes(tagId)
+        ? pageTagIds.filter((id) => id !== tagId)
+        : [...pageTagIds, tagId]
+    );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTagName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      const tag = await tagApi.create(workspaceId, {
+        name,
+        color: TAG_COLORS[tags.length % TAG_COLORS.length],
+      });
+      onTagsChange?.([...tags, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewTagName('');
+      await saveTags([...pageTagIds, tag._id]);
+    } catch (err) {
+      showError('Failed to create tag', err);
+      setIsSaving(false);
+    }
+  };
+
+  if (readOnly && pageTags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-1">
+      {pageTags.map((tag) => (
+        <TagChip
+          key={tag._id}
+          tag={tag}
+          onRemove={readOnly || isSaving ? undefined : () => toggleTag(tag._id)}
+        />
+      ))}
+      {!readOnly && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className="inline-flex items-center gap-1 rounded-full border border-dashed px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {pageTags.length === 0 ? (
+                <>
+                  <TagIcon className="h-3 w-3" />
+                  Add tag
+                </>
+              ) : (
+                <Plus className="h-3 w-3" />
+              )}
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="w-56">
+            {tags.length > 0 && (
+              <>
+                <div className="max-h-48 overflow-y-auto">
+                  {tags.map((tag) => (
+                    <DropdownMenuItem key={tag._id} onClick={() => toggleTag(tag._id)}>
+                      <span
+                        className="mr-2 h-2 w-2 shrink-0 rounded-full"
+                        style={{ backgroundColor: tag.color }}
+                      />
+                      <span className="flex-1 truncate text-left">{tag.name}</span>
+                      {pageTagIds.includes(tag._id) && <Check className="ml-2 h-4 w-4" />}
+                    </DropdownMenuItem>
+                  ))}
+                </div>
+                <div className="-mx-1 my-1 h-px bg-border" />
+              </>
+            )}
+            <form onSubmit={handleCreate} className="p-1">
+              <Input
+                value={newTagName}
+                onChange={(e) => setNewTagName(e.target.value)}
+                placeholder="Create a tag..."
+                className="h-8 text-sm"
+                maxLength={30}
+                disabled={isSaving}
+              />
+            </form>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Pencil } from 'lucide-react';
+import { getInitials } from '@/lib/presence';
+import { cn } from '@/lib/utils';
+import type { PresenceMember } from '@/types/presence';
+
+interface PresenceAvatarsProps {
+  members: PresenceMember[];
+  max?: number;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export function PresenceAvatars({ members, max = 3, size = 'md', className }: PresenceAvatarsProps) {
+  if (members.length === 0) return null;
+
+  const visible = members.slice(0, max);
+  const hidden = members.slice(max);
+  const dimensions = size === 'sm' ? 'h-5 w-5 text-[9px]' : 'h-7 w-7 text-xs';
+
+  return (
+    <div className={cn('flex items-center -space-x-1.5', className)}>
+      {visible.map((member) => (
+        <div
+          key={member.clientId}
+          title={`${member.name} is ${member.state}`}
+          className={cn(
+            'relative flex items-center justify-center rounded-full border-2 border-background font-semibold text-white',
+            dimensions
+          )}
+          style={{ backgroundColor: member.color }}
+        >
+          {getInitials(member.name)}
+          {member.state === 'editing' && (
+            <span className="absolute -bottom-1 -right-1 rounded-full bg-background p-px">
+              <Pencil className="h-2.5 w-2.5 text-orange-500" />
+            </span>
+          )}
+        </div>
+      ))}
+      {hidden.length > 0 && (
+        <div
+          title={hidden.map((member) => `${member.name} is ${member.state}`).join('\n')}
+          className={cn(
+            'flex items-center justify-center rounded-full border-2 border-background bg-muted font-semibold text-muted-foreground',
+            dimensions
+          )}
+        >
+          +{hidden.length}
+        </div>
+      )}
+    </div>
+  );
+}
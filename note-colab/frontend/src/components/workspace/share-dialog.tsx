@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, Link2, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { getShareUrl, shareApi } from '@/lib/share-api';
+import type { Page } from '@/types/page';
+import type { ShareLink } from '@/types/share';
+
+interface ShareDialogProps {
+  page: Page;
+  workspaceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', days: 0 },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function ShareDialog({ page, workspaceId, open, onOpenChange }: ShareDialogProps) {
+  const { addToast } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [scope, setScope] = useState<'page' | 'workspace'>('page');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoading(true);
+    shareApi
+      .getAll(workspaceId, page._id)
+      .then((data) => {
+        if (!cancelled) setLinks(data);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        addToast({
+          title: 'Failed to load share links',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, workspaceId, page._id, addToast]);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      addToast({ title: 'Link copied', description: 'Anyone with the link can view it.' });
+    } catch {
+      addToast({
+        title: 'Failed to copy link',
+        description: getShareUrl(link.token),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const link = await shareApi.create(workspaceId, {
+        pageId: scope === 'page' ? page._id : null,
+        expiresAt: expiryDays ? new Date(Date.now() + expiryDays * DAY).toISOString() : null,
+      });
+      setLinks((prev) => [link, ...prev]);
+      await copyLink(link);
+    } catch (err) {
+      addToast({
+        title: 'Failed to create share link',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) return;
+
+    setRevokingId(link._id);
+    try {
+      await shareApi.revoke(workspaceId, link._id);
+      setLinks((prev) => prev.filter((l) => l._id !== link._id));
+    } catch (err) {
+      addToast({
+        title: 'Failed to revoke link',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share &quot;{page.title}&quot;</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can read the shared content without signing in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as 'page' | 'workspace')}
+            className={selectClassName}
+            disabled={isCreating}
+          >
+            <option value="page">This page</option>
+            <option value="workspace">Whole workspace</option>
+          </select>
+          <select
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+            className={`${selectClassName} flex-1`}
+            disabled={isCreating}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Link2 className="mr-2 h-4 w-4" />
+            )}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2 py-2">
+          {loading ? (
+            [...Array(2)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)
+          ) : links.length === 0 ? (
+            <p className="text-sm text-center text-muted-foreground py-4">No active links</p>
+          ) : (
+            links.map((link) => (
+              <div key={link._id} className="flex items-center gap-3 rounded-md border p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {link.pageId ? 'This page' : 'Whole workspace'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Created {formatDate(link.createdAt)} ·{' '}
+                    {link.expiresAt ? `expires ${formatDate(link.expiresAt)}` : 'never expires'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => copyLink(link)}
+                  title="Copy link"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => handleRevoke(link)}
+                  disabled={revokingId === link._id}
+                  title="Revoke link"
+                >
+                  {revokingId === link._id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
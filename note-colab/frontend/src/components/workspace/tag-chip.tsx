@@ -0,0 +1,56 @@
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Tag } from '@/types/tag';
+
+export const TAG_COLORS = [
+  '#64748b',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+];
+
+interface TagChipProps {
+  tag: Pick<Tag, 'name' | 'color'>;
+  /** Shows a remove button */
+  onRemove?: () => void;
+  onClick?: () => void;
+  /** Highlighted, e.g. an active filter */
+  active?: boolean;
+  className?: string;
+}
+
+export function TagChip({ tag, onRemove, onClick, active, className }: TagChipProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium',
+        onClick && 'cursor-pointer',
+        active === false && 'opacity-50 hover:opacity-100',
+        className
+      )}
+      style={{ backgroundColor: `${tag.color}1f`, borderColor: `${tag.color}66`, color: tag.color }}
+      onClick={onClick}
+    >
+      <span className="h-1.5 w-1.5 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          className="rounded-full hover:bg-black/10"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          title={`Remove ${tag.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
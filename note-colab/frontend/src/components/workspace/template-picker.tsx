@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, FileText, LayoutTemplate, Plus, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { templateApi } from '@/lib/template-api';
+import type { PageTemplate } from '@/types/template';
+import { ManageTemplatesDialog } from './manage-templates-dialog';
+
+interface TemplatePickerProps {
+  workspaceId: string;
+  /** Creates a blank page, or one from the given template */
+  onCreatePage: (templateId?: string) => void;
+}
+
+/**
+ * The "New Page" button: a blank page or one of the workspace's templates
+ */
+export function TemplatePicker({ workspaceId, onCreatePage }: TemplatePickerProps) {
+  const { addToast } = useToast();
+  const [templates, setTemplates] = useState<PageTemplate[]>([]);
+  const [showManage, setShowManage] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    templateApi
+      .getAll(workspaceId)
+      .then((data) => {
+        if (!cancelled) setTemplates(data);
+      })
+      .catch((err: ApiError) => {
+        if (cancelled) return;
+        addToast({
+          title: 'Failed to load templates',
+          description: err.message || 'An error occurred.',
+          variant: 'destructive',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, addToast]);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button className="w-full mt-3" size="sm">
+            <Plus className="mr-2 h-4 w-4" />
+            New Page
+            <ChevronDown className="ml-auto h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-full">
+          <DropdownMenuItem onClick={() => onCreatePage()}>
+            <FileText className="mr-2 h-4 w-4" />
+            Blank page
+          </DropdownMenuItem>
+          {templates.map((template) => (
+            <DropdownMenuItem key={template._id} onClick={() => onCreatePage(template._id)}>
+              <LayoutTemplate className="mr-2 h-4 w-4 shrink-0" />
+              <span className="truncate">{template.name}</span>
+            </DropdownMenuItem>
+          ))}
+          <div className="-mx-1 my-1 h-px bg-border" />
+          <DropdownMenuItem onClick={() => setShowManage(true)}>
+            <Settings2 className="mr-2 h-4 w-4" />
+            Manage templates
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {showManage && (
+        <ManageTemplatesDialog
+          workspaceId={workspaceId}
+          templates={templates}
+          open
+          onOpenChange={setShowManage}
+          onTemplatesChange={setTemplates}
+        />
+      )}
+    </>
+  );
+}
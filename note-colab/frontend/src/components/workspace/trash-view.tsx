@@ -0,0 +1,237 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, FileText, FolderOpen, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { UserMenu } from '@/components/auth/user-menu';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { trashApi } from '@/lib/trash-api';
+import type { TrashContents } from '@/types/trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface TrashRowProps {
+  icon: React.ReactNode;
+  title: string;
+  subtitle?: string;
+  deletedAt?: string | null;
+  retentionDays: number;
+  busy: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}
+
+function TrashRow({
+  icon,
+  title,
+  subtitle,
+  deletedAt,
+  retentionDays,
+  busy,
+  onRestore,
+  onPurge,
+}: TrashRowProps) {
+  const deleted = deletedAt ? new Date(deletedAt) : null;
+  const purgeAt = deleted && new Date(deleted.getTime() + retentionDays * DAY);
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3">
+      <div className="p-2 rounded-lg bg-muted shrink-0">{icon}</div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{title}</p>
+        <p className="text-xs text-muted-foreground truncate">
+          {subtitle}
+          {deleted && purgeAt && (
+            <>
+              {subtitle && ' · '}
+              Deleted {formatDate(deleted)} · removed for good on {formatDate(purgeAt)}
+            </>
+          )}
+        </p>
+      </div>
+      {busy ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <>
+          <Button variant="outline" size="sm" onClick={onRestore}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restore
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive hover:text-destructive"
+            onClick={onPurge}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete forever
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function TrashView() {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setTrash(await trashApi.get());
+    } catch (err) {
+      addToast({
+        title: 'Failed to load trash',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    }
+  }, [addToast]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const run = async (id: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      addToast({ title: success, variant: 'success' });
+      await fetchTrash();
+    } catch (err) {
+      addToast({
+        title: 'Something went wrong',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmPurge = (title: string) =>
+    confirm(`Permanently delete "${title}"? This action cannot be undone.`);
+
+  const isEmpty = trash && trash.workspaces.length === 0 && trash.pages.length === 0;
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Button variant="ghost" size="sm" onClick={() => router.push('/')} className="mb-2">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Workspaces
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+          <p className="text-muted-foreground mt-1">
+            {trash
+              ? `Deleted items are removed for good after ${trash.retentionDays} days.`
+              : 'Deleted items can be restored until they are purged.'}
+          </p>
+        </div>
+        <UserMenu />
+      </div>
+
+      {!trash ? (
+        <div className="space-y-2">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : isEmpty ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center p-12">
+            <Trash2 className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">Trash is empty</h3>
+            <p className="text-sm text-muted-foreground text-center max-w-md">
+              Workspaces and pages you delete show up here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {trash.workspaces.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Workspaces</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {trash.workspaces.map((workspace) => (
+                  <TrashRow
+                    key={workspace._id}
+                    icon={<FolderOpen className="h-4 w-4" />}
+                    title={workspace.title}
+                    subtitle="Includes all of its pages"
+                    deletedAt={workspace.deletedAt}
+                    retentionDays={trash.retentionDays}
+                    busy={busyId === workspace._id}
+                    onRestore={() =>
+                      run(
+                        workspace._id,
+                        () => trashApi.restoreWorkspace(workspace._id),
+                        'Workspace restored'
+                      )
+                    }
+                    onPurge={() =>
+                      confirmPurge(workspace.title) &&
+                      run(
+                        workspace._id,
+                        () => trashApi.purgeWorkspace(workspace._id),
+                        'Workspace permanently deleted'
+                      )
+                    }
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {trash.pages.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Pages</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {trash.pages.map((page) => (
+                  <TrashRow
+                    key={page._id}
+                    icon={<FileText className="h-4 w-4" />}
+                    title={page.title}
+                    subtitle={`in ${page.workspaceId.title}`}
+                    deletedAt={page.deletedAt}
+                    retentionDays={trash.retentionDays}
+                    busy={busyId === page._id}
+                    onRestore={() =>
+                      run(
+                        page._id,
+                        () => trashApi.restorePage(page.workspaceId._id, page._id),
+                        'Page restored'
+                      )
+                    }
+                    onPurge={() =>
+                      confirmPurge(page.title) &&
+                      run(
+                        page._id,
+                        () => trashApi.purgePage(page.workspaceId._id, page._id),
+                        'Page permanently deleted'
+                      )
+                    }
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
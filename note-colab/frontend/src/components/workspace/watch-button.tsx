@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { notificationApi } from '@/lib/notification-api';
+
+interface WatchButtonProps {
+  workspaceId: string;
+  pageId: string;
+}
+
+/**
+ * Watching a page sends a notification when someone else edits it
+ */
+export function WatchButton({ workspaceId, pageId }: WatchButtonProps) {
+  const { addToast } = useToast();
+  const [watching, setWatching] = useState<boolean | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    notificationApi
+      .isWatching(workspaceId, pageId)
+      .then((value) => {
+        if (!cancelled) setWatching(value);
+      })
+      .catch(() => {
+        // Without the state the button stays disabled
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, pageId]);
+
+  const handleToggle = async () => {
+    setBusy(true);
+    try {
+      setWatching(await notificationApi.setWatching(workspaceId, pageId, !watching));
+    } catch (err) {
+      addToast({
+        title: watching ? 'Failed to stop watching' : 'Failed to watch page',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Button
+      variant={watching ? 'secondary' : 'outline'}
+      size="sm"
+      onClick={handleToggle}
+      disabled={busy || watching === null}
+      title={watching ? 'You are notified of edits' : 'Get notified when this page is edited'}
+    >
+      {watching ? <BellOff className="mr-2 h-4 w-4" /> : <Bell className="mr-2 h-4 w-4" />}
+      {watching ? 'Unwatch' : 'Watch'}
+    </Button>
+  );
+}
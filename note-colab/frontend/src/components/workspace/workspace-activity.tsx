@@ -0,0 +1,346 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ArchiveRestore,
+  FilePlus,
+  Filter,
+  History,
+  Loader2,
+  Pencil,
+  Trash2,
+  X,
+  XCircle,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast';
+import type { ApiError } from '@/lib/api';
+import { activityApi } from '@/lib/activity-api';
+import { workspaceApi } from '@/lib/workspace-api';
+import {
+  AuditAction,
+  type ActivityFilters,
+  type AuditEvent,
+  type AuditTargetType,
+} from '@/types/activity';
+import type { WorkspaceMember } from '@/types/workspace';
+
+interface WorkspaceActivityProps {
+  workspaceId: string;
+  onNavigate?: (pageId: string) => void;
+}
+
+const PAGE_SIZE = 30;
+
+const selectClassName =
+  'h-8 rounded-md border border-input bg-background px-2 text-sm disabled:opacity-50';
+
+const ICONS: Record<AuditAction, typeof Pencil> = {
+  [AuditAction.CREATED]: FilePlus,
+  [AuditAction.UPDATED]: Pencil,
+  [AuditAction.DELETED]: Trash2,
+  [AuditAction.RESTORED]: ArchiveRestore,
+  [AuditAction.PURGED]: XCircle,
+};
+
+const VERBS: Record<AuditAction, string> = {
+  [AuditAction.CREATED]: 'created',
+  [AuditAction.UPDATED]: 'updated',
+  [AuditAction.DELETED]: 'moved to the trash',
+  [AuditAction.RESTORED]: 'restored',
+  [AuditAction.PURGED]: 'permanently deleted',
+};
+
+/**
+ * What an update changed, in words, from the fields that differ
+ */
+const describeChanges = (event: AuditEvent): string[] => {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const changed = (field: string) => field in after;
+  const changes: string[] = [];
+  if (changed('title')) changes.push(`renamed from “${before.title}”`);
+  if (changed('description')) changes.push('description changed');
+  if (changed('version') || changed('contentLength')) changes.push('content edited');
+  if (changed('format')) changes.push(`format set to ${after.format}`);
+  if (changed('tags')) changes.push('tags changed');
+  if (changed('parentId')) changes.push('moved');
+  else if (changed('position')) changes.push('reordered');
+  if (changed('status')) changes.push(`status set to ${after.status}`);
+  return changes;
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Date inputs give a calendar day; the range covers whole days in local time
+const dayStart = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const dayEnd = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
+
+/**
+ * The workspace's audit trail: who created, changed, trashed, restored or purged
+ * the workspace and its pages, newest first, with filters
+ */
+export function WorkspaceActivity({ workspaceId, onNavigate }: WorkspaceActivityProps) {
+  const { addToast } = useToast();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [targetType, setTargetType] = useState<AuditTargetType | ''>('');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [target, setTarget] = useState<{ _id: string; title: string } | null>(null);
+
+  const filters = useMemo<ActivityFilters>(
+    () => ({
+      action: action || undefined,
+      targetType: targetType || undefined,
+      actor: actor || undefined,
+      targetId: target?._id,
+      from: dayStart(from),
+      to: dayEnd(to),
+    }),
+    [action, targetType, actor, target, from, to]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    workspaceApi
+      .getMembers(workspaceId)
+      .then((data) => {
+        if (!cancelled) setMembers(data);
+      })
+      // Without members the list simply cannot be narrowed to one of them
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    activityApi
+      .getAll(workspaceId, { ...filters, limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setEvents(page.items);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          addToast({
+            title: 'Failed to load activity',
+            description: (err as ApiError).message || 'An error occurred.',
+            variant: 'destructive',
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, filters, addToast]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoading(true);
+    try {
+      const page = await activityApi.getAll(workspaceId, {
+        ...filters,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setEvents((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      addToast({
+        title: 'Failed to load activity',
+        description: (err as ApiError).message || 'An error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filtered = Boolean(action || targetType || actor || from || to || target);
+  const clearFilters = () => {
+    setAction('');
+    setTargetType('');
+    setActor('');
+    setFrom('');
+    setTo('');
+    setTarget(null);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="mx-auto max-w-3xl">
+        <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold">
+          <History className="h-5 w-5" />
+          Activity
+        </h2>
+
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | '')}
+            className={selectClassName}
+            aria-label="Action"
+          >
+            <option value="">All actions</option>
+            {Object.values(AuditAction).map((value) => (
+              <option key={value} value={value}>
+                {VERBS[value]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={targetType}
+            onChange={(e) => setTargetType(e.target.value as AuditTargetType | '')}
+            className={selectClassName}
+            aria-label="Target"
+          >
+            <option value="">Workspace and pages</option>
+            <option value="workspace">Workspace</option>
+            <option value="page">Pages</option>
+          </select>
+          <select
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            className={selectClassName}
+            aria-label="Member"
+          >
+            <option value="">Anyone</option>
+            {members.map((member) => (
+              <option key={member.userId._id} value={member.userId._id}>
+                {member.userId.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className={selectClassName}
+            aria-label="From"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className={selectClassName}
+            aria-label="To"
+          />
+          {filtered && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="mr-1 h-3 w-3" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {target && (
+          <p className="mb-3 text-sm text-muted-foreground">
+            History of <span className="font-medium text-foreground">{target.title}</span>
+          </p>
+        )}
+
+        {events.length === 0 ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">
+            {loading ? (
+              <Loader2 className="mx-auto h-5 w-5 animate-spin" />
+            ) : filtered ? (
+              'No activity matches these filters.'
+            ) : (
+              'No activity yet.'
+            )}
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {events.map((event) => {
+              const Icon = ICONS[event.action];
+              const changes =
+                event.action === AuditAction.UPDATED ? describeChanges(event) : [];
+              const reachable =
+                event.targetType === 'page' &&
+                event.action !== AuditAction.PURGED &&
+                event.action !== AuditAction.DELETED;
+              return (
+                <li key={event._id} className="group flex gap-3 px-3 py-2 text-sm">
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p>
+                      <span className="font-medium">{event.actorName}</span>{' '}
+                      {VERBS[event.action]}{' '}
+                      {event.targetType === 'page' ? 'page' : 'the workspace'}{' '}
+                      {reachable && onNavigate ? (
+                        <button
+                          type="button"
+                          className="font-medium text-primary hover:underline"
+                          onClick={() => onNavigate(event.targetId)}
+                        >
+                          {event.targetTitle}
+                        </button>
+                      ) : (
+                        <span className="font-medium">{event.targetTitle}</span>
+                      )}
+                    </p>
+                    {changes.length > 0 && (
+                      <p className="text-xs text-muted-foreground">{changes.join(' · ')}</p>
+                    )}
+                    <p
+                      className="text-xs text-muted-foreground"
+                      title={event.requestId ? `Request ${event.requestId}` : undefined}
+                    >
+                      {formatTime(event.createdAt)}
+                    </p>
+                  </div>
+                  {target?._id !== event.targetId && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                      onClick={() => setTarget({ _id: event.targetId, title: event.targetTitle })}
+                      title="Show only this history"
+                    >
+                      <Filter className="h-3 w-3" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {nextCursor && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-2 w-full"
+            onClick={loadMore}
+            disabled={loading}
+          >
+            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
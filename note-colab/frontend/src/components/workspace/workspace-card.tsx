@@ -2,7 +2,16 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { MoreVertical, Edit2, Trash2, FolderOpen } from 'lucide-react';
+import {
+  MoreVertical,
+  Edit2,
+  Trash2,
+  FolderOpen,
+  Users,
+  Download,
+  Upload,
+  Copy,
+} from 'lucide-react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,18 +29,35 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import type { Workspace } from '@/types/workspace';
+import { canEdit, canManage } from '@/lib/permissions';
+import { getExportUrl } from '@/lib/workspace-api';
+import type { ExportFormat, Workspace } from '@/types/workspace';
 import { WorkspaceStatus } from '@/types/workspace';
+import { CloneWorkspaceDialog } from './clone-workspace-dialog';
+import { ImportDialog } from './import-dialog';
+import { MembersDialog } from './members-dialog';
 
 interface WorkspaceCardProps {
   workspace: Workspace;
   onEdit: (workspace: Workspace) => void;
   onDelete: (id: string) => Promise<void>;
+  onLeave?: () => void;
+  /** Called when a duplicate of the workspace is complete */
+  onCloned?: () => void;
 }
 
-export function WorkspaceCard({ workspace, onEdit, onDelete }: WorkspaceCardProps) {
+export function WorkspaceCard({
+  workspace,
+  onEdit,
+  onDelete,
+  onLeave,
+  onCloned,
+}: WorkspaceCardProps) {
   const router = useRouter();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showMembersDialog, setShowMembersDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showCloneDialog, setShowCloneDialog] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
   const handleDelete = async () => {
@@ -46,6 +72,10 @@ export function WorkspaceCard({ workspace, onEdit, onDelete }: WorkspaceCardProp
     }
   };
 
+  const handleExport = (format: ExportFormat) => {
+    window.location.assign(getExportUrl(workspace._id, format));
+  };
+
   const getStatusColor = (status: WorkspaceStatus) => {
     switch (status) {
       case WorkspaceStatus.ACTIVE:
@@ -89,17 +119,43 @@ export function WorkspaceCard({ workspace, onEdit, onDelete }: WorkspaceCardProp
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => onEdit(workspace)}>
-                  <Edit2 className="mr-2 h-4 w-4" />
-                  Edit
+                {canEdit(workspace.role) && (
+                  <DropdownMenuItem onClick={() => onEdit(workspace)}>
+                    <Edit2 className="mr-2 h-4 w-4" />
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => setShowMembersDialog(true)}>
+                  <Users className="mr-2 h-4 w-4" />
+                  Members
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('markdown')}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export as Markdown
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('json')}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export as JSON
                 </DropdownMenuItem>
-                <DropdownMenuItem
-                  onClick={() => setShowDeleteDialog(true)}
-                  className="text-destructive focus:text-destructive"
-                >
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  Delete
+                <DropdownMenuItem onClick={() => setShowCloneDialog(true)}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicate
                 </DropdownMenuItem>
+                {canEdit(workspace.role) && (
+                  <DropdownMenuItem onClick={() => setShowImportDialog(true)}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import pages
+                  </DropdownMenuItem>
+                )}
+                {canManage(workspace.role) && (
+                  <DropdownMenuItem
+                    onClick={() => setShowDeleteDialog(true)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -109,6 +165,11 @@ export function WorkspaceCard({ workspace, onEdit, onDelete }: WorkspaceCardProp
             <Badge variant={getStatusColor(workspace.status)}>
               {workspace.status}
             </Badge>
+            {workspace.role && (
+              <Badge variant="outline" className="capitalize">
+                {workspace.role}
+              </Badge>
+            )}
           </div>
         </CardContent>
         <CardFooter className="pt-3 border-t text-xs text-muted-foreground">
@@ -136,7 +197,8 @@ export function WorkspaceCard({ workspace, onEdit, onDelete }: WorkspaceCardProp
           <DialogHeader>
             <DialogTitle>Delete Workspace</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete &quot;{workspace.title}&quot;? This action cannot be undone.
+              Move &quot;{workspace.title}&quot; and its pages to the trash? You can restore it from
+              the trash until it is deleted for good.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -157,6 +219,28 @@ export function WorkspaceCard({ workspace, onEdit, onDelete }: WorkspaceCardProp
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <MembersDialog
+        workspace={workspace}
+        open={showMembersDialog}
+        onOpenChange={setShowMembersDialog}
+        onLeave={onLeave}
+      />
+
+      {showCloneDialog && (
+        <CloneWorkspaceDialog
+          workspace={workspace}
+          open
+          onOpenChange={setShowCloneDialog}
+          onCloned={onCloned}
+        />
+      )}
+
+      <ImportDialog
+        workspace={workspace}
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+      />
     </>
   );
 }
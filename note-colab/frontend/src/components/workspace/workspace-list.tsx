@@ -1,13 +1,17 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Plus, AlertCircle, FolderOpen } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { Plus, AlertCircle, FolderOpen, Loader2, Search, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { WorkspaceCard } from "./workspace-card";
 import { WorkspaceForm } from "./workspace-form";
+import { UserMenu } from "@/components/auth/user-menu";
 import { workspaceApi } from "@/lib/workspace-api";
+import type { ApiError } from "@/lib/api";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { useToast } from "@/components/ui/toast";
 import type {
   Workspace,
@@ -17,9 +21,12 @@ import type {
 import { v4 } from "uuid";
 
 export function WorkspaceList() {
+  const router = useRouter();
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [formOpen, setFormOpen] = useState(false);
   const [editingWorkspace, setEditingWorkspace] = useState<Workspace | null>(
     null
@@ -30,8 +37,9 @@ export function WorkspaceList() {
     try {
       setLoading(true);
       setError(null);
-      const data = await workspaceApi.getAll();
-      setWorkspaces(data);
+      const { items, nextCursor } = await workspaceApi.getAll();
+      setWorkspaces(items);
+      setNextCursor(nextCursor);
     } catch (err: any) {
       setError(err.message || "Failed to load workspaces");
       console.error("Error fetching workspaces:", err);
@@ -40,6 +48,35 @@ export function WorkspaceList() {
     }
   };
 
+  const loadMoreWorkspaces = async () => {
+    if (!nextCursor) return;
+    try {
+      setLoadingMore(true);
+      const { items, nextCursor: cursor } = await workspaceApi.getAll({
+        cursor: nextCursor,
+      });
+      setWorkspaces((prev) => [
+        ...prev,
+        ...items.filter((item) => !prev.some((w) => w._id === item._id)),
+      ]);
+      setNextCursor(cursor);
+    } catch (err) {
+      addToast({
+        title: "Failed to load more workspaces",
+        description: (err as ApiError).message || "An error occurred.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadMoreRef = useInfiniteScroll({
+    hasMore: !!nextCursor,
+    loading: loadingMore,
+    onLoadMore: loadMoreWorkspaces,
+  });
+
   useEffect(() => {
     fetchWorkspaces();
   }, []);
@@ -91,8 +128,8 @@ export function WorkspaceList() {
     try {
       await workspaceApi.delete(id);
       addToast({
-        title: "Workspace deleted",
-        description: "Your workspace has been deleted successfully.",
+        title: "Workspace moved to trash",
+        description: "You can restore it from the trash.",
         variant: "success",
       });
       await fetchWorkspaces();
@@ -185,10 +222,21 @@ export function WorkspaceList() {
             Organize and manage your workspaces
           </p>
         </div>
-        <Button onClick={() => setFormOpen(true)}>
-          <Plus className="mr-2 h-4 w-4" />
-          New Workspace
-        </Button>
+        <div className="flex items-center gap-2">
+          <UserMenu />
+          <Button variant="outline" onClick={() => router.push("/search")}>
+            <Search className="mr-2 h-4 w-4" />
+            Search
+          </Button>
+          <Button variant="outline" onClick={() => router.push("/trash")}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Trash
+          </Button>
+          <Button onClick={() => setFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Workspace
+          </Button>
+        </div>
       </div>
 
       {workspaces.length === 0 ? (
@@ -214,10 +262,18 @@ export function WorkspaceList() {
               workspace={workspace}
               onEdit={handleEdit}
               onDelete={handleDelete}
+              onLeave={fetchWorkspaces}
+              onCloned={fetchWorkspaces}
             />
           ))}
         </div>
       )}
+      {nextCursor && !loadingMore && <div ref={loadMoreRef} className="h-1" />}
+      {loadingMore && (
+        <div className="flex justify-center p-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
 
       <WorkspaceForm
         open={formOpen}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type * as Y from 'yjs';
+import { CollabSession, type CollabStatus } from '@/lib/collab';
+import { MAX_PAGE_CONTENT_LENGTH } from '@/types/page';
+
+/**
+ * Shifts a caret index through a remote change so it stays next to the same characters
+ */
+const transformIndex = (delta: Y.YTextEvent['delta'], index: number): number => {
+  // `position` walks the text as it was before the change
+  let position = 0;
+  let result = index;
+  for (const op of delta) {
+    if (position >= index) break;
+    if (op.retain !== undefined) {
+      position += op.retain;
+    } else if (typeof op.insert === 'string') {
+      result += op.insert.length;
+    } else if (op.delete !== undefined) {
+      result -= Math.min(op.delete, index - position);
+      position += op.delete;
+    }
+  }
+  return result;
+};
+
+/**
+ * Binds a textarea to the collaborative document of a page while `enabled`.
+ */
+export function useCollaborativeText(
+  workspaceId: string,
+  pageId: string | null,
+  enabled: boolean,
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>
+) {
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<CollabStatus>('offline');
+  // Whether the document has been loaded from the server at least once; edits made
+  // while offline after that are merged on reconnect
+  const [ready, setReady] = useState(false);
+  // Why the server is not saving the document, until it can again
+  const [rejected, setRejected] = useState<string | null>(null);
+  const sessionRef = useRef<CollabSession | null>(null);
+  const pendingSelection = useRef<[number, number] | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !pageId) return;
+
+    const session = new CollabSession(
+      workspaceId,
+      pageId,
+      (next) => {
+        if (next === 'synced') setReady(true);
+        setStatus(next);
+      },
+      setRejected
+    );
+    sessionRef.current = session;
+
+    const observer = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+      const textarea = textareaRef.current;
+      if (!transaction.local && textarea && document.activeElement === textarea) {
+        pendingSelection.current = [
+          transformIndex(event.delta, textarea.selectionStart),
+          transformIndex(event.delta, textarea.selectionEnd),
+        ];
+      }
+      setText(session.text.toString());
+      // Back within the limit: the next save goes through
+      if (session.text.length <= MAX_PAGE_CONTENT_LENGTH) setRejected(null);
+    };
+    session.text.observe(observer);
+
+    return () => {
+      session.text.unobserve(observer);
+      session.destroy();
+      sessionRef.current = null;
+      setText('');
+      setStatus('offline');
+      setReady(false);
+      setRejected(null);
+    };
+  }, [workspaceId, pageId, enabled, textareaRef]);
+
+  // Restore the caret after a remote edit re-rendered the textarea
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (pendingSelection.current && textarea) {
+      textarea.setSelectionRange(...pendingSelection.current);
+      pendingSelection.current = null;
+    }
+  }, [text, textareaRef]);
+
+  const change = useCallback((next: string) => {
+    sessionRef.current?.replace(next);
+  }, []);
+
+  return { text, status, ready, rejected, change };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+interface InfiniteScrollOptions {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  /** How far ahead of the end to start loading */
+  rootMargin?: string;
+}
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel ref scrolls into view
+ * while more items are available and none are loading.
+ */
+export function useInfiniteScroll({
+  hasMore,
+  loading,
+  onLoadMore,
+  rootMargin = '200px',
+}: InfiniteScrollOptions) {
+  const state = useRef({ hasMore, loading, onLoadMore });
+  const observer = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => {
+    state.current = { hasMore, loading, onLoadMore };
+  });
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  return useCallback(
+    (sentinel: HTMLElement | null) => {
+      observer.current?.disconnect();
+      if (!sentinel) return;
+
+      observer.current = new IntersectionObserver(
+        (entries) => {
+          const { hasMore, loading, onLoadMore } = state.current;
+          if (entries.some((entry) => entry.isIntersecting) && hasMore && !loading) {
+            onLoadMore();
+          }
+        },
+        { rootMargin }
+      );
+      observer.current.observe(sentinel);
+    },
+    [rootMargin]
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useEffect } from 'react';
+import { CLIENT_ID } from '@/lib/api';
+import { getPresenceColor, PRESENCE_HEARTBEAT_INTERVAL } from '@/lib/presence';
+import type { WorkspaceMessage } from '@/lib/realtime';
+import type { PresenceState } from '@/types/presence';
+
+/**
+ * Announces which page this tab has open, and whether it is being edited,
+ * with periodic heartbeats on the workspace socket.
+ */
+export function usePresence(
+  send: (message: WorkspaceMessage) => void,
+  pageId: string | null,
+  state: PresenceState
+) {
+  useEffect(() => {
+    const color = getPresenceColor();
+    const announce = () => send({ type: 'presence', clientId: CLIENT_ID, color, pageId, state });
+
+    announce();
+    const timer = setInterval(announce, PRESENCE_HEARTBEAT_INTERVAL);
+    return () => clearInterval(timer);
+  }, [send, pageId, state]);
+}
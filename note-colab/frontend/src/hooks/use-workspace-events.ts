@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { CLIENT_ID } from '@/lib/api';
+import {
+  subscribeToWorkspace,
+  type WorkspaceEvent,
+  type WorkspaceMessage,
+  type WorkspaceSubscription,
+} from '@/lib/realtime';
+
+/**
+ * Subscribes to live events for a workspace, skipping the ones this tab caused.
+ * Returns a `send` function for messages to the workspace socket.
+ */
+export function useWorkspaceEvents(
+  workspaceId: string,
+  onEvent: (event: WorkspaceEvent) => void,
+  onReconnect?: () => void
+) {
+  const handlers = useRef({ onEvent, onReconnect });
+  const subscription = useRef<WorkspaceSubscription | null>(null);
+  // Sent before the socket exists (effects run child-first); replayed once it does
+  const pending = useRef<WorkspaceMessage[]>([]);
+
+  useEffect(() => {
+    handlers.current = { onEvent, onReconnect };
+  });
+
+  useEffect(() => {
+    const current = subscribeToWorkspace(
+      workspaceId,
+      (event) => {
+        if (event.originClientId === CLIENT_ID) return;
+        handlers.current.onEvent(event);
+      },
+      () => handlers.current.onReconnect?.()
+    );
+    pending.current.forEach((message) => current.send(message));
+    pending.current = [];
+    subscription.current = current;
+    return () => {
+      current.close();
+      subscription.current = null;
+    };
+  }, [workspaceId]);
+
+  return useCallback((message: WorkspaceMessage) => {
+    if (subscription.current) {
+      subscription.current.send(message);
+    } else {
+      pending.current.push(message);
+    }
+  }, []);
+}
@@ -0,0 +1,13 @@
+import { apiClient, toQueryString, type Paginated } from './api';
+import type { ActivityFilters, AuditEvent } from '@/types/activity';
+
+export const activityApi = {
+  getAll: async (
+    workspaceId: string,
+    params?: ActivityFilters & { limit?: number; cursor?: string | null }
+  ): Promise<Paginated<AuditEvent>> => {
+    return apiClient.getPaginated<AuditEvent>(
+      `/workspaces/${workspaceId}/activity${toQueryString(params)}`
+    );
+  },
+};
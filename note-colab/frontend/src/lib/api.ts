@@ -1,10 +1,48 @@
-const API_BASE_URL =
+import type { PageMergeConflicts } from "@/types/page";
+import { v4 } from "uuid";
+
+export const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
 
+// Identifies this browser tab so real-time events it caused can be skipped
+export const CLIENT_ID = v4();
+
+export interface PaginationMeta {
+  limit: number;
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   message?: string;
+  pagination?: PaginationMeta;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface ListParams {
+  limit?: number;
+  cursor?: string | null;
+  sort?: 'createdAt' | '-createdAt' | 'updatedAt' | '-updatedAt' | 'title' | '-title';
+}
+
+/**
+ * Builds a query string from the defined values, e.g. `?limit=20&cursor=...`
+ */
+export function toQueryString(params: object = {}): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      query.set(key, String(value));
+    }
+  });
+  const result = query.toString();
+  return result ? `?${result}` : "";
 }
 
 export interface ApiError {
@@ -14,8 +52,10 @@ export interface ApiError {
   retryAfter?: number;
   serverVersion?: number;
   clientVersion?: number;
+  serverTitle?: string;
   serverContent?: string;
   clientContent?: string;
+  conflicts?: PageMergeConflicts;
 }
 
 interface RetryOptions {
@@ -28,6 +68,7 @@ interface RetryOptions {
 class ApiClient {
   private baseUrl: string;
   private retryOptions: RetryOptions;
+  private unauthorizedHandler: (() => void) | null = null;
 
   constructor(baseUrl: string, retryOptions: RetryOptions = {}) {
     this.baseUrl = baseUrl;
@@ -40,6 +81,13 @@ class ApiClient {
     };
   }
 
+  /**
+   * Called whenever the API rejects the session, e.g. to send the user to the login screen
+   */
+  onUnauthorized(handler: (() => void) | null) {
+    this.unauthorizedHandler = handler;
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -63,22 +111,30 @@ class ApiClient {
     return false;
   }
 
-  private async request<T>(
+  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const response = await this.requestEnvelope<T>(endpoint, options);
+    return response.data as T;
+  }
+
+  private async requestEnvelope<T>(
     endpoint: string,
     options: RequestInit = {},
     retryCount = 0
-  ): Promise<T> {
+  ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${endpoint}`;
 
-    // Ensure Content-Type is always set for JSON requests
+    // Ensure Content-Type is set for JSON requests; the browser sets the multipart boundary itself
     const headers = new Headers(options.headers || {});
-    if (!headers.has("Content-Type")) {
+    if (!headers.has("Content-Type") && !(options.body instanceof FormData)) {
       headers.set("Content-Type", "application/json");
     }
+    headers.set("X-Client-ID", CLIENT_ID);
 
+    // Sends the session cookie along with cross-origin API requests
     const config: RequestInit = {
       ...options,
       headers,
+      credentials: "include",
     };
 
     try {
@@ -92,6 +148,10 @@ class ApiClient {
           ...(data as any),
         };
 
+        if (response.status === 401) {
+          this.unauthorizedHandler?.();
+        }
+
         // Retry on retryable errors
         if (
           this.shouldRetry(error, response.status) &&
@@ -107,13 +167,13 @@ class ApiClient {
               );
 
           await this.delay(delayTime);
-          return this.request<T>(endpoint, options, retryCount + 1);
+          return this.requestEnvelope<T>(endpoint, options, retryCount + 1);
         }
 
         throw error;
       }
 
-      return (data as ApiResponse<T>).data as T;
+      return data as ApiResponse<T>;
     } catch (error) {
       // Network errors - retry
       if (
@@ -127,7 +187,7 @@ class ApiClient {
         );
 
         await this.delay(delayTime);
-        return this.request<T>(endpoint, options, retryCount + 1);
+        return this.requestEnvelope<T>(endpoint, options, retryCount + 1);
       }
 
       // Transform network errors
@@ -146,10 +206,23 @@ class ApiClient {
     return this.request<T>(endpoint, { method: "GET" });
   }
 
+  /**
+   * GET for cursor-paginated list endpoints; keeps the `nextCursor` metadata
+   */
+  async getPaginated<T>(endpoint: string): Promise<Paginated<T>> {
+    const response = await this.requestEnvelope<T[]>(endpoint, { method: "GET" });
+    return {
+      items: response.data ?? [],
+      nextCursor: response.pagination?.nextCursor ?? null,
+    };
+  }
+
   async post<T>(endpoint: string, body?: unknown, options?: RequestInit): Promise<T> {
     return this.request<T>(endpoint, {
       method: "POST",
-      ...(body !== undefined && { body: JSON.stringify(body) }),
+      ...(body !== undefined && {
+        body: body instanceof FormData ? body : JSON.stringify(body),
+      }),
       ...options,
     });
   }
@@ -161,6 +234,13 @@ class ApiClient {
     });
   }
 
+  async patch<T>(endpoint: string, body?: unknown): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: "PATCH",
+      body: JSON.stringify(body),
+    });
+  }
+
   async delete<T>(endpoint: string): Promise<T> {
     return this.request<T>(endpoint, { method: "DELETE" });
   }
@@ -0,0 +1,37 @@
+import { API_BASE_URL, apiClient, toQueryString } from './api';
+import type { Attachment } from '@/types/attachment';
+
+/** Mirrors the server's limits so obviously bad uploads fail before they are sent */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENT_FILES = 10;
+export const MAX_ATTACHMENT_TOTAL_SIZE = 25 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/gif,image/webp,.pdf,.csv,.txt';
+
+const attachmentsPath = (workspaceId: string, pageId: string) =>
+  `/workspaces/${workspaceId}/pages/${pageId}/attachments`;
+
+export const attachmentApi = {
+  getAll: async (workspaceId: string, pageId: string): Promise<Attachment[]> => {
+    return apiClient.get<Attachment[]>(attachmentsPath(workspaceId, pageId));
+  },
+
+  /** Files the page already has come back as the existing attachments */
+  upload: async (workspaceId: string, pageId: string, files: File[]): Promise<Attachment[]> => {
+    const form = new FormData();
+    files.forEach((file) => form.append('files', file));
+    return apiClient.post<Attachment[]>(attachmentsPath(workspaceId, pageId), form);
+  },
+
+  delete: async (workspaceId: string, pageId: string, attachmentId: string): Promise<void> => {
+    return apiClient.delete<void>(`${attachmentsPath(workspaceId, pageId)}/${attachmentId}`);
+  },
+};
+
+/**
+ * Downloads go straight to the API so the browser streams them; the auth cookie
+ * goes along. `inline` opens the file in the browser instead of saving it.
+ */
+export const getAttachmentUrl = (attachment: Attachment, inline = false) => {
+  const path = `${attachmentsPath(attachment.workspaceId, attachment.pageId)}/${attachment._id}`;
+  return `${API_BASE_URL}${path}${toQueryString({ inline: inline || undefined })}`;
+};
@@ -0,0 +1,21 @@
+import { apiClient } from './api';
+import type { AuthSession, LoginInput, RegisterInput, User } from '@/types/user';
+
+// The session itself lives in an httpOnly cookie set by the API
+export const authApi = {
+  register: async (data: RegisterInput): Promise<AuthSession> => {
+    return apiClient.post<AuthSession>('/auth/register', data);
+  },
+
+  login: async (data: LoginInput): Promise<AuthSession> => {
+    return apiClient.post<AuthSession>('/auth/login', data);
+  },
+
+  logout: async (): Promise<void> => {
+    return apiClient.post<void>('/auth/logout');
+  },
+
+  me: async (): Promise<User> => {
+    return apiClient.get<User>('/auth/me');
+  },
+};
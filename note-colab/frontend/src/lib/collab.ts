@@ -0,0 +1,127 @@
+import * as Y from 'yjs';
+import { WS_BASE_URL } from './realtime';
+
+export type CollabStatus = 'connecting' | 'synced' | 'offline';
+
+type CollabMessage =
+  | { type: 'sync'; update: string }
+  | { type: 'update'; update: string }
+  // The server could not save the document, e.g. it is over the content limit
+  | { type: 'rejected'; message: string };
+
+const REMOTE_ORIGIN = 'remote';
+
+const encode = (update: Uint8Array): string => {
+  let binary = '';
+  update.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const decode = (update: string): Uint8Array => {
+  const binary = atob(update);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * A page's content as a Yjs document kept in sync with the server over a
+ * persistent socket. Edits made while offline are kept in the local document
+ * and merged on reconnect.
+ */
+export class CollabSession {
+  readonly doc = new Y.Doc();
+  readonly text = this.doc.getText('content');
+  private socket: WebSocket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay: number;
+  private closed = false;
+
+  constructor(
+    private workspaceId: string,
+    private pageId: string,
+    private onStatus: (status: CollabStatus) => void,
+    private onRejected: (message: string) => void,
+    private initialDelay = 1000,
+    private maxDelay = 30000
+  ) {
+    this.retryDelay = initialDelay;
+    this.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE_ORIGIN) {
+        this.send({ type: 'update', update: encode(update) });
+      }
+    });
+    this.connect();
+  }
+
+  private connect() {
+    this.onStatus('connecting');
+    const socket = new WebSocket(
+      `${WS_BASE_URL}/ws/workspaces/${this.workspaceId}/pages/${this.pageId}/doc`
+    );
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as CollabMessage;
+      if (message.type === 'rejected') {
+        this.onRejected(message.message);
+        return;
+      }
+      Y.applyUpdate(this.doc, decode(message.update), REMOTE_ORIGIN);
+      if (message.type === 'sync') {
+        // Hand the server anything typed while we were disconnected
+        this.send({ type: 'update', update: encode(Y.encodeStateAsUpdate(this.doc)) });
+        this.retryDelay = this.initialDelay;
+        this.onStatus('synced');
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.closed) return;
+      this.onStatus('offline');
+      this.retryTimer = setTimeout(() => this.connect(), this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, this.maxDelay);
+    };
+  }
+
+  private send(message: CollabMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Applies a new full value from the textarea as a minimal delete + insert
+   */
+  replace(next: string) {
+    const current = this.text.toString();
+    if (current === next) return;
+
+    let start = 0;
+    while (start < current.length && start < next.length && current[start] === next[start]) {
+      start++;
+    }
+    let currentEnd = current.length;
+    let nextEnd = next.length;
+    while (currentEnd > start && nextEnd > start && current[currentEnd - 1] === next[nextEnd - 1]) {
+      currentEnd--;
+      nextEnd--;
+    }
+
+    this.doc.transact(() => {
+      if (currentEnd > start) this.text.delete(start, currentEnd - start);
+      if (nextEnd > start) this.text.insert(start, next.slice(start, nextEnd));
+    });
+  }
+
+  destroy() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.doc.destroy();
+  }
+}
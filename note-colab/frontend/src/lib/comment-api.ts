@@ -0,0 +1,52 @@
+import { apiClient } from './api';
+import type {
+  CommentThread,
+  CommentThreadStatus,
+  CreateCommentInput,
+  PageComment,
+} from '@/types/comment';
+
+const commentsPath = (workspaceId: string, pageId: string) =>
+  `/workspaces/${workspaceId}/pages/${pageId}/comments`;
+
+export const commentApi = {
+  getThreads: async (
+    workspaceId: string,
+    pageId: string,
+    status?: CommentThreadStatus
+  ): Promise<CommentThread[]> => {
+    const query = status ? `?status=${status}` : '';
+    return apiClient.get<CommentThread[]>(`${commentsPath(workspaceId, pageId)}${query}`);
+  },
+
+  create: async (
+    workspaceId: string,
+    pageId: string,
+    data: CreateCommentInput
+  ): Promise<PageComment> => {
+    return apiClient.post<PageComment>(commentsPath(workspaceId, pageId), data);
+  },
+
+  update: async (
+    workspaceId: string,
+    pageId: string,
+    commentId: string,
+    body: string
+  ): Promise<PageComment> => {
+    return apiClient.patch<PageComment>(`${commentsPath(workspaceId, pageId)}/${commentId}`, {
+      body,
+    });
+  },
+
+  delete: async (workspaceId: string, pageId: string, commentId: string): Promise<void> => {
+    return apiClient.delete<void>(`${commentsPath(workspaceId, pageId)}/${commentId}`);
+  },
+
+  resolve: async (workspaceId: string, pageId: string, commentId: string): Promise<PageComment> => {
+    return apiClient.post<PageComment>(`${commentsPath(workspaceId, pageId)}/${commentId}/resolve`);
+  },
+
+  reopen: async (workspaceId: string, pageId: string, commentId: string): Promise<PageComment> => {
+    return apiClient.post<PageComment>(`${commentsPath(workspaceId, pageId)}/${commentId}/reopen`);
+  },
+};
@@ -0,0 +1,15 @@
+import { apiClient } from './api';
+import type { Backlink, OutgoingLink } from '@/types/link';
+
+const pagePath = (workspaceId: string, pageId: string) =>
+  `/workspaces/${workspaceId}/pages/${pageId}`;
+
+export const linkApi = {
+  getBacklinks: async (workspaceId: string, pageId: string): Promise<Backlink[]> => {
+    return apiClient.get<Backlink[]>(`${pagePath(workspaceId, pageId)}/backlinks`);
+  },
+
+  getLinks: async (workspaceId: string, pageId: string): Promise<OutgoingLink[]> => {
+    return apiClient.get<OutgoingLink[]>(`${pagePath(workspaceId, pageId)}/links`);
+  },
+};
@@ -0,0 +1,38 @@
+import { apiClient, toQueryString, type Paginated } from './api';
+import type {
+  MarkNotificationsInput,
+  MarkNotificationsResult,
+  Notification,
+} from '@/types/notification';
+
+export const notificationApi = {
+  getAll: async (
+    params?: { limit?: number; cursor?: string | null; unread?: boolean }
+  ): Promise<Paginated<Notification>> => {
+    return apiClient.getPaginated<Notification>(`/notifications${toQueryString(params)}`);
+  },
+
+  getUnreadCount: async (): Promise<number> => {
+    const { count } = await apiClient.get<{ count: number }>('/notifications/unread-count');
+    return count;
+  },
+
+  mark: async (data: MarkNotificationsInput): Promise<MarkNotificationsResult> => {
+    return apiClient.patch<MarkNotificationsResult>('/notifications', data);
+  },
+
+  isWatching: async (workspaceId: string, pageId: string): Promise<boolean> => {
+    const { watching } = await apiClient.get<{ watching: boolean }>(
+      `/workspaces/${workspaceId}/pages/${pageId}/watch`
+    );
+    return watching;
+  },
+
+  setWatching: async (workspaceId: string, pageId: string, watching: boolean): Promise<boolean> => {
+    const path = `/workspaces/${workspaceId}/pages/${pageId}/watch`;
+    const result = watching
+      ? await apiClient.put<{ watching: boolean }>(path)
+      : await apiClient.delete<{ watching: boolean }>(path);
+    return result.watching;
+  },
+};
@@ -1,9 +1,35 @@
-import { apiClient } from './api';
-import type { Page, CreatePageInput, UpdatePageInput } from '@/types/page';
+import { apiClient, toQueryString, type ListParams, type Paginated } from './api';
+import type {
+  DeleteDescendants,
+  DuplicatePageInput,
+  Page,
+  PageStatus,
+  PagePositionInput,
+  PageTreeNode,
+  CreatePageInput,
+  UpdatePageInput,
+  PageRevision,
+} from '@/types/page';
 
 export const pageApi = {
-  getAll: async (workspaceId: string): Promise<Page[]> => {
-    return apiClient.get<Page[]>(`/workspaces/${workspaceId}/pages`);
+  // List items carry no `content`; load the page itself to edit it
+  getAll: async (
+    workspaceId: string,
+    params?: Omit<ListParams, 'sort'> & {
+      // `position` needs `parentId`: it only orders siblings
+      sort?: ListParams['sort'] | 'position';
+      status?: PageStatus;
+      parentId?: string | 'root';
+    }
+  ): Promise<Paginated<Page>> => {
+    return apiClient.getPaginated<Page>(
+      `/workspaces/${workspaceId}/pages${toQueryString(params)}`
+    );
+  },
+
+  // The whole outline of the workspace, without content
+  getTree: async (workspaceId: string): Promise<PageTreeNode[]> => {
+    return apiClient.get<PageTreeNode[]>(`/workspaces/${workspaceId}/pages/tree`);
   },
 
   getById: async (workspaceId: string, pageId: string): Promise<Page> => {
@@ -18,8 +44,58 @@ export const pageApi = {
     return apiClient.put<Page>(`/workspaces/${workspaceId}/pages/${pageId}`, data);
   },
 
-  delete: async (workspaceId: string, pageId: string): Promise<void> => {
-    return apiClient.delete<void>(`/workspaces/${workspaceId}/pages/${pageId}`);
+  /** Renders markdown to sanitized HTML without saving it */
+  preview: async (workspaceId: string, content: string): Promise<{ html: string }> => {
+    return apiClient.post<{ html: string }>(`/workspaces/${workspaceId}/pages/preview`, {
+      content,
+    });
+  },
+
+  setTags: async (workspaceId: string, pageId: string, tags: string[]): Promise<Page> => {
+    return apiClient.put<Page>(`/workspaces/${workspaceId}/pages/${pageId}/tags`, { tags });
+  },
+
+  move: async (workspaceId: string, pageId: string, parentId: string | null): Promise<Page> => {
+    return apiClient.patch<Page>(`/workspaces/${workspaceId}/pages/${pageId}/move`, { parentId });
+  },
+
+  // The copy first, then the copies of its subpages
+  duplicate: async (
+    workspaceId: string,
+    pageId: string,
+    data: DuplicatePageInput = {}
+  ): Promise<Page[]> => {
+    return apiClient.post<Page[]>(`/workspaces/${workspaceId}/pages/${pageId}/duplicate`, data);
+  },
+
+  setPosition: async (
+    workspaceId: string,
+    pageId: string,
+    data: PagePositionInput
+  ): Promise<Page> => {
+    return apiClient.patch<Page>(`/workspaces/${workspaceId}/pages/${pageId}/position`, data);
+  },
+
+  delete: async (
+    workspaceId: string,
+    pageId: string,
+    descendants?: DeleteDescendants
+  ): Promise<void> => {
+    return apiClient.delete<void>(
+      `/workspaces/${workspaceId}/pages/${pageId}${toQueryString({ descendants })}`
+    );
+  },
+
+  getRevisions: async (workspaceId: string, pageId: string): Promise<PageRevision[]> => {
+    return apiClient.get<PageRevision[]>(`/workspaces/${workspaceId}/pages/${pageId}/revisions`);
+  },
+
+  getRevision: async (workspaceId: string, pageId: string, version: number): Promise<PageRevision> => {
+    return apiClient.get<PageRevision>(`/workspaces/${workspaceId}/pages/${pageId}/revisions/${version}`);
+  },
+
+  restoreRevision: async (workspaceId: string, pageId: string, version: number, __v?: number): Promise<Page> => {
+    return apiClient.post<Page>(`/workspaces/${workspaceId}/pages/${pageId}/revisions/${version}/restore`, { __v });
   },
 };
 
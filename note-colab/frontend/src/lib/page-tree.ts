@@ -0,0 +1,65 @@
+import type { Page, PageTreeNode } from '@/types/page';
+
+/**
+ * Turns the server's nested outline into a flat list, parents before their children
+ */
+export function flattenPageTree(nodes: PageTreeNode[]): Page[] {
+  return nodes.flatMap(({ children, ...page }) => [page, ...flattenPageTree(children)]);
+}
+
+/**
+ * Sibling order: by position key, then by ID like the server
+ */
+export function comparePagePosition(a: Page, b: Page): number {
+  const left = a.position ?? '';
+  const right = b.position ?? '';
+  if (left !== right) return left < right ? -1 : 1;
+  return a._id < b._id ? -1 : a._id > b._id ? 1 : 0;
+}
+
+/**
+ * Nests a flat list of pages under their parents in sibling order; pages whose
+ * parent is not in the list are shown at the top level
+ */
+export function buildPageTree(pages: Page[]): PageTreeNode[] {
+  const nodes = new Map<string, PageTreeNode>(
+    [...pages].sort(comparePagePosition).map((page) => [page._id, { ...page, children: [] }])
+  );
+  const roots: PageTreeNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+  return roots;
+}
+
+/**
+ * The pages above `pageId`, from the top level down to its parent
+ */
+export function getAncestors(pages: Page[], pageId: string | null): Page[] {
+  const byId = new Map(pages.map((page) => [page._id, page]));
+  const ancestors: Page[] = [];
+  let parentId = pageId ? byId.get(pageId)?.parentId : null;
+  while (parentId && !ancestors.some((page) => page._id === parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    ancestors.unshift(parent);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+/**
+ * IDs of every page nested anywhere below `pageId`
+ */
+export function getDescendantIds(pages: Page[], pageId: string): Set<string> {
+  const descendants = new Set<string>();
+  let level = [pageId];
+  while (level.length > 0) {
+    level = pages
+      .filter((page) => page.parentId && level.includes(page.parentId) && !descendants.has(page._id))
+      .map((page) => page._id);
+    level.forEach((id) => descendants.add(id));
+  }
+  return descendants;
+}
@@ -0,0 +1,16 @@
+import { WorkspaceRole } from '@/types/workspace';
+
+// Mirrors the server's role ranking; the API enforces it, the UI only hides controls
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.VIEWER]: 0,
+  [WorkspaceRole.EDITOR]: 1,
+  [WorkspaceRole.OWNER]: 2,
+};
+
+export function hasRole(role: WorkspaceRole | undefined, minRole: WorkspaceRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+export const canEdit = (role?: WorkspaceRole) => hasRole(role, WorkspaceRole.EDITOR);
+
+export const canManage = (role?: WorkspaceRole) => hasRole(role, WorkspaceRole.OWNER);
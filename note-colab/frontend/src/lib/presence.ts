@@ -0,0 +1,38 @@
+export const PRESENCE_HEARTBEAT_INTERVAL = 15000;
+
+// How long after the last keystroke someone still counts as editing
+export const EDITING_IDLE_TIMEOUT = 30000;
+
+const COLOR_KEY = 'note-colab:presence-color';
+
+const COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+/**
+ * Avatar color this browser shows up with in presence lists, picked once and kept
+ * in localStorage. The name comes from the signed-in account on the server.
+ */
+export function getPresenceColor(): string {
+  try {
+    const stored = localStorage.getItem(COLOR_KEY);
+    if (stored) return stored;
+  } catch {
+    // Fall through and pick a new color
+  }
+
+  const color = COLORS[Math.floor(Math.random() * COLORS.length)];
+  try {
+    localStorage.setItem(COLOR_KEY, color);
+  } catch {
+    // Private mode: the color only lasts for this tab
+  }
+  return color;
+}
+
+export function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+}
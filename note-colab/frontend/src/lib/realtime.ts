@@ -0,0 +1,100 @@
+import type { Page } from '@/types/page';
+import type { PresenceMember } from '@/types/presence';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
+
+// Defaults to the API host with the ws scheme, e.g. ws://localhost:5000
+export const WS_BASE_URL =
+  process.env.NEXT_PUBLIC_WS_URL || API_BASE_URL.replace(/^http/, 'ws').replace(/\/api\/?$/, '');
+
+export type PageEvent =
+  | { type: 'page.created'; data: Page }
+  | { type: 'page.updated'; data: Page }
+  | { type: 'page.deleted'; data: { _id: string } };
+
+export type PresenceEvent = { type: 'presence.updated'; data: { members: PresenceMember[] } };
+
+export type WorkspaceEvent = (PageEvent | PresenceEvent) & {
+  workspaceId: string;
+  originClientId?: string;
+  timestamp: string;
+};
+
+export interface WorkspaceMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface WorkspaceSubscription {
+  /** Sends a message to the server; the latest one of each type is re-sent after reconnecting */
+  send: (message: WorkspaceMessage) => void;
+  close: () => void;
+}
+
+interface ReconnectOptions {
+  initialDelay?: number;
+  maxDelay?: number;
+  backoffMultiplier?: number;
+}
+
+/**
+ * Opens a socket to the workspace room and keeps it open, reconnecting with
+ * exponential backoff. Messages sent through the subscription describe the
+ * client's current state (e.g. presence), so only the latest of each type is
+ * kept while offline and replayed whenever the socket opens.
+ */
+export function subscribeToWorkspace(
+  workspaceId: string,
+  onEvent: (event: WorkspaceEvent) => void,
+  onReconnect?: () => void,
+  options: ReconnectOptions = {}
+): WorkspaceSubscription {
+  const { initialDelay = 1000, maxDelay = 30000, backoffMultiplier = 2 } = options;
+  let socket: WebSocket | null = null;
+  let retryDelay = initialDelay;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let connectedOnce = false;
+  const latestMessages = new Map<string, string>();
+
+  const connect = () => {
+    socket = new WebSocket(`${WS_BASE_URL}/ws/workspaces/${workspaceId}`);
+
+    socket.onopen = () => {
+      retryDelay = initialDelay;
+      latestMessages.forEach((payload) => socket?.send(payload));
+      // Events may have been missed while disconnected
+      if (connectedOnce) onReconnect?.();
+      connectedOnce = true;
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        onEvent(JSON.parse(message.data) as WorkspaceEvent);
+      } catch (err) {
+        console.error('Invalid workspace event:', err);
+      }
+    };
+
+    socket.onclose = () => {
+      if (closed) return;
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * backoffMultiplier, maxDelay);
+    };
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      const payload = JSON.stringify(message);
+      latestMessages.set(message.type, payload);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(payload);
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+    },
+  };
+}
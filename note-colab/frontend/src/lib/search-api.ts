@@ -0,0 +1,8 @@
+import { apiClient, toQueryString, type Paginated } from './api';
+import type { SearchParams, SearchResult } from '@/types/search';
+
+export const searchApi = {
+  search: async (params: SearchParams): Promise<Paginated<SearchResult>> => {
+    return apiClient.getPaginated<SearchResult>(`/search${toQueryString(params)}`);
+  },
+};
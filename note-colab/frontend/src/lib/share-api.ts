@@ -0,0 +1,45 @@
+import { apiClient, toQueryString, type Paginated } from './api';
+import type {
+  CreateShareLinkInput,
+  ShareLink,
+  SharedContent,
+  SharedPage,
+  SharedPageSummary,
+} from '@/types/share';
+
+export const shareApi = {
+  getAll: async (workspaceId: string, pageId?: string): Promise<ShareLink[]> => {
+    const query = pageId ? `?pageId=${pageId}` : '';
+    return apiClient.get<ShareLink[]>(`/workspaces/${workspaceId}/shares${query}`);
+  },
+
+  create: async (workspaceId: string, data: CreateShareLinkInput): Promise<ShareLink> => {
+    return apiClient.post<ShareLink>(`/workspaces/${workspaceId}/shares`, data);
+  },
+
+  revoke: async (workspaceId: string, shareId: string): Promise<void> => {
+    return apiClient.delete<void>(`/workspaces/${workspaceId}/shares/${shareId}`);
+  },
+
+  // Public: works without a session
+  getShared: async (token: string): Promise<SharedContent> => {
+    return apiClient.get<SharedContent>(`/share/${token}`);
+  },
+
+  // Public: one level of a shared workspace's pages, in their manual order
+  getSharedPages: async (
+    token: string,
+    params: { parentId?: string; cursor?: string | null } = {}
+  ): Promise<Paginated<SharedPageSummary>> => {
+    return apiClient.getPaginated<SharedPageSummary>(
+      `/share/${token}/pages${toQueryString(params)}`
+    );
+  },
+
+  // Public: a page of a shared workspace with its content
+  getSharedPage: async (token: string, pageId: string): Promise<SharedPage> => {
+    return apiClient.get<SharedPage>(`/share/${token}/pages/${pageId}`);
+  },
+};
+
+export const getShareUrl = (token: string) => `${window.location.origin}/share/${token}`;
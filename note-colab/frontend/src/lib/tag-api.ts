@@ -0,0 +1,20 @@
+import { apiClient } from './api';
+import type { CreateTagInput, Tag, UpdateTagInput } from '@/types/tag';
+
+export const tagApi = {
+  getAll: async (workspaceId: string): Promise<Tag[]> => {
+    return apiClient.get<Tag[]>(`/workspaces/${workspaceId}/tags`);
+  },
+
+  create: async (workspaceId: string, data: CreateTagInput): Promise<Tag> => {
+    return apiClient.post<Tag>(`/workspaces/${workspaceId}/tags`, data);
+  },
+
+  update: async (workspaceId: string, tagId: string, data: UpdateTagInput): Promise<Tag> => {
+    return apiClient.patch<Tag>(`/workspaces/${workspaceId}/tags/${tagId}`, data);
+  },
+
+  delete: async (workspaceId: string, tagId: string): Promise<void> => {
+    return apiClient.delete<void>(`/workspaces/${workspaceId}/tags/${tagId}`);
+  },
+};
@@ -0,0 +1,27 @@
+import { apiClient } from './api';
+import type { PageTemplate, PageTemplateInput } from '@/types/template';
+
+export const templateApi = {
+  getAll: async (workspaceId: string): Promise<PageTemplate[]> => {
+    return apiClient.get<PageTemplate[]>(`/workspaces/${workspaceId}/templates`);
+  },
+
+  create: async (workspaceId: string, data: PageTemplateInput): Promise<PageTemplate> => {
+    return apiClient.post<PageTemplate>(`/workspaces/${workspaceId}/templates`, data);
+  },
+
+  update: async (
+    workspaceId: string,
+    templateId: string,
+    data: Partial<PageTemplateInput>
+  ): Promise<PageTemplate> => {
+    return apiClient.patch<PageTemplate>(
+      `/workspaces/${workspaceId}/templates/${templateId}`,
+      data
+    );
+  },
+
+  delete: async (workspaceId: string, templateId: string): Promise<void> => {
+    return apiClient.delete<void>(`/workspaces/${workspaceId}/templates/${templateId}`);
+  },
+};
@@ -0,0 +1,26 @@
+import { apiClient } from './api';
+import type { Page } from '@/types/page';
+import type { TrashContents } from '@/types/trash';
+import type { Workspace } from '@/types/workspace';
+
+export const trashApi = {
+  get: async (): Promise<TrashContents> => {
+    return apiClient.get<TrashContents>('/trash');
+  },
+
+  restoreWorkspace: async (workspaceId: string): Promise<Workspace> => {
+    return apiClient.post<Workspace>(`/workspaces/${workspaceId}/restore`);
+  },
+
+  purgeWorkspace: async (workspaceId: string): Promise<void> => {
+    return apiClient.delete<void>(`/workspaces/${workspaceId}/purge`);
+  },
+
+  restorePage: async (workspaceId: string, pageId: string): Promise<Page> => {
+    return apiClient.post<Page>(`/workspaces/${workspaceId}/pages/${pageId}/restore`);
+  },
+
+  purgePage: async (workspaceId: string, pageId: string): Promise<void> => {
+    return apiClient.delete<void>(`/workspaces/${workspaceId}/pages/${pageId}/purge`);
+  },
+};
@@ -1,9 +1,23 @@
-import { apiClient } from './api';
-import type { Workspace, CreateWorkspaceInput, UpdateWorkspaceInput } from '@/types/workspace';
+import { API_BASE_URL, apiClient, toQueryString, type ListParams, type Paginated } from './api';
+import type {
+  CloneJob,
+  CloneWorkspaceInput,
+  ExportFormat,
+  ImportReport,
+  Workspace,
+  WorkspaceStatus,
+  CreateWorkspaceInput,
+  UpdateWorkspaceInput,
+  WorkspaceMember,
+  AddMemberInput,
+  WorkspaceRole,
+} from '@/types/workspace';
 
 export const workspaceApi = {
-  getAll: async (): Promise<Workspace[]> => {
-    return apiClient.get<Workspace[]>('/workspaces');
+  getAll: async (
+    params?: ListParams & { status?: WorkspaceStatus }
+  ): Promise<Paginated<Workspace>> => {
+    return apiClient.getPaginated<Workspace>(`/workspaces${toQueryString(params)}`);
   },
 
   getById: async (id: string): Promise<Workspace> => {
@@ -21,5 +35,52 @@ export const workspaceApi = {
   delete: async (id: string): Promise<void> => {
     return apiClient.delete<void>(`/workspaces/${id}`);
   },
+
+  getMembers: async (id: string): Promise<WorkspaceMember[]> => {
+    return apiClient.get<WorkspaceMember[]>(`/workspaces/${id}/members`);
+  },
+
+  addMember: async (id: string, data: AddMemberInput): Promise<WorkspaceMember> => {
+    return apiClient.post<WorkspaceMember>(`/workspaces/${id}/members`, data);
+  },
+
+  updateMemberRole: async (
+    id: string,
+    userId: string,
+    role: WorkspaceRole
+  ): Promise<WorkspaceMember> => {
+    return apiClient.patch<WorkspaceMember>(`/workspaces/${id}/members/${userId}`, { role });
+  },
+
+  removeMember: async (id: string, userId: string): Promise<void> => {
+    return apiClient.delete<void>(`/workspaces/${id}/members/${userId}`);
+  },
+
+  /** Starts copying the workspace into a new one; poll `getCloneJob` for progress */
+  clone: async (id: string, data: CloneWorkspaceInput): Promise<CloneJob> => {
+    return apiClient.post<CloneJob>(`/workspaces/${id}/clone`, data);
+  },
+
+  getCloneJob: async (id: string, jobId: string): Promise<CloneJob> => {
+    return apiClient.get<CloneJob>(`/workspaces/${id}/clone/${jobId}`);
+  },
+
+  /**
+   * Uploads `.md`/`.txt` files or ZIPs of them; the request ID makes a retried
+   * upload return the first report instead of importing twice.
+   */
+  import: async (id: string, files: File[], requestId: string): Promise<ImportReport> => {
+    const form = new FormData();
+    files.forEach((file) => form.append('files', file));
+    return apiClient.post<ImportReport>(`/workspaces/${id}/import`, form, {
+      headers: { 'X-Request-ID': requestId },
+    });
+  },
 };
 
+/**
+ * The export streams a ZIP, so the browser downloads it directly instead of
+ * buffering it through the API client; the auth cookie goes along.
+ */
+export const getExportUrl = (workspaceId: string, format: ExportFormat) =>
+  `${API_BASE_URL}/workspaces/${workspaceId}/export${toQueryString({ format })}`;
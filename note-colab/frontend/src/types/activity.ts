@@ -0,0 +1,39 @@
+export enum AuditAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  /** Moved to the trash */
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+  /** Removed for good */
+  PURGED = 'purged',
+}
+
+export type AuditTargetType = 'workspace' | 'page';
+
+/** One change to the workspace or one of its pages */
+export interface AuditEvent {
+  _id: string;
+  workspaceId: string;
+  /** Null for changes the server made on its own */
+  actor: string | null;
+  actorName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetTitle: string;
+  /** Updates only carry the fields that changed */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  requestId: string | null;
+  createdAt: string;
+}
+
+export interface ActivityFilters {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  actor?: string;
+  /** ISO dates */
+  from?: string;
+  to?: string;
+}
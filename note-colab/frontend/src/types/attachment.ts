@@ -0,0 +1,15 @@
+/** A file attached to a page */
+export interface Attachment {
+  _id: string;
+  workspaceId: string;
+  pageId: string;
+  name: string;
+  /** Detected by the server from the content */
+  mimeType: string;
+  size: number;
+  /** SHA-256 of the content; identical files are stored once */
+  hash: string;
+  uploadedBy: { _id: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,44 @@
+/** Who wrote or resolved a comment */
+export interface CommentUser {
+  _id: string;
+  name: string;
+}
+
+/** The part of a page's content a thread is about */
+export interface CommentAnchor {
+  /** Offsets into the page content, moved along with the quote as the content changes */
+  start: number;
+  end: number;
+  quote: string;
+  /** The quoted text is no longer in the page */
+  detached?: boolean;
+}
+
+export interface PageComment {
+  _id: string;
+  workspaceId: string;
+  pageId: string;
+  /** The thread a reply belongs to; null for the thread itself */
+  threadId: string | null;
+  body: string;
+  anchor?: CommentAnchor | null;
+  resolvedAt?: string | null;
+  resolvedBy?: CommentUser | null;
+  editedAt?: string | null;
+  author: CommentUser;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentThread extends PageComment {
+  replies: PageComment[];
+}
+
+export type CommentThreadStatus = 'open' | 'resolved';
+
+export interface CreateCommentInput {
+  body: string;
+  /** Reply to this comment's thread */
+  parentId?: string;
+  anchor?: Omit<CommentAnchor, 'detached'>;
+}
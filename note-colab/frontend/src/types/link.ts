@@ -0,0 +1,19 @@
+/** A page at the other end of a `[[link]]` */
+export interface LinkedPage {
+  _id: string;
+  title: string;
+}
+
+/** A page whose content links to the current one */
+export interface Backlink extends LinkedPage {
+  updatedAt: string;
+}
+
+/** A `[[link]]` in the current page's content */
+export interface OutgoingLink {
+  /** The title as written */
+  title: string;
+  /** Null when no page has the title */
+  page: LinkedPage | null;
+}
+
@@ -0,0 +1,32 @@
+export enum NotificationType {
+  MENTION = 'mention',
+  REPLY = 'reply',
+  PAGE_EDIT = 'page_edit',
+}
+
+export interface Notification {
+  _id: string;
+  type: NotificationType;
+  /** Who mentioned, replied or (for edits) edited last */
+  actor: { _id: string; name: string } | null;
+  workspaceId: { _id: string; title: string } | null;
+  pageId: { _id: string; title: string; status: string } | null;
+  commentId?: string | null;
+  /** Unread edits of a page are counted in one notification */
+  count: number;
+  readAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MarkNotificationsInput {
+  /** Leave out to mark every notification */
+  ids?: string[];
+  read?: boolean;
+}
+
+export interface MarkNotificationsResult {
+  updated: number;
+  /** Unread notifications left */
+  unread: number;
+}
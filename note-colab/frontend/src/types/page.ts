@@ -4,26 +4,107 @@ export enum PageStatus {
   DELETED = 'deleted',
 }
 
+export enum PageFormat {
+  PLAIN = 'plain',
+  MARKDOWN = 'markdown',
+}
+
+// Same limit as the backend's Page model
+export const MAX_PAGE_CONTENT_LENGTH = 500;
+
 export interface Page {
   _id: string;
   title: string;
   content?: string;
+  format?: PageFormat;
+  /** Markdown pages only: the content rendered to sanitized HTML by the server */
+  html?: string;
   workspaceId: string;
+  /** Page this one is nested under; null at the top level */
+  parentId?: string | null;
+  /** Order key among siblings; compare as plain strings */
+  position?: string | null;
+  /** IDs of workspace tags */
+  tags?: string[];
   status: PageStatus;
+  /** When the page was moved to the trash */
+  deletedAt?: string | null;
+  createdBy?: string;
+  updatedBy?: string;
   createdAt: string;
   updatedAt: string;
   __v?: number;
 }
 
+export interface PageTreeNode extends Page {
+  children: PageTreeNode[];
+}
+
+export interface PagePositionInput {
+  /** Omit to keep the current parent; null is the top level */
+  parentId?: string | null;
+  /** The sibling to place the page after; null puts it first */
+  afterId: string | null;
+}
+
+/** What happens to the subpages of a deleted page */
+export type DeleteDescendants = 'cascade' | 'reparent';
+
 export interface CreatePageInput {
-  title: string;
+  /** Optional with a template, which then fills it in */
+  title?: string;
   content?: string;
+  format?: PageFormat;
+  parentId?: string | null;
+  tags?: string[];
+  templateId?: string;
   __v?: number;
 }
 
+export interface DuplicatePageInput {
+  /** Workspace to copy into; the page's own by default */
+  workspaceId?: string;
+  /** Parent in the target workspace; by default next to the original, or top level elsewhere */
+  parentId?: string | null;
+  includeSubpages?: boolean;
+}
+
 export interface UpdatePageInput {
   title?: string;
   content?: string;
+  format?: PageFormat;
   __v?: number;
 }
 
+export interface PageRevision {
+  _id: string;
+  pageId: string;
+  workspaceId: string;
+  version: number;
+  title: string;
+  content?: string;
+  format?: PageFormat;
+  author: string;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+export interface MergeHunk {
+  type: 'ok' | 'conflict';
+  lines?: string[];
+  base?: string[];
+  server?: string[];
+  client?: string[];
+}
+
+export interface FieldMergeResult {
+  conflict: boolean;
+  merged: string;
+  hunks: MergeHunk[];
+}
+
+export interface PageMergeConflicts {
+  title: FieldMergeResult;
+  content: FieldMergeResult;
+}
+
@@ -0,0 +1,11 @@
+export type PresenceState = 'viewing' | 'editing';
+
+export interface PresenceMember {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  pageId: string | null;
+  state: PresenceState;
+  lastSeen: string;
+}
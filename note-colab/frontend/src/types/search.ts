@@ -0,0 +1,30 @@
+/** Text with the [start, end) ranges that matched the search query */
+export interface HighlightedText {
+  text: string;
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  type: 'page' | 'workspace';
+  /** Relevance; results come sorted by it, highest first */
+  score: number;
+  workspace: {
+    _id: string;
+    title: string;
+  };
+  /** Set for page results */
+  page?: {
+    _id: string;
+    title: string;
+  };
+  title: HighlightedText;
+  snippet: HighlightedText;
+}
+
+export interface SearchParams {
+  q: string;
+  /** Only search the pages of this workspace */
+  workspaceId?: string;
+  limit?: number;
+  cursor?: string;
+}
@@ -0,0 +1,47 @@
+import type { PageFormat } from './page';
+
+export interface ShareLink {
+  _id: string;
+  token: string;
+  workspaceId: string;
+  pageId: string | null;
+  expiresAt: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateShareLinkInput {
+  /** Omit to share the whole workspace */
+  pageId?: string | null;
+  expiresAt?: string | null;
+}
+
+export interface SharedPage {
+  _id: string;
+  title: string;
+  content: string;
+  format?: PageFormat;
+  /** Markdown pages only: the content rendered to sanitized HTML */
+  html?: string;
+  updatedAt: string;
+}
+
+/** A page of a shared workspace as listed, one level at a time */
+export interface SharedPageSummary {
+  _id: string;
+  title: string;
+  format?: PageFormat;
+  hasChildren: boolean;
+  updatedAt: string;
+}
+
+interface SharedWorkspace {
+  title: string;
+  description: string;
+}
+
+export type SharedContent =
+  | { type: 'page'; workspace: SharedWorkspace; page: SharedPage; expiresAt: string | null }
+  // Its pages are loaded with getSharedPages and getSharedPage
+  | { type: 'workspace'; workspace: SharedWorkspace; expiresAt: string | null };
@@ -0,0 +1,20 @@
+export interface Tag {
+  _id: string;
+  workspaceId: string;
+  name: string;
+  /** Hex color, e.g. #3b82f6 */
+  color: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTagInput {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagInput {
+  name?: string;
+  color?: string;
+}
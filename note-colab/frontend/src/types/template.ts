@@ -0,0 +1,26 @@
+import type { PageFormat } from './page';
+
+export interface PageTemplate {
+  _id: string;
+  workspaceId: string;
+  name: string;
+  /** Title and content of new pages, with placeholders such as {{date}} */
+  title: string;
+  content: string;
+  format: PageFormat;
+  /** Pages made from this template so far */
+  counter: number;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PageTemplateInput {
+  name: string;
+  title: string;
+  content?: string;
+  format?: PageFormat;
+}
+
+/** Placeholders filled in when a page is created from a template */
+export const TEMPLATE_VARIABLES = ['date', 'workspace', 'counter'] as const;
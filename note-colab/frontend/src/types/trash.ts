@@ -0,0 +1,16 @@
+import type { Page } from './page';
+import type { Workspace } from './workspace';
+
+export interface TrashedPage extends Omit<Page, 'workspaceId'> {
+  workspaceId: {
+    _id: string;
+    title: string;
+  };
+}
+
+export interface TrashContents {
+  workspaces: Workspace[];
+  pages: TrashedPage[];
+  /** Days an item stays in the trash before it is purged automatically */
+  retentionDays: number;
+}
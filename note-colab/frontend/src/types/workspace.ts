@@ -4,15 +4,85 @@ export enum WorkspaceStatus {
   DELETED = 'deleted',
 }
 
+export enum WorkspaceRole {
+  OWNER = 'owner',
+  EDITOR = 'editor',
+  VIEWER = 'viewer',
+}
+
 export interface Workspace {
   _id: string;
   title: string;
   description?: string;
   status: WorkspaceStatus;
+  /** When the workspace was moved to the trash */
+  deletedAt?: string | null;
+  /** The current user's role in this workspace */
+  role?: WorkspaceRole;
+  createdBy?: string;
+  updatedBy?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface WorkspaceMember {
+  _id: string;
+  workspaceId: string;
+  userId: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface AddMemberInput {
+  email: string;
+  role: WorkspaceRole;
+}
+
+/** File format of the pages in a workspace export */
+export type ExportFormat = 'markdown' | 'json';
+
+export type CloneJobStatus = 'running' | 'completed' | 'failed';
+
+export interface CloneJob {
+  _id: string;
+  sourceWorkspaceId: string;
+  /** The clone; it exists while the job runs and is purged again if it fails */
+  workspaceId: string;
+  status: CloneJobStatus;
+  total: number;
+  copied: number;
+  error?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string | null;
+}
+
+export interface CloneWorkspaceInput {
+  title?: string;
+  description?: string;
+}
+
+export type ImportStatus = 'created' | 'failed' | 'skipped';
+
+export interface ImportReportEntry {
+  file: string;
+  status: ImportStatus;
+  pageId?: string;
+  title?: string;
+  message?: string;
+}
+
+export interface ImportReport {
+  created: number;
+  failed: number;
+  skipped: number;
+  files: ImportReportEntry[];
+}
+
 export interface CreateWorkspaceInput {
   title: string;
   description?: string;